@@ -0,0 +1,32 @@
+/**
+ * Done callbacks for frameworks without `done.fail()`
+ * @module parameterized-testing/adapters/done-callback
+ */
+
+import type { DoneCallback } from '../runner/types';
+
+/**
+ * Turns a `done` that fails the test when called with an error (Jest, Mocha, node:test) into
+ * a {@link DoneCallback}, so callback-style tests can call `done.fail()` as in Jasmine
+ *
+ * @param done - The framework's `done` callback
+ * @returns `done`, with `fail(error)` calling it with the error (a message becomes an Error)
+ */
+export const toDoneCallback = (done: (error?: unknown) => void): DoneCallback =>
+  Object.assign(() => done(), {
+    fail: (error?: Error | string) => done(error instanceof Error ? error : new Error(error ?? 'Failed'))
+  });
+
+/**
+ * Gives a callback-style test body a {@link DoneCallback} in place of the framework's `done`
+ *
+ * Bodies without a `done` parameter are returned as they are, and the wrapper declares `done`
+ * as well, so the framework still tells callback-style tests apart by `fn.length`.
+ *
+ * @param fn - Test body the runner registers
+ * @returns The body to register with the framework
+ */
+export const withDoneCallback = (fn: (...args: any[]) => any): ((...args: any[]) => any) =>
+  fn.length === 0 ? fn : function(this: unknown, done: (error?: unknown) => void) {
+    return fn.call(this, toDoneCallback(done));
+  };
@@ -0,0 +1,61 @@
+/**
+ * Jasmine adapter
+ * @module parameterized-testing/adapters/jasmine-adapter
+ */
+
+import type { PendingRegistration, TestFrameworkAdapter } from '../runner/types';
+
+type JasmineRegister = (name: string, fn: (...args: any[]) => any, timeout?: number) => unknown;
+
+/**
+ * Jasmine functions the adapter registers with (the globals by default)
+ */
+export interface JasmineApi {
+  it: JasmineRegister;
+  fit: JasmineRegister;
+  xit: JasmineRegister;
+  describe: JasmineRegister;
+  fdescribe: JasmineRegister;
+  xdescribe: JasmineRegister;
+  pending: (reason?: string) => void;
+}
+
+/**
+ * Adapter for Jasmine (and Karma), the framework the main module binds to
+ *
+ * - `_only`/`_skip: true` use `fit`/`fdescribe` and `xit`/`xdescribe`
+ * - `_pending` tests, and tests skipped with a reason (`_skip: 'why'` or the tag filter), call
+ *   `pending(reason)` in their body, so they show up as pending with the reason instead of
+ *   "Temporarily disabled with xit"; suites have no body to mark pending, so they are excluded
+ *   with the reason in their name
+ * - `_timeout` is passed as the third argument of `it()`
+ *
+ * The functions are looked up on `api` when a case is registered, so spies installed later apply.
+ *
+ * @param api - Jasmine functions, the globals by default
+ * @returns The adapter, for {@link createParameterizedTests}
+ *
+ * @example
+ * ```ts
+ * const { iit, idescribe } = createParameterizedTests(jasmineAdapter());
+ * ```
+ */
+export const jasmineAdapter = (api: JasmineApi = globalThis as unknown as JasmineApi): TestFrameworkAdapter => {
+  const pending: PendingRegistration = (name, reason, timeout, register) => register(name, () => api.pending(reason), timeout);
+
+  return {
+    name: 'Jasmine',
+    test: {
+      run: (name, fn, timeout) => api.it(name, fn, timeout),
+      focus: (name, fn, timeout) => api.fit(name, fn, timeout),
+      skip: (name, fn, timeout) => api.xit(name, fn, timeout),
+      pending,
+      skipWithReason: pending
+    },
+    suite: {
+      run: (name, fn, timeout) => api.describe(name, fn, timeout),
+      focus: (name, fn, timeout) => api.fdescribe(name, fn, timeout),
+      skip: (name, fn, timeout) => api.xdescribe(name, fn, timeout)
+    }
+  };
+};
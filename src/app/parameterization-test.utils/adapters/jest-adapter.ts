@@ -0,0 +1,69 @@
+/**
+ * Jest adapter
+ * @module parameterized-testing/adapters/jest-adapter
+ */
+
+import type { TestFrameworkAdapter } from '../runner/types';
+import { pendingName } from './pending-name';
+import { withDoneCallback } from './done-callback';
+
+type JestRegister = (name: string, fn: (...args: any[]) => any, timeout?: number) => unknown;
+
+/**
+ * Jest `test`/`it` function with its modifiers
+ */
+export interface JestTestApi extends JestRegister {
+  only: JestRegister;
+  skip: JestRegister;
+  todo: (name: string) => unknown;
+}
+
+/**
+ * Jest `describe` function with its modifiers
+ */
+export interface JestDescribeApi {
+  (name: string, fn: () => void): unknown;
+  only: (name: string, fn: () => void) => unknown;
+  skip: (name: string, fn: () => void) => unknown;
+}
+
+/**
+ * Jest functions the adapter registers with (the globals by default)
+ */
+export interface JestApi {
+  it: JestTestApi;
+  describe: JestDescribeApi;
+}
+
+/**
+ * Adapter for Jest
+ *
+ * - `_only`/`_skip` use `it.only`/`describe.only` and `it.skip`/`describe.skip`
+ * - `_pending` tests become `it.todo()`, which takes no reason, so the reason is appended to the
+ *   name; Jest has no todo suites, so pending suites are skipped with the reason in their name
+ * - `_timeout` is passed as the third argument of `it()`; Jest suites take no timeout, so it is
+ *   ignored for `idescribe`
+ * - Callback-style tests get Jest's `done`, with `done.fail()` added
+ *
+ * @param api - Jest functions, the globals by default (pass them when importing from `@jest/globals`)
+ * @returns The adapter, for {@link createParameterizedTests}
+ *
+ * @example
+ * ```ts
+ * const { iit, idescribe } = createParameterizedTests(jestAdapter());
+ * ```
+ */
+export const jestAdapter = (api: JestApi = globalThis as unknown as JestApi): TestFrameworkAdapter => ({
+  name: 'Jest',
+  test: {
+    run: (name, fn, timeout) => api.it(name, withDoneCallback(fn), timeout),
+    focus: (name, fn, timeout) => api.it.only(name, withDoneCallback(fn), timeout),
+    skip: (name, fn, timeout) => api.it.skip(name, withDoneCallback(fn), timeout),
+    pending: (name, reason) => api.it.todo(pendingName(name, reason))
+  },
+  suite: {
+    run: (name, fn) => api.describe(name, fn),
+    focus: (name, fn) => api.describe.only(name, fn),
+    skip: (name, fn) => api.describe.skip(name, fn)
+  }
+});
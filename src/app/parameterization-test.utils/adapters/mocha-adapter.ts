@@ -0,0 +1,88 @@
+/**
+ * Mocha adapter
+ * @module parameterized-testing/adapters/mocha-adapter
+ */
+
+import type { TestFrameworkAdapter } from '../runner/types';
+import { pendingName } from './pending-name';
+import { withDoneCallback } from './done-callback';
+
+/**
+ * Test or suite object Mocha returns from `it()`/`describe()`
+ */
+export interface MochaRunnable {
+  timeout(ms: number): unknown;
+}
+
+type MochaRegister = (name: string, fn: (...args: any[]) => any) => MochaRunnable;
+
+/**
+ * Mocha `it` function with its modifiers (called without a body, it registers a pending test)
+ */
+export interface MochaTestApi {
+  (name: string, fn?: (...args: any[]) => any): MochaRunnable;
+  only: MochaRegister;
+  skip: MochaRegister;
+}
+
+/**
+ * Mocha `describe` function with its modifiers
+ */
+export interface MochaDescribeApi extends MochaRegister {
+  only: MochaRegister;
+  skip: MochaRegister;
+}
+
+/**
+ * Mocha functions the adapter registers with (the BDD globals by default)
+ */
+export interface MochaApi {
+  it: MochaTestApi;
+  describe: MochaDescribeApi;
+}
+
+/**
+ * Sets a `_timeout` on the test or suite Mocha returned
+ */
+function withTimeout(runnable: MochaRunnable, timeout: number | undefined): MochaRunnable {
+  if (timeout !== undefined) {
+    runnable.timeout(timeout);
+  }
+  return runnable;
+}
+
+/**
+ * Adapter for Mocha (BDD interface)
+ *
+ * - `_only`/`_skip` use `it.only`/`describe.only` and `it.skip`/`describe.skip`
+ * - `_pending` tests are registered without a body, which Mocha reports as pending; that takes
+ *   no reason, so the reason is appended to the name. Pending suites are skipped with the
+ *   reason in their name.
+ * - `_timeout` is set with `.timeout(ms)` on the returned test or suite (for a suite it applies
+ *   to each of its tests)
+ *
+ * The test callback runs with Mocha's context as `this`, so `this.timeout()` and `this.skip()`
+ * work in `function` callbacks. Callback-style tests get Mocha's `done`, with `done.fail()` added.
+ *
+ * @param api - Mocha functions, the globals by default
+ * @returns The adapter, for {@link createParameterizedTests}
+ *
+ * @example
+ * ```ts
+ * const { iit, idescribe } = createParameterizedTests(mochaAdapter());
+ * ```
+ */
+export const mochaAdapter = (api: MochaApi = globalThis as unknown as MochaApi): TestFrameworkAdapter => ({
+  name: 'Mocha',
+  test: {
+    run: (name, fn, timeout) => withTimeout(api.it(name, withDoneCallback(fn)), timeout),
+    focus: (name, fn, timeout) => withTimeout(api.it.only(name, withDoneCallback(fn)), timeout),
+    skip: (name, fn, timeout) => withTimeout(api.it.skip(name, withDoneCallback(fn)), timeout),
+    pending: (name, reason) => api.it(pendingName(name, reason))
+  },
+  suite: {
+    run: (name, fn, timeout) => withTimeout(api.describe(name, fn), timeout),
+    focus: (name, fn, timeout) => withTimeout(api.describe.only(name, fn), timeout),
+    skip: (name, fn, timeout) => withTimeout(api.describe.skip(name, fn), timeout)
+  }
+});
@@ -0,0 +1,73 @@
+/**
+ * node:test adapter
+ * @module parameterized-testing/adapters/node-test-adapter
+ */
+
+import type { TestFrameworkAdapter } from '../runner/types';
+import { toDoneCallback } from './done-callback';
+
+/**
+ * Options of `test()` and `describe()` in `node:test`
+ */
+export interface NodeTestOptions {
+  timeout?: number;
+  only?: boolean;
+  skip?: boolean | string;
+  todo?: boolean | string;
+}
+
+type NodeTestRegister = (name: string, options: NodeTestOptions, fn?: (...args: any[]) => any) => unknown;
+
+/**
+ * `node:test` functions the adapter registers with
+ */
+export interface NodeTestApi {
+  test: NodeTestRegister;
+  describe: NodeTestRegister;
+}
+
+/**
+ * Gives a callback-style test body Node's `done`, which `node:test` passes after the test context
+ */
+function withNodeDone(fn: (...args: any[]) => any): (...args: any[]) => any {
+  return fn.length === 0 ? fn : function(this: unknown, _context: unknown, done: (error?: unknown) => void) {
+    return fn.call(this, toDoneCallback(done));
+  };
+}
+
+/**
+ * Adapter for Node's built-in test runner (`node:test`)
+ *
+ * - `_only` sets `only: true` (Node runs only those with `--test-only`), `_skip` sets `skip` to
+ *   the reason (or `true`), as do tag-filtered cases and the excluded runners' `_pending` cases
+ * - `_pending` tests and suites set `todo` to the reason (or `true`) and are registered without a
+ *   body, so Node reports them as todo with the reason
+ * - `_timeout` is passed as the `timeout` option of `test()` and `describe()`
+ * - Callback-style tests get Node's `done`, with `done.fail()` added
+ *
+ * @param api - `test` (or `it`) and `describe` imported from `node:test`
+ * @returns The adapter, for {@link createParameterizedTests}
+ *
+ * @example
+ * ```ts
+ * import { test, describe } from 'node:test';
+ * const { iit, idescribe } = createParameterizedTests(nodeTestAdapter({ test, describe }));
+ * ```
+ */
+export const nodeTestAdapter = (api: NodeTestApi): TestFrameworkAdapter => ({
+  name: 'node:test',
+  test: {
+    run: (name, fn, timeout) => api.test(name, { timeout }, withNodeDone(fn)),
+    focus: (name, fn, timeout) => api.test(name, { timeout, only: true }, withNodeDone(fn)),
+    skip: (name, fn, timeout) => api.test(name, { timeout, skip: true }, withNodeDone(fn)),
+    pending: (name, reason, timeout) => api.test(name, { timeout, todo: reason ?? true }),
+    skipWithReason: (name, reason, timeout) => api.test(name, { timeout, skip: reason ?? true })
+  },
+  suite: {
+    run: (name, fn, timeout) => api.describe(name, { timeout }, fn),
+    focus: (name, fn, timeout) => api.describe(name, { timeout, only: true }, fn),
+    skip: (name, fn, timeout) => api.describe(name, { timeout, skip: true }, fn),
+    pending: (name, reason, timeout) => api.describe(name, { timeout, todo: reason ?? true }),
+    skipWithReason: (name, reason, timeout) => api.describe(name, { timeout, skip: reason ?? true })
+  }
+});
@@ -0,0 +1,21 @@
+/**
+ * Pending case names for frameworks without pending reasons
+ * @module parameterized-testing/adapters/pending-name
+ */
+
+/**
+ * Appends the `_pending` reason to a case name, for frameworks whose todo/pending
+ * tests take no reason (`test.todo()` in Jest and Vitest, `it()` without a body in Mocha)
+ *
+ * @param name - Formatted case name
+ * @param reason - The `_pending` reason, or undefined for `_pending: true`
+ * @returns The name, followed by ` (pending: reason)` when a reason is given
+ *
+ * @example
+ * ```ts
+ * pendingName('parses 0x1', 'JIRA-123') // 'parses 0x1 (pending: JIRA-123)'
+ * pendingName('parses 0x1', undefined)  // 'parses 0x1'
+ * ```
+ */
+export const pendingName = (name: string, reason: string | undefined): string =>
+  reason === undefined ? name : `${name} (pending: ${reason})`;
@@ -0,0 +1,77 @@
+/**
+ * Vitest adapter
+ * @module parameterized-testing/adapters/vitest-adapter
+ */
+
+import type { TestFrameworkAdapter } from '../runner/types';
+import { pendingName } from './pending-name';
+
+type VitestRegister = (name: string, fn: (...args: any[]) => any, timeout?: number) => unknown;
+
+/**
+ * Vitest `test`/`it` or `describe` function with its modifiers
+ */
+export interface VitestRegisterApi extends VitestRegister {
+  only: VitestRegister;
+  skip: VitestRegister;
+  todo: (name: string) => unknown;
+}
+
+/**
+ * Vitest functions the adapter registers with
+ */
+export interface VitestApi {
+  test: VitestRegisterApi;
+  describe: VitestRegisterApi;
+}
+
+/**
+ * Rejects callback-style tests, which Vitest does not support
+ *
+ * @throws If the body declares a `done` parameter
+ */
+function rejectDoneCallback(name: string, fn: (...args: any[]) => any): (...args: any[]) => any {
+  if (fn.length > 0) {
+    throw new Error(
+      `Test "${name}" takes a done callback, which Vitest does not support - return a promise (async/await) instead`
+    );
+  }
+  return fn;
+}
+
+/**
+ * Adapter for Vitest
+ *
+ * - `_only`/`_skip` use `test.only`/`describe.only` and `test.skip`/`describe.skip`
+ * - `_pending` tests and suites become `test.todo()`/`describe.todo()`, which take no reason,
+ *   so the reason is appended to the name
+ * - `_timeout` is passed as the third argument of `test()` and `describe()` (for a suite it
+ *   applies to each of its tests)
+ *
+ * Vitest has no `done` callback, so callback-style tests are rejected when registered. Vitest only
+ * installs globals with `globals: true`, so the functions are always passed in.
+ *
+ * @param api - `test` (or `it`) and `describe` imported from `vitest`
+ * @returns The adapter, for {@link createParameterizedTests}
+ *
+ * @example
+ * ```ts
+ * import { test, describe } from 'vitest';
+ * const { iit, idescribe } = createParameterizedTests(vitestAdapter({ test, describe }));
+ * ```
+ */
+export const vitestAdapter = (api: VitestApi): TestFrameworkAdapter => ({
+  name: 'Vitest',
+  test: {
+    run: (name, fn, timeout) => api.test(name, rejectDoneCallback(name, fn), timeout),
+    focus: (name, fn, timeout) => api.test.only(name, rejectDoneCallback(name, fn), timeout),
+    skip: (name, fn, timeout) => api.test.skip(name, rejectDoneCallback(name, fn), timeout),
+    pending: (name, reason) => api.test.todo(pendingName(name, reason))
+  },
+  suite: {
+    run: (name, fn, timeout) => api.describe(name, fn, timeout),
+    focus: (name, fn, timeout) => api.describe.only(name, fn, timeout),
+    skip: (name, fn, timeout) => api.describe.skip(name, fn, timeout),
+    pending: (name, reason) => api.describe.todo(pendingName(name, reason))
+  }
+});
@@ -0,0 +1,128 @@
+/**
+ * Angular component test runner factory
+ * @module parameterized-testing/angular/create-component-runner
+ */
+
+import { reflectComponentType, type ComponentMirror, type Type } from '@angular/core';
+import { TestBed } from '@angular/core/testing';
+import type { CheckTemplate, NameFunction, ParameterizedRunner, RunnerVariants, TestCase, TestFunction } from '../runner/types';
+import type { ComponentCaseColumns, ComponentTestFunction, ComponentTestSetup } from './types';
+import { createParameterizedRunner } from '../runner/create-parameterized-runner';
+import { describeNameTemplate } from '../formatters/format-test-name';
+import { findSimilarKey } from '../formatters/validate-object-consistency';
+import { readCaseProviders } from './read-case-providers';
+
+/**
+ * Reads the `inputs` and `providers` columns of a case
+ *
+ * @throws If `inputs` is not an object of known inputs, or `providers` is not an array
+ */
+function readComponentColumns(
+  testCase: TestCase,
+  mirror: ComponentMirror<unknown>,
+  nameTemplate: string
+): Required<ComponentCaseColumns> {
+  const { inputs = {} } = testCase as ComponentCaseColumns;
+
+  if (inputs === null || typeof inputs !== 'object' || Array.isArray(inputs)) {
+    throw new Error(
+      `Component case for template "${nameTemplate}" has invalid 'inputs' - expected an object of input name → value, received: ${Array.isArray(inputs) ? 'array' : inputs === null ? 'null' : typeof inputs}`
+    );
+  }
+
+  const providers = readCaseProviders(testCase, 'Component', nameTemplate);
+
+  const inputNames = mirror.inputs.map(input => input.templateName);
+  for (const name of Object.keys(inputs)) {
+    if (!inputNames.includes(name)) {
+      const similar = findSimilarKey(name, inputNames);
+      throw new Error(
+        `Component ${mirror.type.name} has no input '${name}' (inputs of a case for template "${nameTemplate}")\n` +
+        (similar ? `💡 Did you mean '${similar}'?\n` : '') +
+        `Available inputs: ${inputNames.length > 0 ? inputNames.join(', ') : '(none)'}`
+      );
+    }
+  }
+
+  return { inputs, providers };
+}
+
+/**
+ * Angular component test runner factory
+ *
+ * Builds on {@link createParameterizedRunner}: each case registers one test that configures
+ * TestBed with the setup (the component itself is imported when standalone, declared otherwise)
+ * plus the case's `providers`, creates a fixture, sets the case's `inputs` with `setInput()`
+ * (so `@Input` setters, aliases and `ngOnChanges` behave as in a template), runs change
+ * detection, and passes `{ fixture, component, tc }` to the test function.
+ *
+ * `inputs` and `providers` are ordinary columns, so they can be referenced in the name
+ * (`$inputs.label`) and take part in validation like any other column - a column only some
+ * rows have is declared with the `optional` option of `.where()`. Reserved keys
+ * (`_skip`, `_only`, `_timeout`, ...) work as with `iit`.
+ *
+ * @param jasmineFn - Jasmine function (it, fit, xit) or an adapter's register function
+ * @param variants - Focused/excluded variants used for `_only`, `_skip` and `_pending` cases
+ * @returns Function that creates a component test runner
+ *
+ * @example
+ * ```ts
+ * const icomponent = createComponentRunner(it);
+ * icomponent(BadgeComponent, 'shows $inputs.count as $expected', ({ fixture, tc }) => {
+ *   expect(fixture.nativeElement.textContent.trim()).toBe(tc.expected);
+ * }).where([
+ *   { inputs: { count: 3 }, expected: '3' },
+ *   { inputs: { count: 120 }, expected: '99+' },
+ *   { inputs: { count: 5 }, providers: [{ provide: LOCALE_ID, useValue: 'ar' }], expected: '٥' }
+ * ], { optional: ['providers'] });
+ * ```
+ */
+export const createComponentRunner = (
+  jasmineFn: (name: string, fn: any, timeout?: number) => any,
+  variants?: RunnerVariants
+) => <C, TCase extends object = TestCase, const N extends string = string>(
+  component: Type<C>,
+  nameTemplate: (N & CheckTemplate<N, TCase>) | NameFunction<TCase>,
+  testFn: ComponentTestFunction<C, TCase>,
+  setup: ComponentTestSetup = {}
+): ParameterizedRunner<TCase> => {
+  const mirror = typeof component === 'function' ? reflectComponentType(component) : null;
+  if (!mirror) {
+    throw new Error(
+      `Component runner expects an Angular component class, received: ${typeof component === 'function' ? `class ${component.name || 'anonymous'} without @Component` : typeof component}`
+    );
+  }
+
+  if (!testFn || typeof testFn !== 'function') {
+    throw new Error(
+      `Test function must be a valid function, received: ${typeof testFn}`
+    );
+  }
+
+  const { imports = [], declarations = [], providers = [], schemas, detectChanges = true } = setup;
+
+  return createParameterizedRunner<TestFunction>(jasmineFn, variants)<TCase, N>(
+    nameTemplate,
+    async function(this: unknown, testCase: TCase) {
+      const columns = readComponentColumns(testCase, mirror, describeNameTemplate(nameTemplate));
+
+      TestBed.configureTestingModule({
+        imports: mirror.isStandalone ? [...imports, component] : imports,
+        declarations: mirror.isStandalone ? declarations : [...declarations, component],
+        providers: [...providers, ...columns.providers],
+        schemas
+      });
+      await TestBed.compileComponents();
+
+      const fixture = TestBed.createComponent(component);
+      for (const [name, value] of Object.entries(columns.inputs)) {
+        fixture.componentRef.setInput(name, value);
+      }
+      if (detectChanges) {
+        fixture.detectChanges();
+      }
+
+      return testFn.call(this, { fixture, component: fixture.componentInstance, tc: testCase });
+    }
+  );
+};
@@ -0,0 +1,106 @@
+/**
+ * Angular directive test runner factory
+ * @module parameterized-testing/angular/create-directive-runner
+ */
+
+import { Component, isStandalone, type Type } from '@angular/core';
+import { TestBed } from '@angular/core/testing';
+import { By } from '@angular/platform-browser';
+import type { CheckTemplate, NameFunction, ParameterizedRunner, RunnerVariants, TestCase, TestFunction } from '../runner/types';
+import type { ComponentTestSetup, DirectiveTestFunction } from './types';
+import { createParameterizedRunner } from '../runner/create-parameterized-runner';
+import { describeNameTemplate } from '../formatters/format-test-name';
+import { readCaseProviders } from './read-case-providers';
+
+/**
+ * Angular directive test runner factory
+ *
+ * Builds on {@link createParameterizedRunner}: each case registers one test that renders the
+ * host template in a host component whose `tc` property holds the case - so the template binds
+ * case values as `[appHighlight]="tc.color"` - configured like {@link createComponentRunner}
+ * (setup, plus the case's `providers`). After change detection the test function receives
+ * `{ fixture, element, directive, tc }` for the first element the directive applies to.
+ *
+ * @param jasmineFn - Jasmine function (it, fit, xit) or an adapter's register function
+ * @param variants - Focused/excluded variants used for `_only`, `_skip` and `_pending` cases
+ * @returns Function that creates a directive test runner
+ *
+ * @example
+ * ```ts
+ * const idirective = createDirectiveRunner(it);
+ * idirective(HighlightDirective, '<p [appHighlight]="tc.color">text</p>', 'highlights "$color" as $expected', ({ element, tc }) => {
+ *   expect(element.nativeElement.style.backgroundColor).toBe(tc.expected);
+ * }).where([
+ *   { color: 'yellow', expected: 'yellow' },
+ *   { color: '', expected: 'transparent' }
+ * ]);
+ * ```
+ */
+export const createDirectiveRunner = (
+  jasmineFn: (name: string, fn: any, timeout?: number) => any,
+  variants?: RunnerVariants
+) => <D, TCase extends object = TestCase, const N extends string = string>(
+  directive: Type<D>,
+  hostTemplate: string,
+  nameTemplate: (N & CheckTemplate<N, TCase>) | NameFunction<TCase>,
+  testFn: DirectiveTestFunction<D, TCase>,
+  setup: ComponentTestSetup = {}
+): ParameterizedRunner<TCase> => {
+  if (typeof directive !== 'function') {
+    throw new Error(
+      `Directive runner expects a directive class, received: ${directive === null ? 'null' : typeof directive}`
+    );
+  }
+
+  if (typeof hostTemplate !== 'string' || hostTemplate.trim() === '') {
+    throw new Error(
+      `Directive runner expects a host template using ${directive.name || 'the directive'}, received: ${typeof hostTemplate === 'string' ? '(empty string)' : typeof hostTemplate}`
+    );
+  }
+
+  if (!testFn || typeof testFn !== 'function') {
+    throw new Error(
+      `Test function must be a valid function, received: ${typeof testFn}`
+    );
+  }
+
+  const { imports = [], declarations = [], providers = [], schemas, detectChanges = true } = setup;
+  const standalone = isStandalone(directive);
+
+  // Declared, so it can use non-standalone directives as well as imported standalone ones
+  class DirectiveHostComponent {
+    tc!: TCase;
+  }
+  Component({ selector: 'pt-directive-host', template: hostTemplate })(DirectiveHostComponent);
+
+  return createParameterizedRunner<TestFunction>(jasmineFn, variants)<TCase, N>(
+    nameTemplate,
+    async function(this: unknown, testCase: TCase) {
+      const label = describeNameTemplate(nameTemplate);
+
+      TestBed.configureTestingModule({
+        imports: standalone ? [...imports, directive] : imports,
+        declarations: [DirectiveHostComponent, ...declarations, ...(standalone ? [] : [directive])],
+        providers: [...providers, ...readCaseProviders(testCase, 'Directive', label)],
+        schemas
+      });
+      await TestBed.compileComponents();
+
+      const fixture = TestBed.createComponent(DirectiveHostComponent);
+      fixture.componentInstance.tc = testCase;
+      if (detectChanges) {
+        fixture.detectChanges();
+      }
+
+      const element = fixture.debugElement.query(By.directive(directive));
+      if (!element) {
+        throw new Error(
+          `Host template of directive test "${label}" has no element ${directive.name} applies to\n` +
+          `💡 Check that the template matches the directive's selector: ${hostTemplate}`
+        );
+      }
+
+      return testFn.call(this, { fixture, element, directive: element.injector.get(directive), tc: testCase });
+    }
+  );
+};
@@ -0,0 +1,216 @@
+/**
+ * Angular HTTP test runner factory
+ * @module parameterized-testing/angular/create-http-runner
+ */
+
+import type { Type } from '@angular/core';
+import { TestBed } from '@angular/core/testing';
+import { HttpClientTestingModule, HttpTestingController } from '@angular/common/http/testing';
+import { firstValueFrom, from, isObservable } from 'rxjs';
+import type { NameFunction, ParameterizedRunner, TestCase, TestFunction, RunnerVariants } from '../runner/types';
+import type { HttpCall, HttpCase, HttpTestSetup } from './types';
+import { createParameterizedRunner } from '../runner/create-parameterized-runner';
+import { describeNameTemplate } from '../formatters/format-test-name';
+import { formatValue } from '../formatters/format-value';
+import { readCaseProviders } from './read-case-providers';
+
+/** Columns of an HTTP case rows may leave out, so success and error rows share a table */
+const OPTIONAL_HTTP_COLUMNS = [
+  'method', 'body', 'status', 'statusText', 'response', 'headers', 'networkError', 'expected', 'expectedError', 'providers'
+];
+
+/** Reason phrases for the statuses API tests use most, the default `statusText` of a response */
+const REASON_PHRASES: Readonly<Record<number, string>> = {
+  200: 'OK',
+  201: 'Created',
+  202: 'Accepted',
+  204: 'No Content',
+  400: 'Bad Request',
+  401: 'Unauthorized',
+  403: 'Forbidden',
+  404: 'Not Found',
+  409: 'Conflict',
+  422: 'Unprocessable Entity',
+  429: 'Too Many Requests',
+  500: 'Internal Server Error',
+  502: 'Bad Gateway',
+  503: 'Service Unavailable',
+  504: 'Gateway Timeout'
+};
+
+/**
+ * Default name of an HTTP case, e.g. `GET /api/users/7 → 404` or `GET /api/users → timeout`
+ */
+const httpCaseName = (testCase: TestCase): string => {
+  const request = testCase['method'] === undefined ? testCase['url'] : `${testCase['method']} ${testCase['url']}`;
+  return `${request} → ${testCase['networkError'] ?? testCase['status'] ?? 200}`;
+};
+
+/**
+ * Message of an error, including `HttpErrorResponse`s (which are not `Error`s)
+ */
+const describeError = (error: unknown): string => {
+  const message = (error as { message?: unknown } | null)?.message;
+  return typeof message === 'string' ? message : formatValue(error);
+};
+
+/**
+ * Reads the columns of an HTTP case
+ *
+ * @throws If `url` is missing, the case doesn't have exactly one of `expected` and
+ *   `expectedError`, or `expectedError` is not an object
+ */
+function readHttpColumns(testCase: TestCase, nameTemplate: string): HttpCase {
+  const { url, expected, expectedError } = testCase as Partial<HttpCase>;
+
+  if (typeof url !== 'string' || url === '') {
+    throw new Error(
+      `HTTP case for template "${nameTemplate}" has invalid 'url' - expected the URL of the expected request, received: ${url === '' ? '(empty string)' : typeof url}`
+    );
+  }
+
+  // Table rows have every column, so undefined counts as not set
+  if ((expected === undefined) === (expectedError === undefined)) {
+    throw new Error(
+      `HTTP case for template "${nameTemplate}" must have either 'expected' (the emitted value) or 'expectedError' (properties of the error), ` +
+      `found ${expected === undefined ? 'neither' : 'both'}`
+    );
+  }
+
+  if (expectedError !== undefined && (expectedError === null || typeof expectedError !== 'object' || Array.isArray(expectedError))) {
+    throw new Error(
+      `HTTP case for template "${nameTemplate}" has invalid 'expectedError' - expected an object of error properties such as { status: 404 }, ` +
+      `received: ${Array.isArray(expectedError) ? 'array' : expectedError === null ? 'null' : typeof expectedError}`
+    );
+  }
+
+  return testCase as HttpCase;
+}
+
+/**
+ * Angular HTTP test runner factory
+ *
+ * Builds on {@link createParameterizedRunner}: each case registers one test that sets up TestBed
+ * with `HttpClientTestingModule` (plus the setup's and the case's `providers`), calls the service
+ * method, expects one request matching `method`/`url` (and `body`, when given), then flushes
+ * `response` with `status`, `statusText` and `headers` - or fails the request with the
+ * `networkError` event. The emitted value is expected to equal `expected`; with `expectedError`
+ * the call must fail, and the listed properties of the error must equal it. Finally
+ * `HttpTestingController.verify()` checks that no other request is outstanding - also after a
+ * failure, though then the failure is reported rather than the request it left open.
+ *
+ * All columns but `url` are optional, so success and error rows share a table without the
+ * `optional` option of `.where()`.
+ *
+ * @param jasmineFn - Jasmine function (it, fit, xit) or an adapter's register function
+ * @param variants - Focused/excluded variants used for `_only`, `_skip` and `_pending` cases
+ * @returns Function that creates an HTTP test runner
+ *
+ * @example
+ * ```ts
+ * const ihttp = createHttpRunner(it);
+ * ihttp(UserService, (service, tc) => service.getUser(tc.id)).where([
+ *   { id: 7, method: 'GET', url: '/api/users/7', response: { name: 'Ann' }, expected: { name: 'Ann' } },
+ *   { id: 8, method: 'GET', url: '/api/users/8', status: 404, expectedError: { status: 404 } }
+ * ]);
+ * ```
+ */
+export const createHttpRunner = (
+  jasmineFn: (name: string, fn: any, timeout?: number) => any,
+  variants?: RunnerVariants
+) => <S, TCase extends object = TestCase>(
+  service: Type<S>,
+  call: HttpCall<S, TCase>,
+  setup: HttpTestSetup<TCase> = {}
+): ParameterizedRunner<TCase> => {
+  if (typeof service !== 'function') {
+    throw new Error(
+      `HTTP runner expects a service class, received: ${service === null ? 'null' : typeof service}`
+    );
+  }
+
+  if (typeof call !== 'function') {
+    throw new Error(
+      `HTTP runner expects a function calling the service method, received: ${typeof call}`
+    );
+  }
+
+  const { name = httpCaseName as NameFunction<TCase>, providers = [] } = setup;
+  const nameTemplate = describeNameTemplate(name);
+
+  return createParameterizedRunner<TestFunction>(jasmineFn, variants, OPTIONAL_HTTP_COLUMNS)<TCase>(
+    name,
+    async function(testCase: TCase) {
+      const columns = readHttpColumns(testCase, nameTemplate);
+
+      TestBed.configureTestingModule({
+        imports: [HttpClientTestingModule],
+        providers: [service, ...providers, ...readCaseProviders(testCase, 'HTTP', nameTemplate)]
+      });
+
+      const controller = TestBed.inject(HttpTestingController);
+      let failure: unknown;
+      try {
+        const result = call(TestBed.inject(service), testCase);
+        if (!isObservable(result) && typeof (result as PromiseLike<unknown> | null | undefined)?.then !== 'function') {
+          throw new Error(
+            `HTTP call for template "${nameTemplate}" must return an observable or a promise, received: ${result === null ? 'null' : typeof result}`
+          );
+        }
+        const outcome = firstValueFrom(from(result)).then(value => ({ value }), (error: unknown) => ({ error }));
+
+        const request = controller.expectOne(columns.method === undefined ? columns.url : { method: columns.method, url: columns.url });
+
+        if (columns.body !== undefined) {
+          expect(request.request.body).toEqual(columns.body);
+        }
+
+        if (columns.networkError !== undefined) {
+          request.error(new ProgressEvent(columns.networkError));
+        } else {
+          const status = columns.status ?? 200;
+          request.flush(columns.response ?? null, {
+            status,
+            statusText: columns.statusText ?? REASON_PHRASES[status] ?? '',
+            headers: columns.headers
+          });
+        }
+
+        const settled = await outcome;
+
+        if (columns.expectedError !== undefined) {
+          if (!('error' in settled)) {
+            throw new Error(
+              `HTTP call for template "${nameTemplate}" emitted ${formatValue(settled.value, { quoteStrings: true })}, ` +
+              `expected it to fail with ${formatValue(columns.expectedError)}`
+            );
+          }
+          const error = settled.error as Record<string, unknown> | null | undefined;
+          const actual = Object.fromEntries(Object.keys(columns.expectedError).map(key => [key, error?.[key]]));
+          expect(actual).toEqual(columns.expectedError);
+        } else {
+          if ('error' in settled) {
+            throw new Error(
+              `HTTP call for template "${nameTemplate}" failed, expected it to emit ${formatValue(columns.expected, { quoteStrings: true })}: ` +
+              describeError(settled.error),
+              { cause: settled.error }
+            );
+          }
+          expect(settled.value).toEqual(columns.expected);
+        }
+      } catch (error) {
+        failure = error;
+        throw error;
+      } finally {
+        try {
+          controller.verify();
+        } catch (error) {
+          // A failed case usually leaves its request open - keep the failure, not that symptom
+          if (failure === undefined) {
+            throw error;
+          }
+        }
+      }
+    }
+  );
+};
@@ -0,0 +1,89 @@
+/**
+ * Angular pipe test runner factory
+ * @module parameterized-testing/angular/create-pipe-runner
+ */
+
+import type { PipeTransform, Type } from '@angular/core';
+import { TestBed } from '@angular/core/testing';
+import type { NameFunction, ParameterizedRunner, RunnerVariants, TestCase, TestFunction, ValueFormatOptions } from '../runner/types';
+import type { PipeCase, PipeTestSetup } from './types';
+import { createParameterizedRunner } from '../runner/create-parameterized-runner';
+import { describeNameTemplate } from '../formatters/format-test-name';
+import { formatValue } from '../formatters/format-value';
+import { readCaseProviders } from './read-case-providers';
+
+/**
+ * Default name of a pipe case, e.g. `transform(12.5, "EUR") → €12.50`
+ *
+ * Values are rendered like placeholders, with the formatting options of the `.where()` call.
+ */
+const pipeCaseName = (testCase: TestCase, _index: number, options: ValueFormatOptions): string => {
+  const args = Array.isArray(testCase['args']) ? testCase['args'] : [];
+  const call = [testCase['input'], ...args].map(value => formatValue(value, { ...options, quoteStrings: true }));
+
+  return `transform(${call.join(', ')}) → ${formatValue(testCase['expected'], options)}`;
+};
+
+/**
+ * Angular pipe test runner factory
+ *
+ * Builds on {@link createParameterizedRunner}: each case registers one test that provides the
+ * pipe (plus the setup's and the case's `providers`) in TestBed, injects it and expects
+ * `transform(input, ...args)` to equal `expected` with the framework's global
+ * `expect(...).toEqual()`.
+ *
+ * @param jasmineFn - Jasmine function (it, fit, xit) or an adapter's register function
+ * @param variants - Focused/excluded variants used for `_only`, `_skip` and `_pending` cases
+ * @returns Function that creates a pipe test runner
+ *
+ * @example
+ * ```ts
+ * const ipipe = createPipeRunner(it);
+ * ipipe(CurrencyFormatPipe).where([
+ *   ['input', 'args',    'expected'],
+ *   [12.5,    ['EUR'],   '€12.50'],
+ *   [12.5,    ['USD'],   '$12.50']
+ * ]);
+ * ```
+ */
+export const createPipeRunner = (
+  jasmineFn: (name: string, fn: any, timeout?: number) => any,
+  variants?: RunnerVariants
+) => <P extends PipeTransform, TCase extends object = PipeCase>(
+  pipe: Type<P>,
+  setup: PipeTestSetup<TCase> = {}
+): ParameterizedRunner<TCase> => {
+  if (typeof pipe !== 'function' || typeof pipe.prototype?.transform !== 'function') {
+    throw new Error(
+      `Pipe runner expects a pipe class, received: ${typeof pipe === 'function' ? `class ${pipe.name || 'anonymous'} without a transform() method` : typeof pipe}`
+    );
+  }
+
+  const { name = pipeCaseName as NameFunction<TCase>, providers = [] } = setup;
+  const nameTemplate = describeNameTemplate(name);
+
+  return createParameterizedRunner<TestFunction>(jasmineFn, variants)<TCase>(
+    name,
+    function(testCase: TCase) {
+      const { input, args = [] } = testCase as Partial<PipeCase>;
+
+      if (!Array.isArray(args)) {
+        throw new Error(
+          `Pipe case for template "${nameTemplate}" has invalid 'args' - expected an array of transform() arguments, received: ${typeof args}`
+        );
+      }
+
+      if (!('expected' in testCase)) {
+        throw new Error(
+          `Pipe case for template "${nameTemplate}" has no 'expected' column - the result of transform() is compared with it`
+        );
+      }
+
+      TestBed.configureTestingModule({
+        providers: [pipe, ...providers, ...readCaseProviders(testCase, 'Pipe', nameTemplate)]
+      });
+
+      expect(TestBed.inject(pipe).transform(input, ...args)).toEqual(testCase.expected);
+    }
+  );
+};
@@ -0,0 +1,78 @@
+/**
+ * Angular validator test runner factory
+ * @module parameterized-testing/angular/create-validator-runner
+ */
+
+import { FormControl, type AsyncValidatorFn, type ValidatorFn } from '@angular/forms';
+import { firstValueFrom, isObservable } from 'rxjs';
+import type { NameFunction, ParameterizedRunner, RunnerVariants, TestCase, TestFunction, ValueFormatOptions } from '../runner/types';
+import type { ValidatorCase, ValidatorTestSetup } from './types';
+import { createParameterizedRunner } from '../runner/create-parameterized-runner';
+import { describeNameTemplate } from '../formatters/format-test-name';
+import { formatValue } from '../formatters/format-value';
+
+/**
+ * Default name of a validator case, e.g. `"" → {required: true}` or `"ab12" → valid`
+ *
+ * Values are rendered like placeholders, with the formatting options of the `.where()` call.
+ */
+const validatorCaseName = (testCase: TestCase, _index: number, options: ValueFormatOptions): string => {
+  const expected = testCase['expected'];
+
+  return `${formatValue(testCase['input'], { ...options, quoteStrings: true })} → ${expected === null ? 'valid' : formatValue(expected, options)}`;
+};
+
+/**
+ * Angular validator test runner factory
+ *
+ * Builds on {@link createParameterizedRunner}: each case registers one test that runs the
+ * validator on a `FormControl` holding `input` and expects the resulting `ValidationErrors`
+ * (`null` when valid) to equal `expected` with the framework's global `expect(...).toEqual()`.
+ * Async validators are awaited, whether they return a promise or an observable.
+ *
+ * @param jasmineFn - Jasmine function (it, fit, xit) or an adapter's register function
+ * @param variants - Focused/excluded variants used for `_only`, `_skip` and `_pending` cases
+ * @returns Function that creates a validator test runner
+ *
+ * @example
+ * ```ts
+ * const ivalidator = createValidatorRunner(it);
+ * ivalidator(Validators.pattern(/^[a-z]+$/)).where([
+ *   ['input', 'expected'],
+ *   ['abc',   null],
+ *   ['ab1',   { pattern: { requiredPattern: '/^[a-z]+$/', actualValue: 'ab1' } }]
+ * ]);
+ * ```
+ */
+export const createValidatorRunner = (
+  jasmineFn: (name: string, fn: any, timeout?: number) => any,
+  variants?: RunnerVariants
+) => <TCase extends object = ValidatorCase>(
+  validator: ValidatorFn | AsyncValidatorFn,
+  setup: ValidatorTestSetup<TCase> = {}
+): ParameterizedRunner<TCase> => {
+  if (typeof validator !== 'function') {
+    throw new Error(
+      `Validator runner expects a validator function, received: ${validator === null ? 'null' : typeof validator}`
+    );
+  }
+
+  const { name = validatorCaseName as NameFunction<TCase> } = setup;
+  const nameTemplate = describeNameTemplate(name);
+
+  return createParameterizedRunner<TestFunction>(jasmineFn, variants)<TCase>(
+    name,
+    async function(testCase: TCase) {
+      if (!('expected' in testCase)) {
+        throw new Error(
+          `Validator case for template "${nameTemplate}" has no 'expected' column - use null for a valid input`
+        );
+      }
+
+      const result = validator(new FormControl((testCase as Partial<ValidatorCase>).input));
+      const errors = isObservable(result) ? await firstValueFrom(result) : await result;
+
+      expect(errors).toEqual(testCase.expected);
+    }
+  );
+};
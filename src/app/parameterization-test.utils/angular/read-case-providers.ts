@@ -0,0 +1,28 @@
+/**
+ * Per-case providers of the Angular runners
+ * @module parameterized-testing/angular/read-case-providers
+ */
+
+import type { Provider } from '@angular/core';
+import type { TestCase } from '../runner/types';
+
+/**
+ * Reads the `providers` column of a case
+ *
+ * @param testCase - The test case
+ * @param caseKind - Kind of case for error messages ('Component', 'Pipe', ...)
+ * @param nameTemplate - Name template of the runner for error messages
+ * @returns The case's providers, empty when the case has none
+ * @throws If `providers` is not an array
+ */
+export function readCaseProviders(testCase: TestCase, caseKind: string, nameTemplate: string): Provider[] {
+  const { providers = [] } = testCase as { providers?: unknown };
+
+  if (!Array.isArray(providers)) {
+    throw new Error(
+      `${caseKind} case for template "${nameTemplate}" has invalid 'providers' - expected an array of providers, received: ${typeof providers}`
+    );
+  }
+
+  return providers;
+}
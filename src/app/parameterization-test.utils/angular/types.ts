@@ -0,0 +1,184 @@
+/**
+ * Type definitions for the Angular runners
+ * @module parameterized-testing/angular/types
+ */
+
+import type { DebugElement, Provider, SchemaMetadata } from '@angular/core';
+import type { ComponentFixture } from '@angular/core/testing';
+import type { ValidationErrors } from '@angular/forms';
+import type { Observable } from 'rxjs';
+import type { NameFunction, TestCase } from '../runner/types';
+
+/**
+ * Columns of a component case the runner reads (the case may have any others)
+ */
+export interface ComponentCaseColumns {
+  /** Component inputs by name (or alias), set with `setInput()` before the first change detection */
+  inputs?: Readonly<Record<string, unknown>>;
+
+  /** Providers for this case only, added after those of the setup so they override them */
+  providers?: Provider[];
+}
+
+/**
+ * Testing module setup shared by every case of a component runner
+ */
+export interface ComponentTestSetup {
+  /** Modules and standalone components, pipes and directives the component needs */
+  imports?: any[];
+
+  /** Non-standalone components, pipes and directives the component needs */
+  declarations?: any[];
+
+  /** Providers for every case (a case's `providers` override them) */
+  providers?: Provider[];
+
+  /** Schemas, e.g. `NO_ERRORS_SCHEMA` for shallow rendering */
+  schemas?: SchemaMetadata[];
+
+  /** Run change detection once after setting the inputs (default: true) */
+  detectChanges?: boolean;
+}
+
+/**
+ * What the test function of a component runner receives
+ */
+export interface ComponentCaseContext<C, TCase = TestCase> {
+  /** Fixture of the component created for the case */
+  fixture: ComponentFixture<C>;
+
+  /** The component instance (`fixture.componentInstance`) */
+  component: C;
+
+  /** The test case */
+  tc: TCase;
+}
+
+/**
+ * Test function of a component runner
+ */
+export type ComponentTestFunction<C, TCase = TestCase> = (context: ComponentCaseContext<C, TCase>) => void | Promise<void>;
+
+/**
+ * Columns of a pipe case
+ */
+export interface PipeCase {
+  /** Value passed to `transform()` */
+  input: unknown;
+
+  /** Further `transform()` arguments (default: none) */
+  args?: readonly unknown[];
+
+  /** Expected result, compared with `toEqual()` */
+  expected: unknown;
+
+  /** Providers for this case only, added after those of the setup so they override them */
+  providers?: Provider[];
+}
+
+/**
+ * Options of a pipe runner
+ */
+export interface PipeTestSetup<TCase = PipeCase> {
+  /** Name template or name function (default: `transform(input, ...args) → expected`) */
+  name?: string | NameFunction<TCase>;
+
+  /** Providers the pipe injects, for every case (a case's `providers` override them) */
+  providers?: Provider[];
+}
+
+/**
+ * Columns of a validator case
+ */
+export interface ValidatorCase {
+  /** Control value the validator runs on */
+  input: unknown;
+
+  /** Expected validation errors, `null` when the value is valid */
+  expected: ValidationErrors | null;
+}
+
+/**
+ * Options of a validator runner
+ */
+export interface ValidatorTestSetup<TCase = ValidatorCase> {
+  /** Name template or name function (default: `input → expected`, `valid` for `null`) */
+  name?: string | NameFunction<TCase>;
+}
+
+/**
+ * What the test function of a directive runner receives
+ */
+export interface DirectiveCaseContext<D, TCase = TestCase> {
+  /** Fixture of the host component, whose `tc` property holds the case */
+  fixture: ComponentFixture<{ tc: TCase }>;
+
+  /** First element of the host template the directive applies to */
+  element: DebugElement;
+
+  /** The directive instance on that element */
+  directive: D;
+
+  /** The test case */
+  tc: TCase;
+}
+
+/**
+ * Test function of a directive runner
+ */
+export type DirectiveTestFunction<D, TCase = TestCase> = (context: DirectiveCaseContext<D, TCase>) => void | Promise<void>;
+
+/**
+ * Columns of an HTTP case the runner reads (the case may have any others, e.g. the service
+ * method's arguments). Only `url` is required; the others are optional columns.
+ */
+export interface HttpCase {
+  /** Expected request method (default: any) */
+  method?: string;
+
+  /** Expected request URL, including query parameters */
+  url: string;
+
+  /** Expected request body, compared with `toEqual()` */
+  body?: unknown;
+
+  /** Response status (default: 200) */
+  status?: number;
+
+  /** Response status text (default: the standard reason phrase, e.g. `Not Found`) */
+  statusText?: string;
+
+  /** Response body (default: null) */
+  response?: unknown;
+
+  /** Response headers */
+  headers?: Record<string, string | string[]>;
+
+  /** Fail the request with a `ProgressEvent` of this type (e.g. `timeout`) instead of responding */
+  networkError?: string;
+
+  /** Expected value emitted by the service method, compared with `toEqual()` (use null, not undefined, for an empty body) */
+  expected?: unknown;
+
+  /** Expected error properties, e.g. `{ status: 404 }` - only the listed properties are compared */
+  expectedError?: Readonly<Record<string, unknown>>;
+
+  /** Providers for this case only, added after those of the setup so they override them */
+  providers?: Provider[];
+}
+
+/**
+ * Calls the service method of an HTTP case
+ */
+export type HttpCall<S, TCase = TestCase> = (service: S, tc: TCase) => Observable<unknown> | Promise<unknown>;
+
+/**
+ * Options of an HTTP runner
+ */
+export interface HttpTestSetup<TCase = TestCase> {
+  /** Name template or name function (default: `method url → status`) */
+  name?: string | NameFunction<TCase>;
+
+  /** Providers for every case, e.g. an API base URL (a case's `providers` override them) */
+  providers?: Provider[];
+}
@@ -0,0 +1,65 @@
+/**
+ * Duplicate test name detection
+ * @module parameterized-testing/formatters/disambiguate-names
+ */
+
+/**
+ * Options for {@link disambiguateNames}
+ */
+export interface DisambiguateOptions {
+  /** Throw instead of suffixing duplicates */
+  reject?: boolean;
+}
+
+/**
+ * Makes the names of one `.where()` call unique
+ *
+ * The first case with a name keeps it; every later case rendering to the same name gets
+ * ` [case N]` appended, N being its zero-based case index - the same number as `$index`,
+ * so the suffix stays stable as long as the rows keep their order.
+ *
+ * @param names - Formatted names, one per case
+ * @param template - Test name template, for error messages
+ * @param options - Whether to reject duplicates
+ * @returns Unique names, one per case
+ * @throws With `options.reject`, if any name repeats, listing every repeated name and its cases
+ *
+ * @example
+ * ```ts
+ * disambiguateNames(['adds 1', 'adds 1', 'adds 2'], 'adds $a')
+ * // ['adds 1', 'adds 1 [case 1]', 'adds 2']
+ * ```
+ */
+export const disambiguateNames = (
+  names: string[],
+  template: string,
+  options: DisambiguateOptions = {}
+): string[] => {
+  const casesByName = new Map<string, number[]>();
+  names.forEach((name, index) => {
+    casesByName.set(name, [...(casesByName.get(name) ?? []), index]);
+  });
+
+  const repeated = Array.from(casesByName).filter(([, cases]) => cases.length > 1);
+  if (repeated.length === 0) {
+    return names;
+  }
+
+  if (options.reject) {
+    const details = repeated.map(([name, cases]) => `  - "${name}" (cases ${cases.join(', ')})`);
+
+    throw new Error(
+      `Duplicate test name${repeated.length === 1 ? '' : 's'} for template "${template}":\n` +
+      `${details.join('\n')}\n\n` +
+      `Reference a column that tells these cases apart in the template, ` +
+      `or set duplicateNames: 'suffix' to suffix them with [case N].`
+    );
+  }
+
+  const used = new Set<string>();
+  return names.map((name, index) => {
+    const unique = used.has(name) ? `${name} [case ${index}]` : name;
+    used.add(unique);
+    return unique;
+  });
+};
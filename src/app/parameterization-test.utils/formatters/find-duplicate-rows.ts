@@ -0,0 +1,111 @@
+/**
+ * Duplicate row detection
+ * @module parameterized-testing/formatters/find-duplicate-rows
+ */
+
+import { RESERVED_KEYS } from '../runner/types';
+
+/**
+ * Case that repeats the data of an earlier case
+ */
+export interface DuplicateRow {
+  /** Zero-based index of the repeating case */
+  index: number;
+  /** Zero-based index of the first case with the same data */
+  duplicateOf: number;
+}
+
+/**
+ * Compares two values structurally
+ *
+ * Primitives are compared with `Object.is` (so `NaN` equals `NaN`, but `0` doesn't equal `-0`),
+ * Dates by time, RegExps by source and flags, Maps and Sets by entries, and other objects by
+ * prototype and own enumerable properties. A pair already being compared further up is taken
+ * as equal, so circular references terminate.
+ */
+function isDeepEqual(a: unknown, b: unknown, comparing: Map<object, Set<object>>): boolean {
+  if (Object.is(a, b)) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+  if (Object.getPrototypeOf(a) !== Object.getPrototypeOf(b)) return false;
+
+  if (a instanceof Date) return Object.is(a.getTime(), (b as Date).getTime());
+  if (a instanceof RegExp) return String(a) === String(b);
+
+  const partners = comparing.get(a) ?? new Set<object>();
+  if (partners.has(b)) return true;
+  comparing.set(a, partners.add(b));
+
+  try {
+    if (a instanceof Map) {
+      const other = b as Map<unknown, unknown>;
+      return a.size === other.size &&
+        Array.from(a).every(([key, value]) => other.has(key) && isDeepEqual(value, other.get(key), comparing));
+    }
+    if (a instanceof Set) {
+      const other = Array.from(b as Set<unknown>);
+      return a.size === other.length &&
+        Array.from(a).every(item => other.some(candidate => isDeepEqual(item, candidate, comparing)));
+    }
+
+    const keys = Object.keys(a);
+    return keys.length === Object.keys(b).length &&
+      keys.every(key => Object.prototype.hasOwnProperty.call(b, key) &&
+        isDeepEqual((a as any)[key], (b as any)[key], comparing));
+  } finally {
+    partners.delete(b);
+  }
+}
+
+/**
+ * Cheap key of a row's data: its keys with their primitive values (objects by kind only)
+ *
+ * Deep-equal rows always share a key, so only rows sharing one need a deep comparison.
+ */
+function rowSignature(row: Record<string, any>, keys: string[]): string {
+  return keys.map(key => {
+    const value = row[key];
+    if (value instanceof Date) return `${key}=date:${value.getTime()}`;
+    if (typeof value === 'object' && value !== null) return `${key}=${Array.isArray(value) ? 'array' : 'object'}`;
+    if (typeof value === 'function') return `${key}=function`;
+    return `${key}=${typeof value}:${String(value)}`;
+  }).join('\u0000');
+}
+
+/**
+ * Finds cases whose data is deep-equal to an earlier case
+ *
+ * Reserved keys (`_skip`, `_name`, ...) are ignored, so cases that only differ in how they
+ * are run or named still count as duplicates. Handles Dates, BigInt, nested arrays and
+ * objects, Maps, Sets and circular references.
+ *
+ * @param rows - Test cases in object format (after table normalization)
+ * @returns Repeating cases in order, each with the first case it repeats
+ *
+ * @example
+ * ```ts
+ * findDuplicateRows([{ a: 1, b: [2] }, { a: 2, b: [2] }, { b: [2], a: 1 }])
+ * // [{ index: 2, duplicateOf: 0 }]
+ * ```
+ */
+export const findDuplicateRows = (rows: Record<string, any>[]): DuplicateRow[] => {
+  const firstsBySignature = new Map<string, { index: number; row: Record<string, any> }[]>();
+  const duplicates: DuplicateRow[] = [];
+
+  rows.forEach((row, index) => {
+    const keys = Object.keys(row).filter(key => !RESERVED_KEYS.has(key)).sort();
+    const data = Object.fromEntries(keys.map(key => [key, row[key]]));
+    const signature = rowSignature(row, keys);
+
+    const candidates = firstsBySignature.get(signature) ?? [];
+    const original = candidates.find(candidate => isDeepEqual(candidate.row, data, new Map()));
+
+    if (original) {
+      duplicates.push({ index, duplicateOf: original.index });
+    } else {
+      candidates.push({ index, row: data });
+      firstsBySignature.set(signature, candidates);
+    }
+  });
+
+  return duplicates;
+};
@@ -0,0 +1,41 @@
+/**
+ * Unreferenced column detection
+ * @module parameterized-testing/formatters/find-unreferenced-columns
+ */
+
+import { RESERVED_KEYS } from '../runner/types';
+import { pathSegments, templatePlaceholderPaths } from './format-object-test-name';
+
+/**
+ * Finds columns that tell cases apart but never appear in the test name
+ *
+ * A column is reported when no placeholder of the template starts with it and every case
+ * has a different value for it (compared by identity). Such a column is usually what
+ * distinguishes the cases, so leaving it out of the template makes the names ambiguous.
+ * Reserved keys are never reported, and a single case has nothing to distinguish.
+ *
+ * @param template - Test name template with placeholders
+ * @param testCases - Test cases in object format
+ * @returns Unreferenced distinguishing columns, in the order of the first case's keys
+ *
+ * @example
+ * ```ts
+ * findUnreferencedColumns('adds $a', [
+ *   { a: 1, b: 2, expected: 3 },
+ *   { a: 1, b: 3, expected: 4 }
+ * ]) // ['b', 'expected']
+ * ```
+ */
+export const findUnreferencedColumns = (template: string, testCases: Record<string, any>[]): string[] => {
+  if (testCases.length < 2) {
+    return [];
+  }
+
+  const referenced = new Set(templatePlaceholderPaths(template).map(path => pathSegments(path)[0]));
+
+  return Object.keys(testCases[0]).filter(column =>
+    !RESERVED_KEYS.has(column) &&
+    !referenced.has(column) &&
+    new Set(testCases.map(testCase => testCase[column])).size === testCases.length
+  );
+};
@@ -3,6 +3,106 @@
  * @module parameterized-testing/formatters/format-object-test-name
  */
 
+import type { NameFormatOptions } from '../runner/types';
+import { RESERVED_KEYS } from '../runner/types';
+import { findSimilarKey } from './validate-object-consistency';
+import { applySpecifiers, SPECIFIER_CHAIN_SOURCE, splitKnownSpecifiers, validateSpecifierChain } from './format-specifiers';
+
+/**
+ * Property path: a name or quoted key followed by `.name`, `[0]` and quoted `['key']`/`["key"]`
+ * segments (plus the characters earlier versions accepted, which keep unsupported paths intact)
+ */
+const PATH_SOURCE = String.raw`(?:[a-zA-Z_$]|\['[^']*'\]|\["[^"]*"\])(?:\[(?:'[^']*'|"[^"]*")\]|[\w.$[\]()*+?^|\\-])*`;
+
+/**
+ * Template tokens, matched left to right:
+ * - `$$` - Escaped `$`
+ * - `${...}` - Braced placeholder (group 1: contents)
+ * - `$index` - Case index (group 2: specifier chain)
+ * - `$path` - Placeholder (group 3: path, group 4: specifier chain)
+ */
+const TOKEN_PATTERN = new RegExp(
+  String.raw`\$\$|\$\{([^}]*)\}|\$index\b${SPECIFIER_CHAIN_SOURCE}|\$(${PATH_SOURCE})${SPECIFIER_CHAIN_SOURCE}`,
+  'g'
+);
+
+/** Contents of a braced placeholder: path and optional specifier chain */
+const BRACED_PATTERN = new RegExp(String.raw`^(${PATH_SOURCE})${SPECIFIER_CHAIN_SOURCE}$`);
+
+/** Segment of a property path */
+const SEGMENT_PATTERN = /\['([^']*)'\]|\["([^"]*)"\]|\[(\d+)\]|(\.)|[^.[]+|\[/g;
+
+/**
+ * Splits a property path into segments:
+ * 'user.items[0].name' -> ['user', 'items', '0', 'name'], "headers['content-type']" -> ['headers', 'content-type']
+ *
+ * Shared with the unreferenced column check, so both agree on a placeholder's root column.
+ */
+export const pathSegments = (path: string): string[] => {
+  const segments: string[] = [];
+  let current = '';
+
+  for (const [text, singleQuoted, doubleQuoted, index, dot] of path.matchAll(SEGMENT_PATTERN)) {
+    const key = singleQuoted ?? doubleQuoted ?? index;
+    if (key !== undefined || dot !== undefined) {
+      if (current) segments.push(current);
+      current = '';
+      if (key !== undefined) segments.push(key);
+    } else {
+      current += text;
+    }
+  }
+  if (current) segments.push(current);
+
+  return segments;
+};
+
+/**
+ * Placeholder found in a template
+ */
+interface PlaceholderToken {
+  /** Placeholder as written, e.g. `$price:fixed2` or `${count}` */
+  text: string;
+  /** Property path, or undefined for `$index` */
+  path?: string;
+  /** Specifier chain as written, e.g. `:fixed2` */
+  chain: string;
+  /** Whether the placeholder is braced, where every specifier must exist */
+  braced: boolean;
+}
+
+/**
+ * Reads the placeholder of a template token, or undefined for an escaped `$$`
+ *
+ * @throws If a braced placeholder does not contain a property path
+ */
+function readPlaceholder(
+  template: string,
+  match: string,
+  braced: string | undefined,
+  indexChain: string | undefined,
+  path: string | undefined,
+  chain: string | undefined
+): PlaceholderToken | undefined {
+  if (braced !== undefined) {
+    const contents = BRACED_PATTERN.exec(braced);
+    if (!contents) {
+      throw new Error(
+        `Invalid placeholder "${match}" in test name template "${template}": ` +
+        `expected a property path inside the braces, optionally followed by format specifiers (e.g. '\${user.name}', '\${price:fixed2}')`
+      );
+    }
+    return { text: match, path: contents[1] === 'index' ? undefined : contents[1], chain: contents[2], braced: true };
+  }
+  if (indexChain !== undefined) {
+    return { text: match, chain: indexChain, braced: false };
+  }
+  if (path !== undefined) {
+    return { text: match, path, chain: chain ?? '', braced: false };
+  }
+  return undefined;
+}
+
 /**
  * Resolves a property path in an object, supporting nested access
  *
@@ -33,11 +133,7 @@ interface PropertyResolution {
  * @returns Object with `found` (whether path exists) and `value` (the value, possibly undefined)
  */
 function resolvePropertyPath(obj: any, path: string): PropertyResolution {
-  // Parse path into segments: 'user.items[0].name' -> ['user', 'items', '0', 'name']
-  const segments = path
-    .replace(/\[(\d+)\]/g, '.$1')  // Convert items[0] to items.0
-    .split('.')
-    .filter(s => s.length > 0);
+  const segments = pathSegments(path);
 
   let current = obj;
   for (let i = 0; i < segments.length; i++) {
@@ -47,8 +143,8 @@ function resolvePropertyPath(obj: any, path: string): PropertyResolution {
 
     const segment = segments[i];
 
-    // Check if this segment exists
-    if (!(segment in current)) {
+    // Check if this segment exists (primitives through their wrapper, e.g. a string's length)
+    if (!(segment in Object(current))) {
       return { found: false, value: undefined };
     }
 
@@ -58,6 +154,55 @@ function resolvePropertyPath(obj: any, path: string): PropertyResolution {
   return { found: true, value: current };
 }
 
+/**
+ * Explains why a placeholder did not resolve, suggesting a similar path when there is one
+ */
+function describeUnresolved(testCase: Record<string, any>, path: string): string {
+  const segments = pathSegments(path);
+
+  if (segments.length > 0 && RESERVED_KEYS.has(segments[0])) {
+    return `'${segments[0]}' is a reserved key and never appears in names`;
+  }
+
+  let current: any = testCase;
+  for (let i = 0; i < segments.length; i++) {
+    const found = current != null && typeof current === 'object' && segments[i] in current;
+    if (!found) {
+      const candidates = current != null && typeof current === 'object'
+        ? Object.keys(current).filter(key => i > 0 || !RESERVED_KEYS.has(key))
+        : [];
+      const similar = findSimilarKey(segments[i], candidates);
+      const parent = segments.slice(0, i).join('.');
+
+      if (similar !== undefined) {
+        return `💡 Did you mean '$${parent ? `${parent}.` : ''}${similar}'?`;
+      }
+      return parent
+        ? `'${segments[i]}' not found in '$${parent}'`
+        : `'${segments[i]}' is not a key of the test case`;
+    }
+    current = current[segments[i]];
+  }
+
+  return 'not found';
+}
+
+/**
+ * Lists the property paths referenced by a template (without `$index`)
+ *
+ * @param template - Test name template with placeholders
+ * @returns Property paths in order of appearance, e.g. `['a', 'user.name']`
+ *
+ * @example
+ * ```ts
+ * templatePlaceholderPaths('case $index: $a and $user.name') // ['a', 'user.name']
+ * ```
+ */
+export const templatePlaceholderPaths = (template: string): string[] =>
+  Array.from(template.matchAll(TOKEN_PATTERN), ([match, braced, indexChain, path, chain]) =>
+    readPlaceholder(template, match, braced, indexChain, path, chain)?.path
+  ).filter((path): path is string => path !== undefined);
+
 /**
  * Formats test names with object-style placeholders
  *
@@ -67,19 +212,37 @@ function resolvePropertyPath(obj: any, path: string): PropertyResolution {
  * - `$nested.property` - Supports nested object access (e.g., testCase.user.name)
  * - `$array[0]` - Supports array indexing (e.g., testCase.items[0])
  * - `$complex.path[0].value` - Combines dots and brackets
+ * - `$headers['content-type']` - Quoted bracket keys for names with `-`, `.` or spaces
+ * - `${count}items` - Braces end a placeholder before adjacent text (`${price:fixed2}` with specifiers)
+ * - `$price:fixed(2)`, `$name:<10` - Format specifiers, see {@link applySpecifiers}; outside braces
+ *   an unknown `:word` is plain text (`$name:passed` → `x:passed`)
+ * - `$$` - A literal `$`
  *
- * The `$index` placeholder is processed first in a separate pass to avoid any
- * collision with user data that might have an 'index' property.
+ * `$index` always means the case index, even if the case has an 'index' property.
+ *
+ * Reserved keys (`$_timeout`, `$_skip`, `$_tags`, ...) configure the case
+ * rather than describe it, so they are never resolved and stay as written.
  *
  * Property paths support:
  * - Dot notation for nested objects: `$user.name`
  * - Bracket notation for arrays: `$items[0]`
+ * - Quoted bracket notation for any key: `$headers['content-type']`, `$vars["--main-color"]`
  * - Combined paths: `$data.users[0].email`
  *
+ * Values are rendered with {@link formatValue}: custom formatters from `options.formatters`
+ * first, then the built-ins (`[1, 2]`, `{a: 1}`, ISO dates, `123n`, ...), cut to `options.maxValueLength`.
+ * Format specifiers after a placeholder (`$price:fixed2:>8`) render it explicitly instead.
+ *
+ * Unresolved placeholders are left in the name as written, unless `options.strict` is set:
+ * then all of them are reported at once, with "did you mean" suggestions for typos.
+ *
  * @param template - Test name template with placeholders
  * @param testCase - Object containing test data
  * @param index - Zero-based index of current test case
+ * @param options - Optional formatting options (strict, formatters, specifiers, maxValueLength, quoteStrings)
  * @returns Formatted test name with placeholders replaced
+ * @throws If a braced placeholder is malformed or has an unknown specifier, a specifier fails,
+ *   or in strict mode if any placeholder does not resolve
  *
  * @example
  * ```ts
@@ -94,15 +257,63 @@ function resolvePropertyPath(obj: any, path: string): PropertyResolution {
  *
  * formatObjectTestName('email: $users[0].email', {users: [{email: 'a@example.com'}]}, 0)
  * // returns 'email: a@example.com'
+ *
+ * formatObjectTestName("$$${count}k sent as $headers['content-type']", {count: 5, headers: {'content-type': 'text/csv'}}, 0)
+ * // returns '$5k sent as text/csv'
  * ```
  */
-export const formatObjectTestName = (template: string, testCase: Record<string, any>, index: number): string => {
-  // First pass: Replace $index with actual index value (prevents collision)
-  const withIndex = template.replace(/\$index\b/g, index.toString());
-
-  // Second pass: Replace user properties from testCase (supports nested access)
-  return withIndex.replace(/\$([a-zA-Z_$][\w.$[\]()*+?^|\\-]*)/g, (match, path) => {
-    const resolution = resolvePropertyPath(testCase, path);
-    return resolution.found ? String(resolution.value) : match;
+export const formatObjectTestName = (
+  template: string,
+  testCase: Record<string, any>,
+  index: number,
+  options: NameFormatOptions = {}
+): string => {
+  const unresolved: string[] = [];
+
+  // Single left-to-right pass, so `$$` escapes and `$index` (never a property, even if the
+  // case has an 'index' key) are recognized before property paths
+  const name = template.replace(TOKEN_PATTERN, (match, braced, indexChain, path, chain) => {
+    const placeholder = readPlaceholder(template, match, braced, indexChain, path, chain);
+
+    if (!placeholder) {
+      return '$';
+    }
+
+    // Outside braces, an unknown `:word` ends the chain and stays text (`$name:passed` → `x:passed`)
+    const { known, literal } = placeholder.braced
+      ? { known: placeholder.chain, literal: '' }
+      : splitKnownSpecifiers(placeholder.chain, options);
+    const text = match.slice(0, match.length - literal.length);
+
+    if (placeholder.path === undefined) {
+      return applySpecifiers(index, known, text, template, options) + literal;
+    }
+
+    const resolution = RESERVED_KEYS.has(pathSegments(placeholder.path)[0])
+      ? { found: false, value: undefined }
+      : resolvePropertyPath(testCase, placeholder.path);
+
+    if (!resolution.found) {
+      validateSpecifierChain(known, text, template, options);
+      unresolved.push(placeholder.path);
+      return match;
+    }
+    return applySpecifiers(resolution.value, known, text, template, options) + literal;
   });
+
+  if (options.strict && unresolved.length > 0) {
+    const availableKeys = Object.keys(testCase)
+      .filter(key => !RESERVED_KEYS.has(key))
+      .map(key => `'${key}'`)
+      .join(', ');
+
+    throw new Error(
+      `Unresolved placeholder${unresolved.length === 1 ? '' : 's'} in test name template "${template}" (test case ${index}):\n` +
+      `${unresolved.map(path => `  - $${path} (${describeUnresolved(testCase, path)})`).join('\n')}\n` +
+      `  Available keys: [${availableKeys}]\n\n` +
+      `Strict mode requires every $placeholder to resolve on the test case.`
+    );
+  }
+
+  return name;
 };
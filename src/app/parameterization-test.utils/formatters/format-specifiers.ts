@@ -0,0 +1,265 @@
+/**
+ * Placeholder format specifiers
+ * @module parameterized-testing/formatters/format-specifiers
+ */
+
+import type { ValueFormatOptions, ValueSpecifier } from '../runner/types';
+import { formatValue } from './format-value';
+import { findSimilarKey } from './validate-object-consistency';
+
+/**
+ * Source of the specifier chain following a placeholder path: `:name`, `:name(args)` or `:[fill]<width`
+ * (also `>` and `^`), repeated. Shared with the placeholder patterns of the name formatter.
+ */
+export const SPECIFIER_CHAIN_SOURCE = String.raw`((?::(?:[A-Za-z]\w*(?:\([^)]*\))?|[^\s$:]?[<>^]\d+))*)`;
+
+/** A single specifier of a chain */
+const SPECIFIER_PATTERN = /:(?:([A-Za-z]\w*)(?:\(([^)]*)\))?|([^\s$:]?)([<>^])(\d+))/g;
+
+/** Named specifier with trailing digits as its argument, e.g. `fixed2` */
+const DIGIT_SHORTHAND_PATTERN = /^([A-Za-z]\w*?)(\d+)$/;
+
+/**
+ * Converts a value to a number for numeric specifiers
+ *
+ * @throws If the value is not a number or numeric string
+ */
+function toNumber(value: unknown): number {
+  const number = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+  if (typeof number !== 'number' && typeof number !== 'bigint') {
+    throw new Error(`expected a number, received: ${typeof value}`);
+  }
+  return Number(number);
+}
+
+/**
+ * Converts a value to a Date for date specifiers (Dates, timestamps and date strings)
+ */
+function toDate(value: unknown): Date {
+  return value instanceof Date ? value : new Date(value as string | number);
+}
+
+/**
+ * Built-in named specifiers
+ */
+const BUILT_IN_SPECIFIERS: Readonly<Record<string, ValueSpecifier>> = {
+  /** `JSON.stringify` (BigInt as `123n`) */
+  json: (value) =>
+    JSON.stringify(value, (_, item) => typeof item === 'bigint' ? `${item}n` : item) ?? String(value),
+
+  /** `String(value)`, bypassing the value formatters */
+  raw: (value) => String(value),
+
+  /** Quoted string (other values formatted as usual) */
+  quote: (value, _, format) => typeof value === 'string' ? JSON.stringify(value) : format(value),
+
+  upper: (value, _, format) => format(value).toUpperCase(),
+
+  lower: (value, _, format) => format(value).toLowerCase(),
+
+  /** Fixed-point number, `fixed(2)` or `fixed2` → `1.50` */
+  fixed: (value, [digits = '0']) => {
+    if (!/^\d+$/.test(digits) || Number(digits) > 100) {
+      throw new Error(`expected a number of digits from 0 to 100, received: '${digits}'`);
+    }
+    return toNumber(value).toFixed(Number(digits));
+  },
+
+  /** Amount in a currency (default USD) with en-US conventions, `currency(EUR)` → `€1,234.50` */
+  currency: (value, [code = 'USD']) =>
+    new Intl.NumberFormat('en-US', { style: 'currency', currency: code }).format(toNumber(value)),
+
+  /** Full ISO timestamp, `2024-01-15T10:30:00.000Z` */
+  iso: (value) => {
+    const date = toDate(value);
+    return Number.isNaN(date.getTime()) ? 'Invalid Date' : date.toISOString();
+  },
+
+  /** ISO calendar date (UTC), `2024-01-15` */
+  date: (value) => {
+    const date = toDate(value);
+    return Number.isNaN(date.getTime()) ? 'Invalid Date' : date.toISOString().slice(0, 10);
+  }
+};
+
+/**
+ * Pads text to a width: `<` left-aligns, `>` right-aligns, `^` centers
+ */
+function align(text: string, fill: string, direction: string, width: number): string {
+  const padding = Math.max(0, width - text.length);
+  if (direction === '<') return text + fill.repeat(padding);
+  if (direction === '>') return fill.repeat(padding) + text;
+
+  const left = Math.floor(padding / 2);
+  return fill.repeat(left) + text + fill.repeat(padding - left);
+}
+
+/**
+ * Looks up a named specifier, falling back to the trailing-digits shorthand (`fixed2` → `fixed(2)`)
+ */
+function lookupSpecifier(
+  name: string,
+  args: string[],
+  specifiers: Readonly<Record<string, ValueSpecifier>>
+): { specifier: ValueSpecifier; args: string[] } | undefined {
+  if (Object.prototype.hasOwnProperty.call(specifiers, name)) {
+    return { specifier: specifiers[name], args };
+  }
+
+  const shorthand = DIGIT_SHORTHAND_PATTERN.exec(name);
+  if (shorthand && args.length === 0 && Object.prototype.hasOwnProperty.call(specifiers, shorthand[1])) {
+    return { specifier: specifiers[shorthand[1]], args: [shorthand[2]] };
+  }
+
+  return undefined;
+}
+
+/**
+ * Splits the arguments in parentheses of a named specifier
+ */
+function parseArgs(argText: string | undefined): string[] {
+  return argText === undefined ? [] : argText.split(',').map(arg => arg.trim()).filter(arg => arg !== '');
+}
+
+/**
+ * Step of a parsed specifier chain
+ */
+type SpecifierStep =
+  | { kind: 'align'; text: string; fill: string; direction: string; width: number }
+  | { kind: 'named'; text: string; specifier: ValueSpecifier; args: string[] };
+
+/**
+ * Parses a specifier chain, resolving named specifiers
+ *
+ * @throws If a named specifier is unknown
+ */
+function parseSpecifierChain(
+  chain: string,
+  placeholder: string,
+  template: string,
+  options: ValueFormatOptions
+): SpecifierStep[] {
+  const specifiers = { ...BUILT_IN_SPECIFIERS, ...options.specifiers };
+
+  return Array.from(chain.matchAll(SPECIFIER_PATTERN), ([text, name, argText, fill, direction, width]): SpecifierStep => {
+    if (direction !== undefined) {
+      return { kind: 'align', text, fill: fill || ' ', direction, width: Number(width) };
+    }
+
+    const found = lookupSpecifier(name, parseArgs(argText), specifiers);
+
+    if (!found) {
+      // A misspelled shorthand (`fixd2`) is compared without its digits
+      const names = Object.keys(specifiers);
+      const similar = findSimilarKey(name, names) ?? findSimilarKey(name.replace(/\d+$/, ''), names);
+      throw new Error(
+        `Unknown format specifier '${text}' in placeholder "${placeholder}" of test name template "${template}"\n` +
+        (similar ? `💡 Did you mean ':${similar}'?\n` : '') +
+        `Available specifiers: ${names.join(', ')}`
+      );
+    }
+
+    return { kind: 'named', text, ...found };
+  });
+}
+
+/**
+ * Splits a specifier chain before its first unknown named specifier
+ *
+ * Used for placeholders outside braces, where `:word` after a placeholder may be plain text
+ * (`status $name:passed`): only the known specifiers format the value, the rest stays literal.
+ *
+ * @returns The chain of known specifiers and the literal text following it
+ */
+export const splitKnownSpecifiers = (
+  chain: string,
+  options: ValueFormatOptions = {}
+): { known: string; literal: string } => {
+  const specifiers = { ...BUILT_IN_SPECIFIERS, ...options.specifiers };
+
+  for (const match of chain.matchAll(SPECIFIER_PATTERN)) {
+    const [, name, argText] = match;
+    if (name !== undefined && !lookupSpecifier(name, parseArgs(argText), specifiers)) {
+      return { known: chain.slice(0, match.index), literal: chain.slice(match.index) };
+    }
+  }
+
+  return { known: chain, literal: '' };
+};
+
+/**
+ * Checks that every specifier of a chain exists, without rendering a value
+ *
+ * Used for placeholders that don't resolve, so a misspelled specifier is reported
+ * even when the path is missing too.
+ *
+ * @throws If a named specifier is unknown
+ */
+export const validateSpecifierChain = (
+  chain: string,
+  placeholder: string,
+  template: string,
+  options: ValueFormatOptions = {}
+): void => {
+  parseSpecifierChain(chain, placeholder, template, options);
+};
+
+/**
+ * Renders a placeholder value through its specifier chain
+ *
+ * Specifiers are applied left to right:
+ * - `:name` or `:name(arg, ...)` - Named specifier (built-in or from `options.specifiers`);
+ *   trailing digits are a shorthand for a single argument (`:fixed2` is `:fixed(2)`)
+ * - `:<10`, `:>10`, `:^10` - Pads to a width (left/right-aligned, centered), optionally with a
+ *   fill character before the direction (`:0>3` → `007`)
+ *
+ * Without a named specifier the value is rendered with {@link formatValue}.
+ *
+ * Built-in specifiers: `json`, `raw`, `quote`, `upper`, `lower`, `fixed(digits)`,
+ * `currency(code)`, `iso`, `date`.
+ *
+ * @param value - Resolved placeholder value
+ * @param chain - Specifier chain as written, e.g. `':fixed(2):>8'` (empty for none)
+ * @param placeholder - Whole placeholder for error messages, e.g. `'$price:fixed(2):>8'`
+ * @param template - Test name template for error messages
+ * @param options - Value formatting options (formatters, specifiers, ...)
+ * @returns The rendered value
+ * @throws If a specifier is unknown or fails on the value
+ *
+ * @example
+ * ```ts
+ * applySpecifiers(1.5, ':fixed2:>6', '$price:fixed2:>6', 'costs $price:fixed2:>6') // '  1.50'
+ * applySpecifiers(7, ':0>3', '$index:0>3', 'case $index:0>3')                      // '007'
+ * ```
+ */
+export const applySpecifiers = (
+  value: unknown,
+  chain: string,
+  placeholder: string,
+  template: string,
+  options: ValueFormatOptions = {}
+): string => {
+  const format = (item: unknown) => formatValue(item, options);
+
+  let current = value;
+  let rendered = false;
+
+  for (const step of parseSpecifierChain(chain, placeholder, template, options)) {
+    if (step.kind === 'align') {
+      current = align(rendered ? String(current) : format(current), step.fill, step.direction, step.width);
+    } else {
+      try {
+        current = step.specifier(current, step.args, format);
+      } catch (error) {
+        throw new Error(
+          `Format specifier '${step.text}' failed in placeholder "${placeholder}" of test name template "${template}": ` +
+          (error instanceof Error ? error.message : String(error)),
+          { cause: error }
+        );
+      }
+    }
+    rendered = true;
+  }
+
+  return rendered ? String(current) : format(current);
+};
@@ -0,0 +1,69 @@
+/**
+ * Test name formatter for templates and name functions
+ * @module parameterized-testing/formatters/format-test-name
+ */
+
+import type { NameFormatOptions, NameFunction, TestCase } from '../runner/types';
+import { formatObjectTestName } from './format-object-test-name';
+
+/**
+ * Describes a name template or name function for error messages
+ *
+ * @example
+ * ```ts
+ * describeNameTemplate('adds $a')                       // 'adds $a'
+ * describeNameTemplate(function describeOrder() { ... }) // '[Function describeOrder]'
+ * ```
+ */
+export const describeNameTemplate = (nameTemplate: string | NameFunction<any>): string =>
+  typeof nameTemplate === 'function' ? `[Function ${nameTemplate.name || 'anonymous'}]` : nameTemplate;
+
+/**
+ * Formats the name of a case from a name template or a name function
+ *
+ * Templates are formatted with {@link formatObjectTestName}. Functions are called with the
+ * case, its index and the options, and their result is used as is.
+ *
+ * @param nameTemplate - Test name template with placeholders, or name function
+ * @param testCase - Object containing test data
+ * @param index - Zero-based index of current test case
+ * @param options - Formatting options (strict, formatters, specifiers, ...), passed on to name functions
+ * @returns Formatted test name
+ * @throws If a template fails to format, or a name function throws or doesn't return a non-empty string
+ *
+ * @example
+ * ```ts
+ * formatTestName((tc) => `adds ${tc.items.length} item${tc.items.length === 1 ? '' : 's'}`, {items: [1, 2]}, 0)
+ * // returns 'adds 2 items'
+ * ```
+ */
+export const formatTestName = (
+  nameTemplate: string | NameFunction<any>,
+  testCase: TestCase,
+  index: number,
+  options: NameFormatOptions = {}
+): string => {
+  if (typeof nameTemplate === 'string') {
+    return formatObjectTestName(nameTemplate, testCase, index, options);
+  }
+
+  let name: unknown;
+  try {
+    name = nameTemplate(testCase, index, options);
+  } catch (error) {
+    throw new Error(
+      `Test name function ${describeNameTemplate(nameTemplate)} failed for test case ${index}: ` +
+      (error instanceof Error ? error.message : String(error)),
+      { cause: error }
+    );
+  }
+
+  if (typeof name !== 'string' || name.trim() === '') {
+    throw new Error(
+      `Test name function ${describeNameTemplate(nameTemplate)} must return a non-empty string for test case ${index}, ` +
+      `received: ${typeof name === 'string' ? '(empty string)' : typeof name}`
+    );
+  }
+
+  return name;
+};
@@ -0,0 +1,47 @@
+/**
+ * Aggregate test data validation report
+ * @module parameterized-testing/formatters/format-validation-report
+ */
+
+/**
+ * Problem found in a single row of test data
+ */
+export interface RowProblem {
+  /** Zero-based case index (data row index for tables) */
+  index: number;
+  /** What is wrong, e.g. `missing: 'total'; unexpected: 'totl'` */
+  problem: string;
+  /** Fixes to suggest, e.g. `Did you mean 'total' instead of 'totl'?` */
+  suggestions: string[];
+}
+
+/**
+ * Formats every problem of a dataset as one compact report, one line per problem
+ *
+ * @param context - Context string for the report (e.g. template name)
+ * @param problems - Problems found, in row order
+ * @param rowCount - Number of rows checked
+ * @returns The report, for the message of a single error
+ *
+ * @example
+ * ```ts
+ * formatValidationReport('adds $a', [
+ *   { index: 2, problem: "missing: 'total'; unexpected: 'totl'", suggestions: ["Did you mean 'total' instead of 'totl'?"] },
+ *   { index: 7, problem: 'has 2 values but expected 3', suggestions: [] }
+ * ], 200)
+ * // Invalid test data in "adds $a" (2 of 200 cases):
+ * //   - case 2: missing: 'total'; unexpected: 'totl' (💡 Did you mean 'total' instead of 'totl'?)
+ * //   - case 7: has 2 values but expected 3
+ * ```
+ */
+export const formatValidationReport = (context: string, problems: RowProblem[], rowCount: number): string => {
+  const lines = problems.map(({ index, problem, suggestions }) =>
+    `  - case ${index}: ${problem}${suggestions.length > 0 ? ` (💡 ${suggestions.join(' ')})` : ''}`
+  );
+
+  // A case can have several problems, each on its own line
+  const caseCount = new Set(problems.map(({ index }) => index)).size;
+
+  return `Invalid test data in "${context}" (${caseCount} of ${rowCount} case${rowCount === 1 ? '' : 's'}):\n` +
+    lines.join('\n');
+};
@@ -0,0 +1,147 @@
+/**
+ * Placeholder value formatter
+ * @module parameterized-testing/formatters/format-value
+ */
+
+import type { ValueFormatOptions, ValueFormatter } from '../runner/types';
+
+/** Default limit for a rendered value (none), see {@link ValueFormatOptions.maxValueLength} */
+export const DEFAULT_MAX_VALUE_LENGTH = Infinity;
+
+/** Object keys that can be shown without quotes */
+const IDENTIFIER_PATTERN = /^[A-Za-z_$][\w$]*$/;
+
+/**
+ * Checks whether a custom formatter applies to a value
+ *
+ * @throws If the formatter has neither a `type` constructor nor a `test` predicate
+ */
+function matchesFormatter(formatter: ValueFormatter, value: unknown): boolean {
+  if ('type' in formatter && typeof formatter.type === 'function') {
+    return value instanceof formatter.type;
+  }
+  if ('test' in formatter && typeof formatter.test === 'function') {
+    return formatter.test(value);
+  }
+  throw new Error(
+    `Value formatter must have a 'type' constructor or a 'test' predicate, received keys: [${Object.keys(formatter ?? {}).join(', ')}]`
+  );
+}
+
+/**
+ * Whether an object overrides `toString()` (Error, RegExp, URL, domain classes, ...)
+ */
+function hasCustomToString(value: object): boolean {
+  return typeof (value as any).toString === 'function' && (value as any).toString !== Object.prototype.toString;
+}
+
+/**
+ * Renders an object key, quoting it unless it is a plain identifier
+ */
+function formatKey(key: string): string {
+  return IDENTIFIER_PATTERN.test(key) ? key : JSON.stringify(key);
+}
+
+/**
+ * Renders a value for a test name
+ *
+ * Custom formatters are tried first, in order. Built-in rendering:
+ * - Strings as-is at the top level (quoted with `quoteStrings`), quoted inside objects and arrays
+ * - `-0` as `-0`, BigInt as `123n`, functions as `[Function name]`
+ * - Dates as ISO strings (`Invalid Date` when invalid)
+ * - Arrays as `[1, 2]`, Maps as `Map {a => 1}`, Sets as `Set {1, 2}`
+ * - Objects overriding `toString()` via `String(value)`
+ * - Other objects JSON-like as `{a: 1, b: "x"}`, prefixed with the class name for class
+ *   instances, and `[Circular]` for references back to an enclosing object
+ *
+ * With `maxValueLength` set, the result is cut to that many characters, ending with `…`.
+ *
+ * @param value - Value to render
+ * @param options - Custom formatters, maximum length and string quoting
+ * @returns The rendered value
+ * @throws If a custom formatter has neither a `type` nor a `test`
+ *
+ * @example
+ * ```ts
+ * formatValue({ a: [1, 'x'], b: new Date(0) })
+ * // '{a: [1, "x"], b: 1970-01-01T00:00:00.000Z}'
+ *
+ * formatValue(new Money(5, 'EUR'), { formatters: [{ type: Money, format: (m) => `${m.amount} ${m.currency}` }] })
+ * // '5 EUR'
+ * ```
+ */
+export const formatValue = (value: unknown, options: ValueFormatOptions = {}): string => {
+  const { formatters = [], maxValueLength = DEFAULT_MAX_VALUE_LENGTH, quoteStrings = false } = options;
+
+  // Objects currently being rendered (ancestors of the current value)
+  const ancestors = new Set<object>();
+
+  const withAncestor = (object: object, render: () => string): string => {
+    if (ancestors.has(object)) return '[Circular]';
+    ancestors.add(object);
+    try {
+      return render();
+    } finally {
+      ancestors.delete(object);
+    }
+  };
+
+  const render = (value: unknown, nested: boolean): string => {
+    const formatNested = (inner: unknown) => render(inner, true);
+
+    const custom = formatters.find(formatter => matchesFormatter(formatter, value));
+    if (custom) {
+      return value !== null && typeof value === 'object'
+        ? withAncestor(value, () => custom.format(value, formatNested))
+        : custom.format(value, formatNested);
+    }
+
+    switch (typeof value) {
+      case 'string':
+        return nested || quoteStrings ? JSON.stringify(value) : value;
+      case 'number':
+        return Object.is(value, -0) ? '-0' : String(value);
+      case 'bigint':
+        return `${value}n`;
+      case 'function':
+        return `[Function ${value.name || 'anonymous'}]`;
+      case 'object':
+        break;
+      default:
+        return String(value);
+    }
+
+    if (value === null) return 'null';
+
+    if (value instanceof Date) {
+      return Number.isNaN(value.getTime()) ? 'Invalid Date' : value.toISOString();
+    }
+
+    return withAncestor(value, () => {
+      if (Array.isArray(value)) {
+        return `[${value.map(formatNested).join(', ')}]`;
+      }
+      if (value instanceof Map) {
+        return `Map {${Array.from(value, ([key, item]) => `${formatNested(key)} => ${formatNested(item)}`).join(', ')}}`;
+      }
+      if (value instanceof Set) {
+        return `Set {${Array.from(value, formatNested).join(', ')}}`;
+      }
+      if (hasCustomToString(value)) {
+        return String(value);
+      }
+
+      const prototype = Object.getPrototypeOf(value);
+      const className = prototype && prototype !== Object.prototype ? prototype.constructor?.name : undefined;
+      const entries = Object.keys(value).map(key => `${formatKey(key)}: ${formatNested((value as any)[key])}`);
+      const body = entries.length > 0 ? `{${entries.join(', ')}}` : '{}';
+
+      return className ? `${className} ${body}` : body;
+    });
+  };
+
+  const rendered = render(value, false);
+  return rendered.length > maxValueLength
+    ? `${rendered.slice(0, Math.max(0, maxValueLength - 1))}…`
+    : rendered;
+};
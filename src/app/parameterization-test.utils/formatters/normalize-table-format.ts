@@ -4,6 +4,72 @@
  */
 
 import type { TableFormat } from '../runner/types';
+import type { RowProblem } from './format-validation-report';
+
+/**
+ * Checks the table headers
+ *
+ * @throws If testCases is empty, headers are missing, or headers contain non-strings
+ */
+function validateHeaders(testCases: TableFormat): string[] {
+  if (!testCases || testCases.length === 0) {
+    throw new Error(
+      `Table format requires at least a headers row, received: ${testCases ? 'empty array' : testCases}`
+    );
+  }
+
+  const [headers] = testCases;
+
+  if (!Array.isArray(headers) || headers.length === 0) {
+    throw new Error(
+      `Table format headers must be a non-empty array, received: ${Array.isArray(headers) ? 'empty array' : typeof headers}`
+    );
+  }
+
+  if (!headers.every(h => typeof h === 'string')) {
+    const nonStrings = headers.filter(h => typeof h !== 'string');
+    throw new Error(
+      `Table format headers must all be strings, found non-strings: ${JSON.stringify(nonStrings)}`
+    );
+  }
+
+  return headers;
+}
+
+/**
+ * Describes what is wrong with a data row
+ *
+ * @returns The problem, or undefined for a valid row
+ */
+function describeRowProblem(row: unknown, headers: string[]): string | undefined {
+  if (!Array.isArray(row)) {
+    return `must be an array, received: ${typeof row} (value: ${JSON.stringify(row)})`;
+  }
+
+  if (row.length !== headers.length) {
+    return `has ${row.length} values but expected ${headers.length} (matching headers count)`;
+  }
+
+  return undefined;
+}
+
+/**
+ * Finds every data row that can't be converted to an object
+ *
+ * Unlike {@link normalizeTableFormat}, doesn't stop at the first bad row.
+ *
+ * @param testCases - Table format data with headers and rows
+ * @returns Problems of the data rows, in row order (empty when all rows are valid)
+ * @throws If testCases is empty, headers are missing, or headers contain non-strings
+ */
+export const findTableRowProblems = (testCases: TableFormat): RowProblem[] => {
+  const headers = validateHeaders(testCases);
+
+  return testCases.slice(1).flatMap((row, index) => {
+    const problem = describeRowProblem(row, headers);
+    return problem === undefined ? [] : [{ index, problem, suggestions: [] }];
+  });
+};
 
 /**
  * Converts table format (headers + rows) to object format
@@ -31,37 +97,14 @@ import type { TableFormat } from '../runner/types';
  * ```
  */
 export const normalizeTableFormat = (testCases: TableFormat): Record<string, any>[] => {
-  if (!testCases || testCases.length === 0) {
-    throw new Error(
-      `Table format requires at least a headers row, received: ${testCases ? 'empty array' : testCases}`
-    );
-  }
-
-  const [headers, ...rows] = testCases;
-
-  if (!Array.isArray(headers) || headers.length === 0) {
-    throw new Error(
-      `Table format headers must be a non-empty array, received: ${Array.isArray(headers) ? 'empty array' : typeof headers}`
-    );
-  }
-
-  if (!headers.every(h => typeof h === 'string')) {
-    const nonStrings = headers.filter(h => typeof h !== 'string');
-    throw new Error(
-      `Table format headers must all be strings, found non-strings: ${JSON.stringify(nonStrings)}`
-    );
-  }
-
-  return rows.map((row, rowIndex) => {
-    if (!Array.isArray(row)) {
-      throw new Error(
-        `Table format row ${rowIndex} must be an array, received: ${typeof row} (value: ${JSON.stringify(row)})`
-      );
-    }
+  const headers = validateHeaders(testCases);
 
-    if (row.length !== headers.length) {
+  return testCases.slice(1).map((row, rowIndex) => {
+    const problem = describeRowProblem(row, headers);
+    if (problem !== undefined) {
       throw new Error(
-        `Table format row ${rowIndex} has ${row.length} values but expected ${headers.length} (matching headers count)\nHeaders: ${JSON.stringify(headers)}\nRow: ${JSON.stringify(row)}`
+        `Table format row ${rowIndex} ${problem}` +
+        (Array.isArray(row) ? `\nHeaders: ${JSON.stringify(headers)}\nRow: ${JSON.stringify(row)}` : '')
       );
     }
 
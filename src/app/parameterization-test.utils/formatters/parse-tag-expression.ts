@@ -0,0 +1,145 @@
+/**
+ * Tag expression parser
+ * @module parameterized-testing/formatters/parse-tag-expression
+ */
+
+import type { TagPredicate } from '../runner/types';
+
+/** Characters allowed in a tag name */
+const TAG_PATTERN = /^[\w.:/-]+/;
+
+/**
+ * Token of a tag expression
+ */
+interface Token {
+  type: 'tag' | '!' | '&&' | '||' | '(' | ')';
+  value: string;
+  position: number;
+}
+
+/**
+ * Splits a tag expression into tokens (`,` is an alias for `||`)
+ */
+function tokenize(expression: string): Token[] {
+  const tokens: Token[] = [];
+  let position = 0;
+
+  while (position < expression.length) {
+    const rest = expression.slice(position);
+
+    if (/^\s/.test(rest)) {
+      position++;
+      continue;
+    }
+
+    const operator = ['&&', '||', '!', '(', ')', ','].find(op => rest.startsWith(op));
+    if (operator) {
+      tokens.push({ type: operator === ',' ? '||' : operator as Token['type'], value: operator, position });
+      position += operator.length;
+      continue;
+    }
+
+    const tag = TAG_PATTERN.exec(rest);
+    if (!tag) {
+      throw new Error(
+        `Invalid tag expression "${expression}": unexpected '${rest[0]}' at position ${position}`
+      );
+    }
+
+    tokens.push({ type: 'tag', value: tag[0], position });
+    position += tag[0].length;
+  }
+
+  return tokens;
+}
+
+/**
+ * Parses a tag expression into a predicate over a case's tags
+ *
+ * Grammar (usual precedence: `!` binds tightest, then `&&`, then `||`):
+ * - `tag` - Case has the tag
+ * - `!expr` - Negation
+ * - `a && b` - Both
+ * - `a || b` or `a, b` - Either
+ * - `(expr)` - Grouping
+ *
+ * Tag names may contain letters, digits, `_`, `-`, `.`, `:` and `/`.
+ *
+ * @param expression - Tag expression, e.g. `"!slow"` or `"i18n && (smoke || regression)"`
+ * @returns Predicate returning true when the given tags match the expression
+ * @throws If the expression is empty or malformed
+ *
+ * @example
+ * ```ts
+ * const matches = parseTagExpression('!slow && (i18n, a11y)');
+ * matches(['i18n'])         // true
+ * matches(['i18n', 'slow']) // false
+ * matches([])               // false
+ * ```
+ */
+export const parseTagExpression = (expression: string): TagPredicate => {
+  const tokens = tokenize(expression);
+
+  if (tokens.length === 0) {
+    throw new Error(`Invalid tag expression "${expression}": expression is empty`);
+  }
+
+  let current = 0;
+
+  const fail = (expected: string): never => {
+    const token = tokens[current];
+    const found = token ? `'${token.value}' at position ${token.position}` : 'end of expression';
+    throw new Error(`Invalid tag expression "${expression}": expected ${expected}, found ${found}`);
+  };
+
+  const parseOr = (): TagPredicate => {
+    const operands = [parseAnd()];
+    while (tokens[current]?.type === '||') {
+      current++;
+      operands.push(parseAnd());
+    }
+    return operands.length === 1 ? operands[0] : (tags) => operands.some(operand => operand(tags));
+  };
+
+  const parseAnd = (): TagPredicate => {
+    const operands = [parseNot()];
+    while (tokens[current]?.type === '&&') {
+      current++;
+      operands.push(parseNot());
+    }
+    return operands.length === 1 ? operands[0] : (tags) => operands.every(operand => operand(tags));
+  };
+
+  const parseNot = (): TagPredicate => {
+    if (tokens[current]?.type === '!') {
+      current++;
+      const operand = parseNot();
+      return (tags) => !operand(tags);
+    }
+    return parsePrimary();
+  };
+
+  const parsePrimary = (): TagPredicate => {
+    const token = tokens[current];
+
+    if (token?.type === 'tag') {
+      current++;
+      return (tags) => tags.includes(token.value);
+    }
+
+    if (token?.type === '(') {
+      current++;
+      const inner = parseOr();
+      if (tokens[current]?.type !== ')') fail(`')'`);
+      current++;
+      return inner;
+    }
+
+    return fail('a tag, \'!\' or \'(\'');
+  };
+
+  const predicate = parseOr();
+  if (current < tokens.length) fail(`'&&', '||' or ','`);
+
+  return predicate;
+};
@@ -0,0 +1,196 @@
+/**
+ * Tagged-template table parser
+ * @module parameterized-testing/formatters/table-template
+ */
+
+import type { TaggedTable } from '../runner/types';
+
+/**
+ * A single token on a template line: literal text or an interpolated value
+ */
+type TemplateToken =
+  | { kind: 'text'; text: string }
+  | { kind: 'value'; value: any };
+
+/**
+ * Splits the template parts into lines of tokens
+ *
+ * Interpolated values never contain line breaks, so only the literal
+ * strings are split. Values keep their original JS identity.
+ */
+function tokenizeLines(strings: TemplateStringsArray, values: any[]): TemplateToken[][] {
+  const lines: TemplateToken[][] = [[]];
+
+  strings.forEach((literal, i) => {
+    literal.split('\n').forEach((piece, pieceIndex) => {
+      if (pieceIndex > 0) {
+        lines.push([]);
+      }
+      if (piece.length > 0) {
+        lines[lines.length - 1].push({ kind: 'text', text: piece });
+      }
+    });
+
+    if (i < values.length) {
+      lines[lines.length - 1].push({ kind: 'value', value: values[i] });
+    }
+  });
+
+  return lines;
+}
+
+/**
+ * Parses the pipe-delimited header text into column names
+ *
+ * Leading and trailing pipes are allowed (`| a | b |`), empty columns in between are not.
+ */
+function parseHeaders(headerText: string): string[] {
+  const headers = headerText.split('|').map(h => h.trim());
+
+  if (headers.length > 0 && headers[0] === '') headers.shift();
+  if (headers.length > 0 && headers[headers.length - 1] === '') headers.pop();
+
+  if (headers.length === 0) {
+    throw new Error(
+      'Table template requires a header row, e.g. table`a | b | expected`'
+    );
+  }
+
+  const emptyIndex = headers.indexOf('');
+  if (emptyIndex !== -1) {
+    throw new Error(
+      `Table template header column ${emptyIndex} is empty\nHeaders: ${JSON.stringify(headers)}`
+    );
+  }
+
+  return headers;
+}
+
+/**
+ * Interpolated values of a data line and the number of `|` between each pair of them
+ */
+interface LineValues {
+  values: any[];
+  separators: number[];
+}
+
+/**
+ * Collects the interpolated values of a data line, rejecting literal cell content
+ */
+function collectRowValues(tokens: TemplateToken[], lineNumber: number): LineValues {
+  const values: any[] = [];
+  const separators: number[] = [];
+  let pipes = 0;
+
+  for (const token of tokens) {
+    if (token.kind === 'value') {
+      if (values.length > 0) separators.push(pipes);
+      values.push(token.value);
+      pipes = 0;
+    } else if (!/^[\s|]*$/.test(token.text)) {
+      throw new Error(
+        `Table template line ${lineNumber} contains literal text "${token.text.trim()}" - ` +
+        'wrap every cell value in ${...}'
+      );
+    } else {
+      pipes += token.text.split('|').length - 1;
+    }
+  }
+
+  return { values, separators };
+}
+
+/**
+ * Checks that the cells of a data line are separated by exactly one `|`
+ *
+ * @param firstRow - Index of the line's first data row; one-line tables hold `rowLength` cells per row
+ * @throws If a separator is missing or repeated
+ */
+function checkSeparators(
+  { separators }: LineValues,
+  firstRow: number,
+  rowLength: number,
+  lineNumber: number,
+  headers: string[]
+): void {
+  const gap = separators.findIndex(pipes => pipes !== 1);
+  if (gap === -1) return;
+
+  throw new Error(
+    `Table template row ${firstRow + Math.floor(gap / rowLength)} (line ${lineNumber}) has ` +
+    `${separators[gap] === 0 ? "no '|'" : `${separators[gap]} '|'`} between values ${gap} and ${gap + 1} of the line ` +
+    `but expected one\nHeaders: ${JSON.stringify(headers)}`
+  );
+}
+
+/**
+ * Builds table format data from a pipe-delimited tagged template
+ *
+ * The first non-blank line holds the column names separated by `|`. Every following
+ * line is one row whose cells are `${...}` interpolations, so values stay real JS
+ * values (objects, Dates, functions, `undefined`). The result is plain table format
+ * and goes through `normalizeTableFormat` and `validateObjectConsistency` in `.where()`,
+ * so row length and key consistency errors are reported exactly as for array tables.
+ *
+ * Values on a line are separated by exactly one `|`, so a missing pipe is reported with its
+ * row instead of shifting the values. For one-line templates (headers and values on the same
+ * line) values are grouped into rows by the number of headers, like Jest's `test.each` template.
+ *
+ * Cells can't be checked against headers at compile time, so a typed runner only accepts
+ * tables declared with its case type: table<{ a: number }>`...`. Without a type argument
+ * the table is untyped and accepted by any runner.
+ *
+ * @template TCase - Case type the rows describe (untyped by default)
+ * @param strings - Literal parts of the template
+ * @param values - Interpolated cell values
+ * @returns Table format data (headers followed by rows)
+ * @throws If the header row is missing or has empty columns
+ * @throws If a data line contains literal text instead of `${...}` cells
+ * @throws If values on a line are not separated by exactly one `|`
+ *
+ * @example
+ * ```ts
+ * iit('should add $a and $b to get $expected', (tc) => {
+ *   expect(tc.a + tc.b).toBe(tc.expected);
+ * }).where(table`
+ *   a     | b     | expected
+ *   ${1}  | ${1}  | ${2}
+ *   ${2}  | ${-1} | ${1}
+ * `);
+ * ```
+ */
+export const table = <TCase = any>(strings: TemplateStringsArray, ...values: any[]): TaggedTable<TCase> => {
+  const lines = tokenizeLines(strings, values);
+
+  const headerLineIndex = lines.findIndex(tokens =>
+    tokens.some(t => t.kind === 'value' || t.text.trim().length > 0)
+  );
+
+  const [headerToken, ...inlineTokens] = headerLineIndex === -1 ? [] : lines[headerLineIndex];
+
+  if (!headerToken || headerToken.kind !== 'text') {
+    throw new Error(
+      'Table template requires a header row, e.g. table`a | b | expected`'
+    );
+  }
+
+  const headers = parseHeaders(headerToken.text);
+  const rows: any[][] = [];
+
+  // One-line form: `a | b ${1} | ${2} | ${3} | ${4}` - chunk values by header count
+  const inline = collectRowValues(inlineTokens, headerLineIndex + 1);
+  checkSeparators(inline, 0, headers.length, headerLineIndex + 1, headers);
+  for (let i = 0; i < inline.values.length; i += headers.length) {
+    rows.push(inline.values.slice(i, i + headers.length));
+  }
+
+  for (let i = headerLineIndex + 1; i < lines.length; i++) {
+    const line = collectRowValues(lines[i], i + 1);
+    if (line.values.length > 0) {
+      checkSeparators(line, rows.length, Infinity, i + 1, headers);
+      rows.push(line.values);
+    }
+  }
+
+  return [headers, ...rows] as TaggedTable<TCase>;
+};
@@ -0,0 +1,192 @@
+/**
+ * Case data schema validator
+ * @module parameterized-testing/formatters/validate-case-schema
+ */
+
+import type { CaseSchema, ColumnRule, ColumnSpec, ColumnType } from '../runner/types';
+import type { RowProblem } from './format-validation-report';
+import { formatValue } from './format-value';
+import { findSimilarKey } from './validate-object-consistency';
+
+/**
+ * Checks of each column type, with the type as shown in messages
+ */
+const COLUMN_TYPES: Readonly<Record<ColumnType, { label: string; matches: (value: unknown) => boolean }>> = {
+  string: { label: 'a string', matches: value => typeof value === 'string' },
+  number: { label: 'a number', matches: value => typeof value === 'number' },
+  integer: { label: 'an integer', matches: value => Number.isInteger(value) },
+  boolean: { label: 'a boolean', matches: value => typeof value === 'boolean' },
+  bigint: { label: 'a bigint', matches: value => typeof value === 'bigint' },
+  function: { label: 'a function', matches: value => typeof value === 'function' },
+  date: { label: 'a Date', matches: value => value instanceof Date },
+  array: { label: 'an array', matches: value => Array.isArray(value) },
+  object: { label: 'an object', matches: value => typeof value === 'object' && value !== null && !Array.isArray(value) }
+};
+
+/**
+ * Renders a value for a schema message
+ */
+const describeValue = (value: unknown): string => formatValue(value, { quoteStrings: true, maxValueLength: 40 });
+
+/**
+ * Expands a column rule to a spec
+ *
+ * @throws If the rule is not a known type, a function or an object
+ */
+function toSpec(rule: ColumnRule, column: string, context: string): ColumnSpec {
+  if (typeof rule === 'function') {
+    return { validate: rule };
+  }
+  if (typeof rule === 'string') {
+    return { type: rule };
+  }
+  if (typeof rule === 'object' && rule !== null) {
+    return rule;
+  }
+  throw new Error(
+    `Schema rule for column '${column}' of "${context}" must be a type name, a validator function or an object, received: ${typeof rule}`
+  );
+}
+
+/**
+ * Checks that every type in a schema exists
+ *
+ * @throws For the first unknown type, with a "did you mean" suggestion
+ */
+function validateSchemaTypes(specs: [string, ColumnSpec][], context: string): void {
+  const types = Object.keys(COLUMN_TYPES);
+
+  for (const [column, spec] of specs) {
+    if (spec.type !== undefined && !types.includes(spec.type)) {
+      const similar = findSimilarKey(spec.type, types);
+      throw new Error(
+        `Unknown type '${spec.type}' for column '${column}' in the schema of "${context}"\n` +
+        (similar ? `💡 Did you mean '${similar}'?\n` : '') +
+        `Available types: ${types.join(', ')}`
+      );
+    }
+  }
+}
+
+/**
+ * Checks a single value against a column spec
+ *
+ * @returns What is wrong and suggested fixes, or undefined when the value is valid
+ */
+function checkValue(
+  value: unknown,
+  spec: ColumnSpec,
+  testCase: Record<string, any>
+): { reason: string; suggestions: string[] } | undefined {
+  if (value == null && spec.nullable) {
+    return undefined;
+  }
+
+  if (spec.type !== undefined && !COLUMN_TYPES[spec.type].matches(value)) {
+    return { reason: `expected ${COLUMN_TYPES[spec.type].label}`, suggestions: [] };
+  }
+
+  if (spec.oneOf !== undefined && !spec.oneOf.some(allowed => Object.is(allowed, value))) {
+    const similar = typeof value === 'string'
+      ? findSimilarKey(value, spec.oneOf.filter((allowed): allowed is string => typeof allowed === 'string'))
+      : undefined;
+    return {
+      reason: `expected one of ${spec.oneOf.map(describeValue).join(', ')}`,
+      suggestions: similar === undefined ? [] : [`Did you mean ${describeValue(similar)}?`]
+    };
+  }
+
+  if (spec.min !== undefined || spec.max !== undefined) {
+    if (typeof value !== 'number' && typeof value !== 'bigint') {
+      return { reason: 'expected a number', suggestions: [] };
+    }
+    const tooSmall = spec.min !== undefined && value < spec.min;
+    const tooLarge = spec.max !== undefined && value > spec.max;
+    if (tooSmall || tooLarge) {
+      const range = spec.min !== undefined && spec.max !== undefined
+        ? `between ${spec.min} and ${spec.max}`
+        : spec.min !== undefined ? `at least ${spec.min}` : `at most ${spec.max}`;
+      return { reason: `expected ${range}`, suggestions: [] };
+    }
+  }
+
+  if (spec.validate !== undefined) {
+    let result: boolean | string | void;
+    try {
+      result = spec.validate(value, testCase);
+    } catch (error) {
+      result = error instanceof Error ? error.message : String(error);
+    }
+    if (result === false) {
+      return { reason: 'failed validation', suggestions: [] };
+    }
+    if (typeof result === 'string') {
+      return { reason: result, suggestions: [] };
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Finds every case value that breaks the schema
+ *
+ * Columns the schema doesn't mention are not checked. A case without a schema column is
+ * reported unless the column is `optional`; `null`/`undefined` values only pass with `nullable`.
+ *
+ * @param rows - Test cases in object format
+ * @param schema - Rules per column
+ * @param context - Context string for error messages (e.g., template name)
+ * @returns Problems in case order (empty when every case matches)
+ * @throws If the schema itself is invalid (unknown type, rule of the wrong kind)
+ *
+ * @example
+ * ```ts
+ * findSchemaViolations([{ qty: 1 }, { qty: 0 }], { qty: { type: 'integer', min: 1 } }, 'orders $qty')
+ * // [{ index: 1, problem: "column 'qty' is 0: expected at least 1", suggestions: [] }]
+ * ```
+ */
+export const findSchemaViolations = (
+  rows: Record<string, any>[],
+  schema: CaseSchema,
+  context: string
+): RowProblem[] => {
+  const specs = Object.entries(schema).map(([column, rule]): [string, ColumnSpec] => [column, toSpec(rule, column, context)]);
+  validateSchemaTypes(specs, context);
+
+  return rows.flatMap((row, index) => specs.flatMap(([column, spec]): RowProblem[] => {
+    if (!(column in row)) {
+      return spec.optional ? [] : [{ index, problem: `column '${column}' is missing`, suggestions: [] }];
+    }
+
+    const violation = checkValue(row[column], spec, row);
+    return violation === undefined
+      ? []
+      : [{ index, problem: `column '${column}' is ${describeValue(row[column])}: ${violation.reason}`, suggestions: violation.suggestions }];
+  }));
+};
+
+/**
+ * Validates every case against a schema
+ *
+ * @param rows - Test cases in object format
+ * @param schema - Rules per column
+ * @param context - Context string for error messages (e.g., template name)
+ * @throws For the first case value that breaks the schema, or if the schema itself is invalid
+ */
+export const validateCaseSchema = (
+  rows: Record<string, any>[],
+  schema: CaseSchema,
+  context: string
+): void => {
+  const [first] = findSchemaViolations(rows, schema, context);
+  if (!first) {
+    return;
+  }
+
+  throw new Error(
+    `Schema violation in "${context}":\n` +
+    `  Test case ${first.index}: ${first.problem}` +
+    first.suggestions.map(suggestion => `\n  💡 ${suggestion}`).join('')
+  );
+};
@@ -0,0 +1,142 @@
+/**
+ * Column value type drift validator
+ * @module parameterized-testing/formatters/validate-column-types
+ */
+
+import { RESERVED_KEYS } from '../runner/types';
+import type { RowProblem } from './format-validation-report';
+import { formatValue } from './format-value';
+
+/**
+ * Options for {@link findColumnTypeDrift} and {@link validateColumnTypes}
+ */
+export interface ColumnTypeOptions {
+  /** Columns that mix value types on purpose */
+  mixedColumns?: readonly string[];
+  /** Whether `null` and `undefined` match any type (default: true) */
+  nullishMatchesAnyType?: boolean;
+}
+
+/**
+ * Runtime type of a value as shown in messages, with its article
+ */
+function describeType(value: unknown): string {
+  if (value === null) return 'null';
+  if (value === undefined) return 'undefined';
+  if (Array.isArray(value)) return 'an array';
+  if (value instanceof Date) return 'a Date';
+
+  const type = typeof value;
+  return type === 'object' ? 'an object' : `a ${type}`;
+}
+
+/**
+ * Converts a value to the type most cases of its column have, when that loses nothing
+ *
+ * @returns The converted value, or undefined when there is no obvious conversion
+ */
+function convertTo(value: unknown, type: string): { value: unknown } | undefined {
+  if (type === 'a number' && typeof value === 'string' && value.trim() !== '' && Number.isFinite(Number(value))) {
+    return { value: Number(value) };
+  }
+  if (type === 'a boolean' && (value === 'true' || value === 'false')) {
+    return { value: value === 'true' };
+  }
+  if (type === 'a string' && ['number', 'boolean', 'bigint'].includes(typeof value)) {
+    return { value: String(value) };
+  }
+  if (type === 'a bigint' && Number.isInteger(value)) {
+    return { value: BigInt(value as number) };
+  }
+  return undefined;
+}
+
+/**
+ * Finds cases whose value in a column has a different type than in most other cases
+ *
+ * The type of a column is the one most of its cases have (ties go to the earliest case);
+ * every other case is reported with the value converted to that type as a hint, when possible.
+ * Reserved keys, absent keys and `options.mixedColumns` are not checked, and `null`/`undefined`
+ * match any type unless `options.nullishMatchesAnyType` is false.
+ *
+ * @param rows - Test cases in object format
+ * @param options - Mixed columns and nullish handling
+ * @returns Problems of the drifting cases, in case order
+ *
+ * @example
+ * ```ts
+ * findColumnTypeDrift([{ expected: 5 }, { expected: 6 }, { expected: '7' }])
+ * // [{ index: 2, problem: `'expected' is a string ("7"), but a number in 2 other cases`, suggestions: ['Did you mean 7?'] }]
+ * ```
+ */
+export const findColumnTypeDrift = (rows: Record<string, any>[], options: ColumnTypeOptions = {}): RowProblem[] => {
+  const mixed = new Set(options.mixedColumns ?? []);
+  const nullishMatchesAnyType = options.nullishMatchesAnyType ?? true;
+  const columns = new Set(rows.flatMap(row => Object.keys(row)));
+  const problems: RowProblem[] = [];
+
+  for (const column of columns) {
+    if (RESERVED_KEYS.has(column) || mixed.has(column)) {
+      continue;
+    }
+
+    const typed = rows
+      .map((row, index) => ({ index, value: row[column], present: column in row }))
+      .filter(({ value, present }) => present && !(nullishMatchesAnyType && value == null))
+      .map(entry => ({ ...entry, type: describeType(entry.value) }));
+
+    // Map keeps insertion order, so ties go to the type of the earliest case
+    const counts = new Map<string, number>();
+    typed.forEach(({ type }) => counts.set(type, (counts.get(type) ?? 0) + 1));
+    if (counts.size < 2) {
+      continue;
+    }
+
+    const [columnType, count] = Array.from(counts).reduce((best, entry) => entry[1] > best[1] ? entry : best);
+
+    for (const { index, value, type } of typed) {
+      if (type === columnType) {
+        continue;
+      }
+
+      const converted = convertTo(value, columnType);
+      problems.push({
+        index,
+        problem: `'${column}' is ${type} (${formatValue(value, { quoteStrings: true, maxValueLength: 40 })}), ` +
+          `but ${columnType} in ${count} other case${count === 1 ? '' : 's'}`,
+        suggestions: converted ? [`Did you mean ${formatValue(converted.value, { quoteStrings: true, maxValueLength: 40 })}?`] : []
+      });
+    }
+  }
+
+  return problems.sort((a, b) => a.index - b.index);
+};
+
+/**
+ * Validates that every column has values of one type across cases
+ *
+ * Catches copy-paste bugs such as `expected: '5'` among numbers. See {@link findColumnTypeDrift}
+ * for what is checked.
+ *
+ * @param rows - Test cases in object format
+ * @param context - Context string for error messages (e.g., template name)
+ * @param options - Mixed columns and nullish handling
+ * @throws For the first case whose value has a different type than most others in its column
+ */
+export const validateColumnTypes = (
+  rows: Record<string, any>[],
+  context: string,
+  options: ColumnTypeOptions = {}
+): void => {
+  const [first] = findColumnTypeDrift(rows, options);
+  if (!first) {
+    return;
+  }
+
+  throw new Error(
+    `Inconsistent column types in "${context}":\n` +
+    `  Test case ${first.index}: ${first.problem}\n` +
+    first.suggestions.map(suggestion => `  💡 ${suggestion}\n`).join('') +
+    `Declare columns that mix types on purpose with the 'mixedColumns' option of .where().`
+  );
+};
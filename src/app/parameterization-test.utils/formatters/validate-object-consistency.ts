@@ -3,6 +3,9 @@
  * @module parameterized-testing/formatters/validate-object-consistency
  */
 
+import { RESERVED_KEYS } from '../runner/types';
+import type { RowProblem } from './format-validation-report';
+
 /**
  * Calculates Levenshtein distance between two strings
  */
@@ -33,16 +36,68 @@ function levenshteinDistance(a: string, b: string): number {
   return matrix[b.length][a.length];
 }
 
+/**
+ * Similarity of two keys from 0 (unrelated) to 1 (identical), based on Levenshtein distance
+ */
+function keySimilarity(a: string, b: string): number {
+  const distance = levenshteinDistance(a, b);
+  const maxLen = Math.max(a.length, b.length);
+  return maxLen === 0 ? 1 : 1 - distance / maxLen;
+}
+
+/**
+ * Finds the candidate key a (probably mistyped) key was most likely meant to be
+ *
+ * Uses the same threshold as the consistency validator: more than 60% similar.
+ *
+ * @param key - Key that was not found
+ * @param candidates - Keys that exist
+ * @returns The most similar candidate, or undefined when none is similar enough
+ *
+ * @example
+ * ```ts
+ * findSimilarKey('expceted', ['a', 'b', 'expected']) // 'expected'
+ * findSimilarKey('zzz', ['a', 'b'])                  // undefined
+ * ```
+ */
+export function findSimilarKey(key: string, candidates: string[]): string | undefined {
+  // Skip extremely long property names (unlikely to be simple typos, prevents worst-case performance)
+  if (key.length > 50) return undefined;
+
+  let best: string | undefined;
+  let bestSimilarity = 0.6;
+
+  for (const candidate of candidates) {
+    if (candidate.length > 50) continue;
+
+    const similarity = keySimilarity(key, candidate);
+    if (similarity > bestSimilarity) {
+      best = candidate;
+      bestSimilarity = similarity;
+    }
+  }
+
+  return best;
+}
+
 /**
  * Generates helpful suggestions for fixing inconsistent keys
  */
 function generateSuggestions(
   missing: string[],
   unexpected: string[],
-  actualKeys: string[]
-): string {
+  optionalKeys: ReadonlySet<string>
+): string[] {
   const suggestions: string[] = [];
 
+  // Suggest declared optional keys for mistyped ones (missing keys are mistyped in the first case)
+  for (const key of [...unexpected, ...missing]) {
+    const optionalKey = findSimilarKey(key, Array.from(optionalKeys));
+    if (optionalKey !== undefined) {
+      suggestions.push(`Did you mean optional key '${optionalKey}' instead of '${key}'?`);
+    }
+  }
+
   // Suggest typo fixes for unexpected keys
   for (const unexpectedKey of unexpected) {
     // Skip extremely long property names (unlikely to be simple typos, prevents worst-case performance)
@@ -52,13 +107,9 @@ function generateSuggestions(
       // Skip extremely long property names
       if (missingKey.length > 50) continue;
 
-      const distance = levenshteinDistance(unexpectedKey, missingKey);
-      const maxLen = Math.max(unexpectedKey.length, missingKey.length);
-      const similarity = 1 - distance / maxLen;
-
       // If keys are >60% similar, suggest it might be a typo
-      if (similarity > 0.6) {
-        suggestions.push(`  💡 Did you mean '${missingKey}' instead of '${unexpectedKey}'?`);
+      if (keySimilarity(unexpectedKey, missingKey) > 0.6) {
+        suggestions.push(`Did you mean '${missingKey}' instead of '${unexpectedKey}'?`);
       }
     }
   }
@@ -66,22 +117,95 @@ function generateSuggestions(
   // Suggest adding missing keys
   if (missing.length > 0 && suggestions.length === 0) {
     const keysStr = missing.map(k => `'${k}'`).join(', ');
-    suggestions.push(`  💡 Add ${missing.length === 1 ? 'property' : 'properties'} ${keysStr} to this test case`);
+    suggestions.push(`Add ${missing.length === 1 ? 'property' : 'properties'} ${keysStr} to this test case`);
   }
 
   // Suggest removing unexpected keys
   if (unexpected.length > 0 && suggestions.length === 0) {
     const keysStr = unexpected.map(k => `'${k}'`).join(', ');
-    suggestions.push(`  💡 Remove ${unexpected.length === 1 ? 'property' : 'properties'} ${keysStr} from this test case`);
+    suggestions.push(`Remove ${unexpected.length === 1 ? 'property' : 'properties'} ${keysStr} from this test case`);
+  }
+
+  return suggestions;
+}
+
+/**
+ * Inconsistency of a row with the first one
+ */
+interface RowInconsistency extends RowProblem {
+  expectedKeys: string[];
+  actualKeys: string[];
+}
+
+/**
+ * Compares the keys of every row with those of the first row
+ *
+ * Reserved keys (_timeout, _skip, ...) and declared optional keys don't need to be consistent.
+ *
+ * @returns Inconsistencies in row order
+ */
+function compareRowKeys(
+  rows: Record<string, any>[],
+  optionalKeys: ReadonlySet<string>,
+  firstOnly: boolean
+): RowInconsistency[] {
+  if (rows.length === 0) {
+    return [];
+  }
+
+  const isChecked = (key: string) => !RESERVED_KEYS.has(key) && !optionalKeys.has(key);
+  const firstKeys = Object.keys(rows[0]).filter(isChecked);
+  const inconsistencies: RowInconsistency[] = [];
+
+  for (let index = 1; index < rows.length && !(firstOnly && inconsistencies.length > 0); index++) {
+    const rowKeys = Object.keys(rows[index]).filter(isChecked);
+    const missing = firstKeys.filter(key => !rowKeys.includes(key));
+    const unexpected = rowKeys.filter(key => !firstKeys.includes(key));
+
+    if (missing.length > 0 || unexpected.length > 0) {
+      const parts: string[] = [];
+
+      if (missing.length > 0) {
+        parts.push(`missing: ${missing.map(k => `'${k}'`).join(', ')}`);
+      }
+      if (unexpected.length > 0) {
+        parts.push(`unexpected: ${unexpected.map(k => `'${k}'`).join(', ')}`);
+      }
+
+      inconsistencies.push({
+        index,
+        problem: parts.join('; '),
+        suggestions: generateSuggestions(missing, unexpected, optionalKeys),
+        expectedKeys: firstKeys,
+        actualKeys: rowKeys
+      });
+    }
   }
 
-  return suggestions.length > 0 ? suggestions.join('\n') : '';
+  return inconsistencies;
+}
+
+/**
+ * Finds every object whose keys differ from those of the first object
+ *
+ * Unlike {@link validateObjectConsistency}, doesn't stop at the first inconsistent object.
+ *
+ * @param rows - Array of objects to check
+ * @param optionalKeys - Keys that may be absent from some objects
+ * @returns Problems of the inconsistent objects, in order (empty when all are consistent)
+ */
+export function findInconsistentRows(
+  rows: Record<string, any>[],
+  optionalKeys: ReadonlySet<string> = new Set()
+): RowProblem[] {
+  return compareRowKeys(rows, optionalKeys, false).map(({ index, problem, suggestions }) => ({ index, problem, suggestions }));
 }
 
 /**
  * Validates that all objects in a dataset have consistent keys
  *
  * Throws an error if any object has different keys than the first object.
+ * Reserved keys and the given optional keys may be present on some objects only.
  * This ensures:
  * - All test cases have the same structure
  * - No typos in property names
@@ -89,6 +213,7 @@ function generateSuggestions(
  *
  * @param rows - Array of objects to validate
  * @param context - Context string for error messages (e.g., template name)
+ * @param optionalKeys - Keys that may be absent from some objects (e.g. from `optional`/`defaults` of `.where()`)
  * @throws Error if any object has inconsistent keys
  *
  * @example
@@ -97,70 +222,34 @@ function generateSuggestions(
  *   {a: 1, b: 2},
  *   {a: 3, c: 4}  // Throws: missing 'b', unexpected 'c'
  * ], 'test $a $b');
+ *
+ * validateObjectConsistency([
+ *   {a: 1, mock: 'x'},
+ *   {a: 3}         // OK: 'mock' is optional
+ * ], 'test $a', new Set(['mock']));
  * ```
  */
 export function validateObjectConsistency(
   rows: Record<string, any>[],
-  context: string = 'object data'
+  context: string = 'object data',
+  optionalKeys: ReadonlySet<string> = new Set()
 ): void {
-  if (rows.length === 0) {
+  // Throw on first inconsistency for fail-fast behavior
+  const [first] = compareRowKeys(rows, optionalKeys, true);
+  if (!first) {
     return;
   }
 
-  // Filter out reserved optional properties that don't need to be consistent
-  const RESERVED_OPTIONAL_KEYS = new Set(['_timeout']);
-
-  const firstKeys = new Set(
-    Object.keys(rows[0]).filter(key => !RESERVED_OPTIONAL_KEYS.has(key))
+  const expectedKeys = first.expectedKeys.map(k => `'${k}'`).join(', ');
+  const actualKeys = first.actualKeys.map(k => `'${k}'`).join(', ');
+
+  throw new Error(
+    `Inconsistent test data in "${context}":\n` +
+    `  Test case ${first.index} has ${first.problem}\n` +
+    `  Expected keys: [${expectedKeys}]\n` +
+    `  Actual keys:   [${actualKeys}]\n\n` +
+    first.suggestions.map(suggestion => `  💡 ${suggestion}`).join('\n') +
+    `\nAll test cases must have the same object structure ` +
+    `(declare keys only some cases have with the 'optional' or 'defaults' option of .where()).`
   );
-
-  for (let index = 1; index < rows.length; index++) {
-    const row = rows[index];
-    const rowKeys = new Set(
-      Object.keys(row).filter(key => !RESERVED_OPTIONAL_KEYS.has(key))
-    );
-    const missing: string[] = [];
-    const unexpected: string[] = [];
-
-    // Check for missing keys (ignoring reserved optional keys)
-    for (const key of firstKeys) {
-      if (!rowKeys.has(key)) {
-        missing.push(key);
-      }
-    }
-
-    // Check for unexpected keys (ignoring reserved optional keys)
-    for (const key of rowKeys) {
-      if (!firstKeys.has(key)) {
-        unexpected.push(key);
-      }
-    }
-
-    // Throw on first inconsistency for fail-fast behavior
-    if (missing.length > 0 || unexpected.length > 0) {
-      const parts: string[] = [];
-
-      if (missing.length > 0) {
-        parts.push(`missing: ${missing.map(k => `'${k}'`).join(', ')}`);
-      }
-      if (unexpected.length > 0) {
-        parts.push(`unexpected: ${unexpected.map(k => `'${k}'`).join(', ')}`);
-      }
-
-      const expectedKeys = Array.from(firstKeys).map(k => `'${k}'`).join(', ');
-      const actualKeys = Array.from(rowKeys).map(k => `'${k}'`).join(', ');
-
-      // Generate helpful suggestions
-      const suggestions = generateSuggestions(missing, unexpected, Array.from(rowKeys));
-
-      throw new Error(
-        `Inconsistent test data in "${context}":\n` +
-        `  Test case ${index} has ${parts.join('; ')}\n` +
-        `  Expected keys: [${expectedKeys}]\n` +
-        `  Actual keys:   [${actualKeys}]\n\n` +
-        suggestions +
-        `\nAll test cases must have the same object structure.`
-      );
-    }
-  }
 }
@@ -0,0 +1,224 @@
+/**
+ * Built-in arbitraries for property-based tests
+ * @module parameterized-testing/generators/arbitraries
+ */
+
+import type { Arbitrary, Shrinkable } from '../runner/types';
+
+/** Characters used by arb.string() by default; shrinking moves towards the front */
+const DEFAULT_CHARS = 'abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789 !"#$%&\'()*+,-./:;<=>?@[\\]^_`{|}~';
+
+/**
+ * Value without smaller variants
+ */
+const leaf = <T>(value: T): Shrinkable<T> => ({ value, shrink: () => [] });
+
+/**
+ * Applies a function to every value of a shrink tree
+ */
+const mapShrinkable = <T, U>(tree: Shrinkable<T>, fn: (value: T) => U): Shrinkable<U> => ({
+  value: fn(tree.value),
+  shrink: () => tree.shrink().map(child => mapShrinkable(child, fn))
+});
+
+/**
+ * Shrink tree of an integer moving towards `target`
+ *
+ * Candidates: the target itself, then halving the distance (value - d/2, value - d/4, ..., value ∓ 1).
+ */
+const shrinkInt = (value: number, target: number): Shrinkable<number> => ({
+  value,
+  shrink: () => {
+    if (value === target) return [];
+
+    const candidates = [target];
+    for (let delta = Math.trunc((value - target) / 2); delta !== 0; delta = Math.trunc(delta / 2)) {
+      candidates.push(value - delta);
+    }
+
+    return candidates
+      .filter((candidate, i) => candidate !== value && candidates.indexOf(candidate) === i)
+      .map(candidate => shrinkInt(candidate, target));
+  }
+});
+
+/**
+ * Shrink tree of an array: first drop chunks of elements, then shrink single elements
+ */
+const shrinkArray = <T>(items: Shrinkable<T>[], minLength: number): Shrinkable<T[]> => ({
+  value: items.map(item => item.value),
+  shrink: () => {
+    const candidates: Shrinkable<T[]>[] = [];
+
+    // Remove chunks, largest first: whole removable tail, halves, quarters, ..., single elements
+    for (let chunk = items.length - minLength; chunk > 0; chunk = Math.floor(chunk / 2)) {
+      for (let start = 0; start + chunk <= items.length; start += chunk) {
+        candidates.push(shrinkArray([...items.slice(0, start), ...items.slice(start + chunk)], minLength));
+      }
+    }
+
+    items.forEach((item, i) => {
+      for (const smaller of item.shrink()) {
+        candidates.push(shrinkArray([...items.slice(0, i), smaller, ...items.slice(i + 1)], minLength));
+      }
+    });
+
+    return candidates;
+  }
+});
+
+/**
+ * Shrink tree of a record: shrinks one field at a time
+ */
+const shrinkRecord = <T extends Record<string, any>>(fields: { [K in keyof T]: Shrinkable<T[K]> }): Shrinkable<T> => ({
+  value: Object.keys(fields).reduce((record, key) => {
+    record[key] = fields[key].value;
+    return record;
+  }, {} as Record<string, any>) as T,
+  shrink: () => {
+    const candidates: Shrinkable<T>[] = [];
+    for (const key of Object.keys(fields) as (keyof T)[]) {
+      for (const smaller of fields[key].shrink()) {
+        candidates.push(shrinkRecord<T>({ ...fields, [key]: smaller }));
+      }
+    }
+    return candidates;
+  }
+});
+
+/**
+ * Validates integer bounds shared by several arbitraries
+ */
+function assertRange(name: string, min: number, max: number): void {
+  if (!Number.isInteger(min) || !Number.isInteger(max) || min > max) {
+    throw new Error(
+      `${name} requires integer bounds with min <= max, received: min=${min}, max=${max}`
+    );
+  }
+}
+
+/**
+ * Built-in arbitraries
+ *
+ * Every arbitrary generates values from a seeded random source together with a shrink tree,
+ * so a failing case can be reduced to a minimal counterexample - also through `oneOf`,
+ * `array` and `record`, which remember how each value was built.
+ *
+ * @example
+ * ```ts
+ * iprop('sorting $xs is idempotent', (tc) => {
+ *   const once = [...tc.xs].sort();
+ *   return JSON.stringify([...once].sort()) === JSON.stringify(once);
+ * }).forAll({ xs: arb.array(arb.int(-10, 10)) });
+ * ```
+ */
+export const arb = {
+  /**
+   * Integers in [min, max] (inclusive), shrinking towards 0 (or the bound closest to it)
+   *
+   * Bounds and 0 are generated more often than other values, since they find most bugs.
+   */
+  int: (min: number = -1000, max: number = 1000): Arbitrary<number> => {
+    assertRange('arb.int()', min, max);
+    const target = Math.min(Math.max(0, min), max);
+
+    return {
+      generate: (random) => {
+        const special = random.next() < 0.15;
+        const value = special ? random.pick([min, max, target]) : random.int(min, max);
+        return shrinkInt(value, target);
+      }
+    };
+  },
+
+  /**
+   * Booleans, shrinking `true` to `false`
+   */
+  boolean: (): Arbitrary<boolean> => ({
+    generate: (random) => {
+      const value = random.next() < 0.5;
+      return value ? { value, shrink: () => [leaf(false)] } : leaf(false);
+    }
+  }),
+
+  /**
+   * Always the same value (never shrinks)
+   */
+  constant: <T>(value: T): Arbitrary<T> => ({
+    generate: () => leaf(value)
+  }),
+
+  /**
+   * Strings built from `chars`, shrinking by removing characters and moving
+   * the remaining ones towards the first character of `chars`
+   */
+  string: (options: { minLength?: number; maxLength?: number; chars?: string } = {}): Arbitrary<string> => {
+    const { minLength = 0, maxLength = 20, chars = DEFAULT_CHARS } = options;
+    assertRange('arb.string()', minLength, maxLength);
+    if (chars.length === 0) {
+      throw new Error('arb.string() requires at least one character in chars');
+    }
+
+    const charArbitrary: Arbitrary<string> = {
+      generate: (random) => mapShrinkable(shrinkInt(random.int(0, chars.length - 1), 0), i => chars[i])
+    };
+
+    return {
+      generate: (random, size) =>
+        mapShrinkable(
+          arb.array(charArbitrary, { minLength, maxLength }).generate(random, size),
+          charList => charList.join('')
+        )
+    };
+  },
+
+  /**
+   * Arrays of `item` values; the length is bounded by `maxLength` and the size hint
+   */
+  array: <T>(item: Arbitrary<T>, options: { minLength?: number; maxLength?: number } = {}): Arbitrary<T[]> => {
+    const { minLength = 0, maxLength = 20 } = options;
+    assertRange('arb.array()', minLength, maxLength);
+
+    return {
+      generate: (random, size) => {
+        const length = random.int(minLength, Math.max(minLength, Math.min(maxLength, size)));
+        const items = Array.from({ length }, () => item.generate(random, size));
+        return shrinkArray(items, minLength);
+      }
+    };
+  },
+
+  /**
+   * Objects with one generated value per key, shrinking one field at a time
+   */
+  record: <T extends Record<string, any>>(fields: { [K in keyof T]: Arbitrary<T[K]> }): Arbitrary<T> => {
+    if (!fields || typeof fields !== 'object' || Array.isArray(fields)) {
+      throw new Error(
+        `arb.record() requires an object of key → arbitrary, received: ${Array.isArray(fields) ? 'array' : typeof fields}`
+      );
+    }
+
+    return {
+      generate: (random, size) => {
+        const generated = {} as { [K in keyof T]: Shrinkable<T[K]> };
+        for (const key of Object.keys(fields) as (keyof T)[]) {
+          generated[key] = fields[key].generate(random, size);
+        }
+        return shrinkRecord<T>(generated);
+      }
+    };
+  },
+
+  /**
+   * Value from one of the given arbitraries (picked uniformly), shrinking within that arbitrary
+   */
+  oneOf: <T>(...arbitraries: Arbitrary<T>[]): Arbitrary<T> => {
+    if (arbitraries.length === 0) {
+      throw new Error('arb.oneOf() requires at least one arbitrary');
+    }
+
+    return {
+      generate: (random, size) => random.pick(arbitraries).generate(random, size)
+    };
+  }
+};
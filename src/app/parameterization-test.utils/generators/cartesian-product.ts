@@ -0,0 +1,87 @@
+/**
+ * Cartesian product case generator
+ * @module parameterized-testing/generators/cartesian-product
+ */
+
+import type { Dimensions, TestCase, TestSuite } from '../runner/types';
+
+/**
+ * Validates a dimension map and returns its entries
+ *
+ * @param dimensions - Map of dimension name to candidate values
+ * @param context - Context string for error messages (e.g., template name)
+ * @returns Dimension entries in declaration order
+ * @throws If dimensions is not an object, is empty, or has a dimension without values
+ */
+export function getDimensionEntries(
+  dimensions: Dimensions,
+  context: string = 'dimension data'
+): [string, readonly any[]][] {
+  if (!dimensions || typeof dimensions !== 'object' || Array.isArray(dimensions)) {
+    throw new Error(
+      `Dimensions must be an object of name → values for "${context}", received: ${Array.isArray(dimensions) ? 'array' : typeof dimensions}`
+    );
+  }
+
+  const entries = Object.entries(dimensions);
+
+  if (entries.length === 0) {
+    throw new Error(
+      `Dimensions for "${context}" must declare at least one dimension`
+    );
+  }
+
+  for (const [name, values] of entries) {
+    if (!Array.isArray(values) || values.length === 0) {
+      throw new Error(
+        `Dimension '${name}' for "${context}" must be a non-empty array of values, received: ${Array.isArray(values) ? 'empty array' : typeof values}`
+      );
+    }
+  }
+
+  return entries;
+}
+
+/**
+ * Generates every combination of the given dimension values
+ *
+ * The first dimension varies slowest, like nested loops written in declaration order.
+ * Combinations rejected by `exclude` are dropped before any test is registered.
+ *
+ * @param dimensions - Map of dimension name to candidate values
+ * @param exclude - Optional predicate returning true for invalid combinations
+ * @param context - Context string for error messages (e.g., template name)
+ * @returns One test case per (non-excluded) combination
+ * @throws If the dimension map is invalid (see {@link getDimensionEntries})
+ *
+ * @example
+ * ```ts
+ * cartesianProduct({ locale: ['en', 'de'], currency: ['USD', 'EUR'] })
+ * // returns [
+ * //   {locale: 'en', currency: 'USD'},
+ * //   {locale: 'en', currency: 'EUR'},
+ * //   {locale: 'de', currency: 'USD'},
+ * //   {locale: 'de', currency: 'EUR'}
+ * // ]
+ * ```
+ */
+export const cartesianProduct = (
+  dimensions: Dimensions,
+  exclude?: (combination: TestCase) => boolean,
+  context?: string
+): TestSuite => {
+  const entries = getDimensionEntries(dimensions, context);
+  let combinations: TestCase[] = [{}];
+
+  for (const [name, values] of entries) {
+    const next: TestCase[] = [];
+    for (const partial of combinations) {
+      for (const value of values) {
+        next.push({ ...partial, [name]: value });
+      }
+    }
+    combinations = next;
+  }
+
+  return exclude ? combinations.filter(combination => !exclude(combination)) : combinations;
+};
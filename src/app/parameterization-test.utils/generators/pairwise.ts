@@ -0,0 +1,194 @@
+/**
+ * Pairwise (all-pairs) case generator
+ * @module parameterized-testing/generators/pairwise
+ */
+
+import type {
+  Dimensions,
+  TestCase,
+  PairwiseOptions,
+  PairwiseCoverage,
+  PairwiseSuite
+} from '../runner/types';
+import { getDimensionEntries } from './cartesian-product';
+import { createSeededRandom } from './seeded-random';
+
+/** Seed used when none is given, so the case set is stable across runs */
+const DEFAULT_SEED = 1;
+
+/** Candidate cases built per step; the one covering most new pairs wins */
+const CANDIDATES_PER_CASE = 20;
+
+/**
+ * Key identifying a value pair by dimension and value indices (first dimension < second)
+ */
+const pairKey = (dimA: number, valueA: number, dimB: number, valueB: number): string =>
+  `${dimA}:${valueA}|${dimB}:${valueB}`;
+
+/**
+ * Counts how many uncovered pairs a (partial) case would cover
+ */
+function countNewPairs(candidate: (number | undefined)[], uncovered: Set<string>): number {
+  let count = 0;
+  for (let a = 0; a < candidate.length; a++) {
+    if (candidate[a] === undefined) continue;
+    for (let b = a + 1; b < candidate.length; b++) {
+      if (candidate[b] === undefined) continue;
+      if (uncovered.has(pairKey(a, candidate[a]!, b, candidate[b]!))) count++;
+    }
+  }
+  return count;
+}
+
+/**
+ * Counts the uncovered pairs that assigning `value` to `dim` would add
+ */
+function countPairsForValue(
+  candidate: (number | undefined)[],
+  dim: number,
+  value: number,
+  uncovered: Set<string>
+): number {
+  let count = 0;
+  for (let other = 0; other < candidate.length; other++) {
+    const otherValue = candidate[other];
+    if (other === dim || otherValue === undefined) continue;
+    const key = other < dim
+      ? pairKey(other, otherValue, dim, value)
+      : pairKey(dim, value, other, otherValue);
+    if (uncovered.has(key)) count++;
+  }
+  return count;
+}
+
+/**
+ * Generates a small set of cases covering every pair of values across any two dimensions
+ *
+ * Greedy all-pairs construction: each new case starts from an uncovered pair and fills the
+ * remaining dimensions with the value that covers most still-uncovered pairs. Several
+ * candidates are built per step and the best one is kept. Ties are broken with a seeded
+ * random source, so the same dimensions and seed always yield the same cases.
+ *
+ * The returned array can be passed straight to `.where()`. Its non-enumerable `coverage`
+ * property reports pairs covered vs. total and the size of the full product; `.where()` logs
+ * its summary with `console.info`, or `console.warn` when `maxCases` leaves pairs uncovered.
+ *
+ * @param dimensions - Map of dimension name to candidate values
+ * @param options - Optional seed and case limit
+ * @returns Test cases with a `coverage` report
+ * @throws If the dimension map is invalid or maxCases is not a positive integer
+ *
+ * @example
+ * ```ts
+ * const cases = pairwise({
+ *   browser: ['chrome', 'firefox', 'safari'],
+ *   os: ['linux', 'mac', 'windows'],
+ *   locale: ['en', 'de', 'fr']
+ * }, { seed: 42 });
+ *
+ * iit('renders on $browser/$os in $locale', (tc) => { ... }).where(cases);
+ * // Logs: Test cases for template "renders on $browser/$os in $locale":
+ * //   pairwise: 10 cases cover 27/27 pairs (100%) - full product: 27
+ * ```
+ */
+export const pairwise = (dimensions: Dimensions, options: PairwiseOptions = {}): PairwiseSuite => {
+  const entries = getDimensionEntries(dimensions, 'pairwise');
+  const { seed = DEFAULT_SEED, maxCases = Infinity } = options;
+
+  if (maxCases !== Infinity && (!Number.isInteger(maxCases) || maxCases < 1)) {
+    throw new Error(`Pairwise maxCases must be a positive integer, received: ${maxCases}`);
+  }
+
+  const random = createSeededRandom(seed);
+  const sizes = entries.map(([, values]) => values.length);
+
+  const uncovered = new Set<string>();
+  for (let a = 0; a < sizes.length; a++) {
+    for (let b = a + 1; b < sizes.length; b++) {
+      for (let va = 0; va < sizes[a]; va++) {
+        for (let vb = 0; vb < sizes[b]; vb++) {
+          uncovered.add(pairKey(a, va, b, vb));
+        }
+      }
+    }
+  }
+  const totalPairs = uncovered.size;
+
+  const chosen: number[][] = [];
+
+  if (sizes.length === 1) {
+    // No pairs to cover - one case per value keeps every value exercised
+    for (let v = 0; v < sizes[0] && chosen.length < maxCases; v++) {
+      chosen.push([v]);
+    }
+  }
+
+  while (uncovered.size > 0 && chosen.length < maxCases) {
+    const uncoveredKeys = Array.from(uncovered);
+    let best: number[] = [];
+    let bestScore = -1;
+
+    for (let c = 0; c < CANDIDATES_PER_CASE; c++) {
+      const candidate: (number | undefined)[] = new Array(sizes.length).fill(undefined);
+
+      // Seed the candidate with an uncovered pair so every step makes progress
+      const [first, second] = random.pick(uncoveredKeys).split('|').map(part => part.split(':').map(Number));
+      candidate[first[0]] = first[1];
+      candidate[second[0]] = second[1];
+
+      const remaining = sizes.map((_, dim) => dim).filter(dim => candidate[dim] === undefined);
+      for (const dim of random.shuffle(remaining)) {
+        let bestValues: number[] = [];
+        let bestCount = -1;
+        for (let value = 0; value < sizes[dim]; value++) {
+          const count = countPairsForValue(candidate, dim, value, uncovered);
+          if (count > bestCount) {
+            bestCount = count;
+            bestValues = [value];
+          } else if (count === bestCount) {
+            bestValues.push(value);
+          }
+        }
+        candidate[dim] = random.pick(bestValues);
+      }
+
+      const score = countNewPairs(candidate, uncovered);
+      if (score > bestScore) {
+        bestScore = score;
+        best = candidate as number[];
+      }
+    }
+
+    for (let a = 0; a < best.length; a++) {
+      for (let b = a + 1; b < best.length; b++) {
+        uncovered.delete(pairKey(a, best[a], b, best[b]));
+      }
+    }
+    chosen.push(best);
+  }
+
+  const cases: TestCase[] = chosen.map(valueIndices => {
+    const testCase: TestCase = {};
+    entries.forEach(([name, values], dim) => {
+      testCase[name] = values[valueIndices[dim]];
+    });
+    return testCase;
+  });
+
+  const coveredPairs = totalPairs - uncovered.size;
+  const fullProduct = sizes.reduce((product, size) => product * size, 1);
+  const percent = totalPairs === 0 ? 100 : Math.floor((coveredPairs / totalPairs) * 100);
+
+  const coverage: PairwiseCoverage = {
+    coveredPairs,
+    totalPairs,
+    cases: cases.length,
+    fullProduct,
+    seed: random.seed,
+    summary: `pairwise: ${cases.length} cases cover ${coveredPairs}/${totalPairs} pairs (${percent}%) - full product: ${fullProduct}`
+  };
+
+  Object.defineProperty(cases, 'coverage', { value: coverage, enumerable: false });
+
+  return cases as PairwiseSuite;
+};
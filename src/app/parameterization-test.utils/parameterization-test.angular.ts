@@ -0,0 +1,193 @@
+/**
+ * Parameterized Angular testing helpers for Jasmine/Karma - components, pipes, validators, directives and HTTP services
+ *
+ * Kept apart from the main module so specs that don't test Angular code don't load TestBed.
+ * For another framework, create the runners with the factories and the adapter's register functions.
+ *
+ * @example
+ * ```ts
+ * icomponent(BadgeComponent, 'shows $inputs.count as $expected', ({ fixture, tc }) => {
+ *   expect(fixture.nativeElement.textContent.trim()).toBe(tc.expected);
+ * }).where([
+ *   { inputs: { count: 3 }, expected: '3' },
+ *   { inputs: { count: 120 }, expected: '99+' }
+ * ]);
+ * ```
+ */
+
+// Import runner factories and Jasmine adapter
+import { caseVariants, excludedVariants } from './runner/create-parameterized-tests';
+import { jasmineAdapter } from './adapters/jasmine-adapter';
+import { createComponentRunner } from './angular/create-component-runner';
+import { createPipeRunner } from './angular/create-pipe-runner';
+import { createValidatorRunner } from './angular/create-validator-runner';
+import { createDirectiveRunner } from './angular/create-directive-runner';
+import { createHttpRunner } from './angular/create-http-runner';
+
+// Re-export types and factories
+export type {
+  ComponentCaseColumns,
+  ComponentCaseContext,
+  ComponentTestFunction,
+  ComponentTestSetup,
+  PipeCase,
+  PipeTestSetup,
+  ValidatorCase,
+  ValidatorTestSetup,
+  DirectiveCaseContext,
+  DirectiveTestFunction,
+  HttpCase,
+  HttpCall,
+  HttpTestSetup
+} from './angular/types';
+export { createComponentRunner } from './angular/create-component-runner';
+export { createPipeRunner } from './angular/create-pipe-runner';
+export { createValidatorRunner } from './angular/create-validator-runner';
+export { createDirectiveRunner } from './angular/create-directive-runner';
+export { createHttpRunner } from './angular/create-http-runner';
+
+/** Test registration bound to Jasmine's globals */
+const { test } = jasmineAdapter();
+
+/**
+ * Parameterized component test. Use .where() to provide test data.
+ *
+ * Per case, configures TestBed (with the optional setup and the case's `providers`), creates
+ * the component, sets the case's `inputs`, runs change detection and passes
+ * `{ fixture, component, tc }` to the test function.
+ *
+ * @example
+ * ```ts
+ * icomponent(PriceComponent, 'renders $inputs.amount in $inputs.currency', ({ fixture, tc }) => {
+ *   expect(fixture.nativeElement.textContent).toContain(tc.expected);
+ * }, {
+ *   imports: [CommonModule],
+ *   providers: [{ provide: LOCALE_ID, useValue: 'en-US' }]
+ * }).where([
+ *   ['inputs',                              'expected'],
+ *   [{ amount: 5, currency: 'USD' },        '$5.00'],
+ *   [{ amount: 5, currency: 'EUR' },        '€5.00']
+ * ]);
+ *
+ * // Typed cases (extending ComponentCaseColumns for the `providers` column), overriding providers for one row
+ * icomponent(GreetingComponent, 'greets $inputs.name', ({ fixture, tc }: ComponentCaseContext<GreetingComponent, GreetingCase>) => {
+ *   expect(fixture.nativeElement.textContent.trim()).toBe(tc.expected);
+ * }).where([
+ *   { inputs: { name: 'Ann' }, expected: 'Hello, Ann' },
+ *   { inputs: { name: 'Ann' }, providers: [{ provide: GREETING, useValue: 'Hallo' }], expected: 'Hallo, Ann', _description: 'in German' }
+ * ], { optional: ['providers'] });
+ * ```
+ */
+export const icomponent = createComponentRunner(test.run, caseVariants(test));
+
+/** Focused parameterized component test (runs only these). @see {@link icomponent} */
+export const ficomponent = createComponentRunner(test.focus, caseVariants(test));
+
+/** Excluded parameterized component test (skips these). @see {@link icomponent} */
+export const xicomponent = createComponentRunner(test.skip, excludedVariants(test));
+
+/**
+ * Parameterized pipe test. Use .where() to provide test data.
+ *
+ * Per case, provides and injects the pipe (with the optional setup's and the case's
+ * `providers`) and expects `transform(input, ...args)` to equal `expected`. Cases are named
+ * `transform(input, ...args) → expected` unless the setup has a `name`.
+ *
+ * @example
+ * ```ts
+ * ipipe(CurrencyFormatPipe).where([
+ *   ['input', 'args',    'expected'],
+ *   [12.5,    ['EUR'],   '€12.50'],
+ *   [12.5,    ['USD'],   '$12.50']
+ * ]);
+ * // transform(12.5, "EUR") → €12.50
+ * // transform(12.5, "USD") → $12.50
+ * ```
+ */
+export const ipipe = createPipeRunner(test.run, caseVariants(test));
+
+/** Focused parameterized pipe test (runs only these). @see {@link ipipe} */
+export const fipipe = createPipeRunner(test.focus, caseVariants(test));
+
+/** Excluded parameterized pipe test (skips these). @see {@link ipipe} */
+export const xipipe = createPipeRunner(test.skip, excludedVariants(test));
+
+/**
+ * Parameterized validator test. Use .where() to provide test data.
+ *
+ * Per case, runs the validator on a `FormControl` holding `input` and expects its
+ * `ValidationErrors` to equal `expected` (`null` for valid input). Async validators are
+ * awaited. Cases are named `input → expected` (`valid` for `null`) unless the setup has a `name`.
+ *
+ * @example
+ * ```ts
+ * ivalidator(Validators.required).where([
+ *   ['input', 'expected'],
+ *   ['',      { required: true }],
+ *   ['Ann',   null]
+ * ]);
+ * // "" → {required: true}
+ * // "Ann" → valid
+ * ```
+ */
+export const ivalidator = createValidatorRunner(test.run, caseVariants(test));
+
+/** Focused parameterized validator test (runs only these). @see {@link ivalidator} */
+export const fivalidator = createValidatorRunner(test.focus, caseVariants(test));
+
+/** Excluded parameterized validator test (skips these). @see {@link ivalidator} */
+export const xivalidator = createValidatorRunner(test.skip, excludedVariants(test));
+
+/**
+ * Parameterized directive test. Use .where() to provide test data.
+ *
+ * Per case, renders the host template - where `tc` is the case - and passes
+ * `{ fixture, element, directive, tc }` for the first element the directive applies to.
+ *
+ * @example
+ * ```ts
+ * idirective(HighlightDirective, '<p [appHighlight]="tc.color">text</p>', 'highlights "$color" as $expected', ({ element, tc }) => {
+ *   expect(element.nativeElement.style.backgroundColor).toBe(tc.expected);
+ * }).where([
+ *   { color: 'yellow', expected: 'yellow' },
+ *   { color: '', expected: 'transparent' }
+ * ]);
+ * ```
+ */
+export const idirective = createDirectiveRunner(test.run, caseVariants(test));
+
+/** Focused parameterized directive test (runs only these). @see {@link idirective} */
+export const fidirective = createDirectiveRunner(test.focus, caseVariants(test));
+
+/** Excluded parameterized directive test (skips these). @see {@link idirective} */
+export const xidirective = createDirectiveRunner(test.skip, excludedVariants(test));
+
+/**
+ * Parameterized HTTP service test. Use .where() to provide test data.
+ *
+ * Per case, calls the service method with `HttpClientTestingModule`, expects one request
+ * matching `method`/`url`/`body`, responds with `status`/`response`/`headers` (or fails it with
+ * `networkError`), and expects the emitted value to equal `expected` - or the error to have the
+ * properties of `expectedError`. No request may be left outstanding. Cases are named
+ * `method url → status` unless the setup has a `name`.
+ *
+ * @example
+ * ```ts
+ * ihttp(UserService, (service, tc) => service.getUser(tc.id)).where([
+ *   ['id', 'method', 'url',          'status', 'response',        'expected',        'expectedError'],
+ *   [7,    'GET',    '/api/users/7', 200,      { name: 'Ann' },   { name: 'Ann' },   undefined],
+ *   [8,    'GET',    '/api/users/8', 404,      'Not found',       undefined,         { status: 404 }],
+ *   [9,    'GET',    '/api/users/9', 401,      null,              undefined,         { status: 401 }]
+ * ]);
+ * // GET /api/users/7 → 200
+ * // GET /api/users/8 → 404
+ * // GET /api/users/9 → 401
+ * ```
+ */
+export const ihttp = createHttpRunner(test.run, caseVariants(test));
+
+/** Focused parameterized HTTP service test (runs only these). @see {@link ihttp} */
+export const fihttp = createHttpRunner(test.focus, caseVariants(test));
+
+/** Excluded parameterized HTTP service test (skips these). @see {@link ihttp} */
+export const xihttp = createHttpRunner(test.skip, excludedVariants(test));
@@ -0,0 +1,56 @@
+/**
+ * Framework-agnostic parameterized testing
+ *
+ * Everything of the main module except the runners bound to Jasmine's globals, so it can be
+ * imported under Jest, Mocha, Vitest or `node:test`. Create the runners for a framework with
+ * {@link createParameterizedTests} and one of the adapters.
+ *
+ * @example
+ * ```ts
+ * import { test, describe } from 'vitest';
+ * import { createParameterizedTests, vitestAdapter } from './parameterization-test.core';
+ *
+ * const { iit, idescribe } = createParameterizedTests(vitestAdapter({ test, describe }));
+ *
+ * iit('should add $a and $b to get $expected', (tc) => {
+ *   expect(tc.a + tc.b).toBe(tc.expected);
+ * }).where([
+ *   { a: 2, b: 3, expected: 5 },
+ *   { a: 1, b: 4, expected: 5 }
+ * ]);
+ * ```
+ */
+
+// Re-export constants
+export { DataFormat, ReservedKey } from './runner/types';
+
+// Re-export types for typed cases, name functions, schemas, value formatters, format specifiers and adapters
+export type {
+  InferCase,
+  StripReserved,
+  NameFunction,
+  CaseSchema,
+  ColumnRule,
+  ValueFormatter,
+  ValueSpecifier,
+  TestFrameworkAdapter,
+  FrameworkRegistrars,
+  RegisterFunction,
+  PendingRegistration
+} from './runner/types';
+
+// Re-export data helpers
+export { table } from './formatters/table-template';
+export { pairwise } from './generators/pairwise';
+export { arb } from './generators/arbitraries';
+
+// Re-export configuration
+export { configureParameterizedTests, resetParameterizedTestsConfig } from './runner/config';
+
+// Re-export runner factory and adapters
+export { createParameterizedTests } from './runner/create-parameterized-tests';
+export { jasmineAdapter } from './adapters/jasmine-adapter';
+export { jestAdapter } from './adapters/jest-adapter';
+export { mochaAdapter } from './adapters/mocha-adapter';
+export { vitestAdapter } from './adapters/vitest-adapter';
+export { nodeTestAdapter } from './adapters/node-test-adapter';
@@ -3,6 +3,8 @@
  *
  * Supports object and table formats with $placeholder syntax.
  * Use .where([...]) to provide test data for each case.
+ * For Jest, Mocha, Vitest or node:test, import the runner factory and adapters from
+ * `parameterization-test.core` instead.
  *
  * @example
  * ```ts
@@ -18,14 +20,15 @@
  * ```
  */
 
-// Import types
-import type { TestFunction, DescribeFunction } from './runner/types';
+// Import runner factory and Jasmine adapter
+import { createParameterizedTests } from './runner/create-parameterized-tests';
+import { jasmineAdapter } from './adapters/jasmine-adapter';
 
-// Import runner utilities
-import { createParameterizedRunner } from './runner/create-parameterized-runner';
+// Re-export everything framework-agnostic (constants, types, data helpers, configuration, adapters)
+export * from './parameterization-test.core';
 
-// Re-export constants
-export { DataFormat } from './runner/types';
+/** Runners bound to Jasmine's globals */
+const jasmineRunners = createParameterizedTests(jasmineAdapter());
 
 /**
  * Parameterized test. Use .where() to provide test data.
@@ -50,9 +53,37 @@ export { DataFormat } from './runner/types';
  *   [2, 3, 5],
  *   [1, 4, 5]
  * ]);
+ *
+ * // Tagged-template table
+ * iit('should add $a and $b to get $expected', (tc) => {
+ *   expect(tc.a + tc.b).toBe(tc.expected);
+ * }).where(table`
+ *   a     | b     | expected
+ *   ${2}  | ${3}  | ${5}
+ *   ${1}  | ${4}  | ${5}
+ * `);
+ *
+ * // Typed cases (explicit type argument or annotated parameter)
+ * iit<{ a: number; b: number; expected: number }>('should add $a and $b', (tc) => {
+ *   expect(tc.a + tc.b).toBe(tc.expected);
+ * }).where([
+ *   { a: 2, b: 3, expected: 5 }   // Rows are checked against the case type
+ * ]);
+ *
+ * // Per-case skip, focus and pending
+ * iit('should parse $input', (tc) => {
+ *   expect(parse(tc.input)).toBeDefined();
+ * }).where([
+ *   { input: '1' },
+ *   { input: '1e3', _skip: 'exponents not supported yet' },
+ *   { input: '0x1', _pending: 'JIRA-123' }
+ * ]);
+ * // Output: "should parse 1"
+ * //         "should parse 1e3" (pending: exponents not supported yet)
+ * //         "should parse 0x1" (pending: JIRA-123)
  * ```
  */
-export const iit = createParameterizedRunner<TestFunction>(it);
+export const iit = jasmineRunners.iit;
 
 /**
  * Parameterized test suite. Use .where() to provide test data.
@@ -83,16 +114,41 @@ export const iit = createParameterizedRunner<TestFunction>(it);
  * ]);
  * ```
  */
-export const idescribe = createParameterizedRunner<DescribeFunction>(describe);
+export const idescribe = jasmineRunners.idescribe;
 
 /** Focused parameterized test (runs only these). @see {@link iit} */
-export const fiit = createParameterizedRunner<TestFunction>(fit);
+export const fiit = jasmineRunners.fiit;
 
 /** Focused parameterized test suite (runs only these). @see {@link idescribe} */
-export const fidescribe = createParameterizedRunner<DescribeFunction>(fdescribe);
+export const fidescribe = jasmineRunners.fidescribe;
+
+/** Excluded parameterized test (skips these, even `_only` cases). @see {@link iit} */
+export const xiit = jasmineRunners.xiit;
+
+/** Excluded parameterized test suite (skips these, even `_only` cases). @see {@link idescribe} */
+export const xidescribe = jasmineRunners.xidescribe;
+
+/**
+ * Property-based test. Use .forAll() to provide arbitraries instead of literal cases.
+ *
+ * Generates `runs` cases (default 100) from a seed, registers one test per case (the seed
+ * follows the case values in its name) and, when a case fails (throws, rejects or returns
+ * `false`), shrinks it to a minimal counterexample reported with the seed needed to replay the run.
+ *
+ * @example
+ * ```ts
+ * iprop('reversing $xs twice gives the original', (tc) => {
+ *   return [...tc.xs].reverse().reverse().join() === tc.xs.join();
+ * }).forAll({ xs: arb.array(arb.int()) }, { runs: 50 });
+ *
+ * // Replay a failure with the seed from its name or message
+ * iprop('...', property).forAll(arbitraries, { seed: 3735928559 });
+ * ```
+ */
+export const iprop = jasmineRunners.iprop;
 
-/** Excluded parameterized test (skips these). @see {@link iit} */
-export const xiit = createParameterizedRunner<TestFunction>(xit);
+/** Focused property-based test (runs only these). @see {@link iprop} */
+export const fiprop = jasmineRunners.fiprop;
 
-/** Excluded parameterized test suite (skips these). @see {@link idescribe} */
-export const xidescribe = createParameterizedRunner<DescribeFunction>(xdescribe);
\ No newline at end of file
+/** Excluded property-based test (skips these). @see {@link iprop} */
+export const xiprop = jasmineRunners.xiprop;
@@ -0,0 +1,92 @@
+/**
+ * Global configuration for parameterized runners
+ * @module parameterized-testing/core/config
+ */
+
+import type { NameFormatOptions, ParameterizedTestsConfig } from './types';
+
+/** Current configuration (set in test.ts or a spec helper) */
+let config: ParameterizedTestsConfig = {};
+
+/**
+ * Reads `--name value` or `--name=value` from Karma client args (`client.args` in karma.conf.js)
+ *
+ * @returns The argument value, or undefined when not running under Karma or not given
+ */
+function readKarmaArg(name: string): string | undefined {
+  const args: unknown = (globalThis as any).__karma__?.config?.args;
+  if (!Array.isArray(args)) {
+    return undefined;
+  }
+
+  const flag = `--${name}`;
+  for (let i = 0; i < args.length; i++) {
+    const arg = String(args[i]);
+    if (arg === flag && i + 1 < args.length) {
+      return String(args[i + 1]);
+    }
+    if (arg.startsWith(`${flag}=`)) {
+      return arg.slice(flag.length + 1);
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Sets global options for all parameterized runners
+ *
+ * Options are merged into the current configuration and apply to every `.where()` call made
+ * afterwards, so call it before the specs are declared (e.g. in `src/test.ts`).
+ *
+ * @param options - Options to set
+ *
+ * @example
+ * ```ts
+ * // src/test.ts - run everything except slow cases, fail on unresolved placeholders
+ * configureParameterizedTests({ tags: '!slow', strict: true });
+ * ```
+ */
+export const configureParameterizedTests = (options: ParameterizedTestsConfig): void => {
+  config = { ...config, ...options };
+};
+
+/**
+ * Restores the default configuration
+ */
+export const resetParameterizedTestsConfig = (): void => {
+  config = {};
+};
+
+/**
+ * Returns the current global configuration
+ */
+export const getParameterizedTestsConfig = (): Readonly<ParameterizedTestsConfig> => config;
+
+/**
+ * Combines the name formatting options of a `.where()` call with the global configuration
+ *
+ * Options given to `.where()` win. Formatters and specifiers of both are kept, those of `.where()` first.
+ *
+ * @param options - Options given to `.where()`
+ * @returns Options to format the names of that call with
+ */
+export const resolveNameFormatOptions = (options: NameFormatOptions = {}): NameFormatOptions => ({
+  strict: options.strict ?? config.strict,
+  formatters: [...(options.formatters ?? []), ...(config.formatters ?? [])],
+  specifiers: { ...config.specifiers, ...options.specifiers },
+  maxValueLength: options.maxValueLength ?? config.maxValueLength,
+  quoteStrings: options.quoteStrings ?? config.quoteStrings
+});
+
+/**
+ * Resolves the active tag expression
+ *
+ * The global configuration wins over `--tags` in Karma client args.
+ *
+ * @returns The tag expression, or undefined when cases are not filtered by tags
+ */
+export const getTagExpression = (): string | undefined => {
+  const expression = config.tags ?? readKarmaArg('tags');
+  return expression?.trim() ? expression : undefined;
+};
@@ -3,110 +3,584 @@
  * @module parameterized-testing/core/create-parameterized-runner
  */
 
+import type { DuplicateRow } from '../formatters/find-duplicate-rows';
 import type {
   TestFunction,
   DescribeFunction,
   TestSuite,
   TableFormat,
-  WhereOptions
+  WhereOptions,
+  Dimensions,
+  CombinationOptions,
+  RunnerVariants,
+  TestCase,
+  TagPredicate,
+  CaseCallback,
+  CheckTemplate,
+  DoneCallback,
+  NameFunction,
+  NameFormatOptions,
+  PairwiseSuite,
+  ParameterizedRunner
 } from './types';
-import { DataFormat } from './types';
+import { DataFormat, ReservedKey } from './types';
 import { detectDataFormat } from '../formatters/detect-data-format';
-import { formatObjectTestName } from '../formatters/format-object-test-name';
-import { normalizeTableFormat } from '../formatters/normalize-table-format';
-import { validateObjectConsistency } from '../formatters/validate-object-consistency';
+import { describeNameTemplate, formatTestName } from '../formatters/format-test-name';
+import { findTableRowProblems, normalizeTableFormat } from '../formatters/normalize-table-format';
+import { findInconsistentRows, validateObjectConsistency } from '../formatters/validate-object-consistency';
+import { formatValidationReport } from '../formatters/format-validation-report';
+import { findColumnTypeDrift, validateColumnTypes } from '../formatters/validate-column-types';
+import { findSchemaViolations, validateCaseSchema } from '../formatters/validate-case-schema';
+import { findDuplicateRows } from '../formatters/find-duplicate-rows';
+import { parseTagExpression } from '../formatters/parse-tag-expression';
+import { findUnreferencedColumns } from '../formatters/find-unreferenced-columns';
+import { disambiguateNames } from '../formatters/disambiguate-names';
+import { getParameterizedTestsConfig, getTagExpression, resolveNameFormatOptions } from './config';
+import { cartesianProduct } from '../generators/cartesian-product';
+
+/**
+ * Active tag filter: the expression as configured and its compiled predicate
+ */
+interface TagFilter {
+  expression: string;
+  matches: TagPredicate;
+}
+
+/**
+ * Registration for a single case, derived from its `_skip`, `_only`, `_pending` and `_tags` keys
+ */
+interface CaseRegistration {
+  register: (name: string, fn: any, timeout?: number) => any;
+  nameSuffix: string;
+  pendingReason?: string | true;
+}
+
+/**
+ * Names registered per parent describe (by full name), for `uniqueNamesPerSuite`
+ *
+ * Jasmine has no public API for the describe being declared, so the parent of each case is
+ * learned from the metadata `it()`/`describe()` return once it is registered.
+ */
+const namesByParent = new Map<string, Set<string>>();
+
+/**
+ * Full name of the describe a spec or suite was registered under, from the metadata Jasmine returns
+ *
+ * @returns The parent's full name (empty at the top level), or undefined without metadata (e.g. spies)
+ */
+function parentFullName(registered: unknown): string | undefined {
+  const metadata = registered as { description?: unknown; getFullName?: unknown } | undefined;
+  if (typeof metadata?.getFullName !== 'function' || typeof metadata.description !== 'string') {
+    return undefined;
+  }
+
+  const fullName: string = metadata.getFullName();
+  return fullName.slice(0, fullName.length - metadata.description.length).trimEnd();
+}
+
+/**
+ * Records a registered name under its parent for `uniqueNamesPerSuite`
+ *
+ * The parent is only known once the case is registered, too late to rename it, so a name an
+ * earlier `.where()` already registered under the same parent is reported instead.
+ *
+ * @throws If duplicates are rejected and the name repeats one registered earlier under the same parent
+ */
+function recordSuiteName(registered: unknown, name: string, nameTemplate: string, rejectDuplicates: boolean): void {
+  const parent = parentFullName(registered);
+  if (parent === undefined) {
+    return;
+  }
+
+  const names = namesByParent.get(parent) ?? new Set<string>();
+  namesByParent.set(parent, names);
+
+  if (names.has(name)) {
+    const message =
+      `Duplicate test name "${name}" for template "${nameTemplate}": ` +
+      `also registered by an earlier .where() in "${parent}"`;
+    if (rejectDuplicates) {
+      throw new Error(message);
+    }
+    console.warn(message);
+  }
+  names.add(name);
+}
+
+/**
+ * Registration of an excluded case, with the reason it doesn't run (`true` means "no reason given")
+ *
+ * The reason (or `reported`, when it needs the label to make sense) goes to the variants'
+ * `skipWithReason`, so the framework reports it; without one it is appended to the name as
+ * ` (label: reason)`.
+ */
+function excludedRegistration(
+  register: (name: string, fn: any, timeout?: number) => any,
+  variants: RunnerVariants,
+  label: string,
+  reason: string | true,
+  reported?: string
+): CaseRegistration {
+  const { skipWithReason } = variants;
+  if (reason === true || !skipWithReason) {
+    return { register: variants.skip, nameSuffix: reason === true ? '' : ` (${label}: ${reason})` };
+  }
+  return {
+    register: (name: string, _fn: unknown, timeout?: number) => skipWithReason(name, reported ?? reason, timeout, register),
+    nameSuffix: ''
+  };
+}
+
+/**
+ * Reads the `_tags` of a case
+ *
+ * @throws If `_tags` is set to anything but an array of strings
+ */
+function readTags(testCase: TestCase, index: number, nameTemplate: string): string[] {
+  const tags = testCase[ReservedKey.TAGS];
+  if (tags == null) {
+    return [];
+  }
+
+  if (!Array.isArray(tags) || tags.some(tag => typeof tag !== 'string')) {
+    throw new Error(
+      `Test case ${index} for template "${nameTemplate}" has invalid '_tags' - expected an array of tag names, received: ${JSON.stringify(tags)}`
+    );
+  }
+
+  return tags;
+}
+
+/**
+ * Reads a `_name` or `_description` of a case (`undefined`, `null` and `''` mean "not set",
+ * so table columns can leave them empty for the rows that use the template)
+ *
+ * @throws If the key is set to anything but a string
+ */
+function readNameOverride(
+  testCase: TestCase,
+  key: typeof ReservedKey.NAME | typeof ReservedKey.DESCRIPTION,
+  index: number,
+  nameTemplate: string
+): string | undefined {
+  const value = testCase[key];
+  if (value == null || value === '') {
+    return undefined;
+  }
+
+  if (typeof value !== 'string') {
+    throw new Error(
+      `Test case ${index} for template "${nameTemplate}" has invalid '${key}' - expected a string, received: ${typeof value}`
+    );
+  }
+
+  return value;
+}
+
+/**
+ * Formats the name of a case: its `_name` or the template output, followed by its `_description`
+ */
+function formatCaseName(
+  nameTemplate: string | NameFunction<any>,
+  testCase: TestCase,
+  index: number,
+  templateLabel: string,
+  nameOptions: NameFormatOptions
+): string {
+  const name = readNameOverride(testCase, ReservedKey.NAME, index, templateLabel)
+    ?? formatTestName(nameTemplate, testCase, index, nameOptions);
+  const description = readNameOverride(testCase, ReservedKey.DESCRIPTION, index, templateLabel);
+
+  return description === undefined ? name : `${name} - ${description}`;
+}
+
+/**
+ * Picks the Jasmine function a case is registered with
+ *
+ * Cases not matching the tag filter are registered as skipped with the filter as reason,
+ * so they still show up in the reporter counts. Like `_skip` and `_pending` reasons, the
+ * framework reports it where it can (see {@link excludedRegistration}). Falsy `_skip`/`_only`/
+ * `_pending` values are ignored, so table columns can leave them `false` for the rows that run
+ * normally.
+ *
+ * @throws If a case combines several of the keys, or the runner has no variants to map them to
+ */
+function selectRegistration(
+  testCase: TestCase,
+  index: number,
+  nameTemplate: string,
+  jasmineFn: (name: string, fn: any, timeout?: number) => any,
+  variants?: RunnerVariants,
+  tagFilter?: TagFilter
+): CaseRegistration {
+  const tags = readTags(testCase, index, nameTemplate);
+
+  if (tagFilter && !tagFilter.matches(tags)) {
+    if (!variants) {
+      throw new Error(
+        `Test case ${index} for template "${nameTemplate}" is filtered out by tags "${tagFilter.expression}", but this runner has no excluded variant to skip it`
+      );
+    }
+    const reason = `tags "${tagFilter.expression}"`;
+    return excludedRegistration(jasmineFn, variants, 'filtered', reason, `filtered: ${reason}`);
+  }
+
+  const used = [ReservedKey.SKIP, ReservedKey.ONLY, ReservedKey.PENDING].filter(key => testCase[key]);
+
+  if (used.length === 0) {
+    return { register: jasmineFn, nameSuffix: '' };
+  }
+
+  if (used.length > 1) {
+    throw new Error(
+      `Test case ${index} for template "${nameTemplate}" combines ${used.map(k => `'${k}'`).join(' and ')} - use only one of them per case`
+    );
+  }
+
+  if (!variants) {
+    throw new Error(
+      `Test case ${index} for template "${nameTemplate}" uses '${used[0]}', but this runner has no focused/excluded variants to apply it`
+    );
+  }
+
+  const skip = testCase[ReservedKey.SKIP];
+  if (skip) {
+    return excludedRegistration(jasmineFn, variants, 'skipped', skip === true ? true : String(skip));
+  }
+
+  if (testCase[ReservedKey.ONLY]) {
+    return { register: variants.focus, nameSuffix: '' };
+  }
+
+  const pending = testCase[ReservedKey.PENDING];
+  const pendingReason = pending === true ? true : String(pending);
+  if (!variants.supportsPending) {
+    return excludedRegistration(jasmineFn, variants, 'pending', pendingReason);
+  }
+  return { register: jasmineFn, nameSuffix: '', pendingReason };
+}
+
+/**
+ * Builds the body a case is registered with, calling the test function with the case
+ *
+ * A test function declaring a second parameter takes the framework's `done` callback. Its body
+ * declares `done` too, since Jasmine (like Jest and Mocha) tells callback-style tests apart by `fn.length`.
+ * If it also returns a promise, the test fails through `done.fail()` - the only completion
+ * of the test, as calls to `done` are held back until the test function returns.
+ */
+function caseBody(
+  testFn: TestFunction,
+  testCase: TestCase,
+  index: number,
+  nameTemplate: string
+): (...args: any[]) => unknown {
+  if (testFn.length < 2) {
+    return function(this: unknown) {
+      return (testFn as (testCase: TestCase) => unknown).call(this, testCase);
+    };
+  }
+
+  return function(this: unknown, done: DoneCallback) {
+    let returned = false;
+    let misused = false;
+    const early: (() => void)[] = [];
+    const complete = (finish: () => void) => {
+      if (misused) return;
+      if (returned) {
+        finish();
+      } else {
+        early.push(finish);
+      }
+    };
+
+    const result = testFn.call(this, testCase, Object.assign(() => complete(() => done()), {
+      fail: (error?: Error | string) => complete(() => done.fail(error))
+    }));
+    returned = true;
+
+    if (typeof (result as PromiseLike<unknown> | undefined)?.then === 'function') {
+      misused = true;
+      done.fail(new Error(
+        `Test function for template "${nameTemplate}" takes a done callback but returned a promise for test case ${index} - ` +
+        `use either done or async/await, not both`
+      ));
+      return;
+    }
+    early.forEach(finish => finish());
+  };
+}
+
+/**
+ * Registers a `_pending` case with the runner's pending registration, or with Jasmine's
+ * `pending()` in the body when the variants have none
+ */
+function registerPending(
+  register: (name: string, fn: any, timeout?: number) => any,
+  variants: RunnerVariants | undefined,
+  name: string,
+  reason: string | undefined,
+  timeout?: number
+): unknown {
+  if (variants?.pending) {
+    return variants.pending(name, reason, timeout, register);
+  }
+
+  return register(name, function() {
+    pending(reason);
+  }, timeout);
+}
 
 /**
  * Generic parameterized test runner factory
  *
- * Higher-order function that creates parameterized test runners for Jasmine.
- * Handles the bridging between our parameterized API and Jasmine's native API.
+ * Higher-order function that creates parameterized test runners for Jasmine, or for any
+ * framework through the functions of a {@link TestFrameworkAdapter} (see {@link createParameterizedTests}).
+ * Handles the bridging between our parameterized API and the framework's native API.
  *
  * The returned function provides a fluent interface with a `.where()` method that
- * accepts test data in object or table format.
+ * accepts test data in object or table format, and a `.whereCombinations()` method
+ * that generates every combination of a dimension map.
+ *
+ * Cases may set the reserved keys `_skip`, `_only` and `_pending` to register just that
+ * case with the excluded or focused variant, or as pending. `_name` replaces the name the
+ * template gives a case, and `_description` is appended to it after ` - `. When a tag expression is
+ * configured (see {@link configureParameterizedTests} or `--tags` in Karma client args),
+ * cases whose `_tags` don't match it are registered as skipped. These need `variants`.
+ *
+ * A test function declaring a second parameter receives the framework's `done` callback
+ * (it must not return a promise as well).
+ *
+ * Instead of a template, the name can come from a function of the case and its index, for
+ * names that need logic. Its names go through the same duplicate handling as templates, but
+ * `strict` and `warnUnusedColumns` don't apply to them.
+ *
+ * Cases rendering the same name get ` [case N]` appended from the second one on (N being
+ * the case index), or fail with `duplicateNames: 'error'` (the default in strict mode). With
+ * `uniqueNamesPerSuite` configured, a name an earlier `.where()` call registered under the same
+ * describe is reported too - with a warning, or an error when duplicates are rejected.
+ *
+ * The case type seen by the callback comes from an explicit type argument or from the
+ * callback's parameter annotation, and `.where()`/`.whereCombinations()` data is then
+ * checked against it. It is never inferred from the data: the callback is typed when the
+ * runner is created, before `.where()` is called. Without a type argument or annotation,
+ * cases are untyped (`Record<string, any>`) and properties are read as `tc['a']`.
+ * Use {@link InferCase} to derive the case type from existing data.
+ *
+ * When the case type is inferred from the annotation and the template is a string literal,
+ * every `$placeholder` is checked against the case type at compile time ({@link CheckTemplate}).
+ * TypeScript has no partial type argument inference, so an explicit type argument leaves the
+ * template unchecked.
  *
  * @template T - TestFunction or DescribeFunction
- * @param jasmineFn - Jasmine function (it, describe, fit, fdescribe)
+ * @param jasmineFn - Jasmine function (it, describe, fit, fdescribe) or an adapter's register function
+ * @param variants - Focused/excluded variants used for `_only`, `_skip` and `_pending` cases
+ * @param optionalColumns - Columns every `.where()` call treats as optional, added to its `optional` option
  * @returns Function that creates a parameterized test runner
  *
  * @example
  * ```ts
- * const myIit = createParameterizedRunner(it);
- * myIit('test $value', (testCase) => {
- *   expect(testCase.value).toBeDefined();
+ * const myIit = createParameterizedRunner<TestFunction>(it);
+ * myIit<{ value: number }>('test $value', (testCase) => {
+ *   expect(testCase.value).toBeGreaterThan(0);
  * }).where([{value: 1}, {value: 2}]);
+ *
+ * myIit<{ items: string[] }>((tc) => `handles ${tc.items.length} item${tc.items.length === 1 ? '' : 's'}`, (testCase) => {
+ *   expect(handle(testCase.items)).toBeTrue();
+ * }).where([{items: ['a']}, {items: ['a', 'b']}]);
  * ```
  */
 export const createParameterizedRunner = <T extends TestFunction | DescribeFunction>(
-  jasmineFn: (name: string, fn: any, timeout?: number) => any
-) => (nameTemplate: string, testFn: T) => {
-  if (!nameTemplate || typeof nameTemplate !== 'string') {
+  jasmineFn: (name: string, fn: any, timeout?: number) => any,
+  variants?: RunnerVariants,
+  optionalColumns: readonly string[] = []
+) => <TCase extends object = TestCase, const N extends string = string>(
+  nameTemplate: (N & CheckTemplate<N, TCase>) | NameFunction<TCase>,
+  testFn: CaseCallback<T, TCase>
+): ParameterizedRunner<TCase> => {
+  if (!nameTemplate || (typeof nameTemplate !== 'string' && typeof nameTemplate !== 'function')) {
     throw new Error(
-      `Test name template must be a non-empty string, received: ${typeof nameTemplate === 'string' ? '(empty string)' : typeof nameTemplate}`
+      `Test name template must be a non-empty string or a name function, received: ${typeof nameTemplate === 'string' ? '(empty string)' : typeof nameTemplate}`
     );
   }
 
+  // Template as written, or a stand-in for a name function, for error messages
+  const templateLabel = describeNameTemplate(nameTemplate);
+
   if (!testFn || typeof testFn !== 'function') {
     throw new Error(
       `Test function must be a valid function, received: ${typeof testFn}`
     );
   }
 
-  return {
-    /**
-     * Executes the parameterized tests with the provided test data
-     *
-     * Accepts test cases and generates individual Jasmine tests for each case.
-     * Automatically detects the data format (object or table) and applies the appropriate formatting.
-     *
-     * @param testCases - Test data in object or table format
-     * @param options - Optional configuration (timeout, etc.)
-     * @throws If testCases is not an array
-     */
-    where: (testCases: TestSuite | TableFormat, options?: WhereOptions) => {
-      if (!Array.isArray(testCases)) {
-        throw new Error(
-          `Test cases must be an array for template "${nameTemplate}", received: ${typeof testCases}`
-        );
+  /**
+   * Executes the parameterized tests with the provided test data
+   *
+   * Accepts test cases and generates individual Jasmine tests for each case.
+   * Automatically detects the data format (object or table) and applies the appropriate formatting.
+   * For {@link pairwise} cases it logs their pair coverage, as a warning when pairs are left uncovered.
+   *
+   * @param testCases - Test data in object or table format
+   * @param options - Optional configuration (timeout, strict, duplicateNames, warnUnusedColumns, optional, defaults, validation,
+   *   checkColumnTypes, schema, duplicateRows, value formatting)
+   * @throws If testCases is not an array, or in strict mode if a placeholder does not resolve
+   */
+  const where = (testCases: TestSuite | TableFormat, options?: WhereOptions) => {
+    if (!Array.isArray(testCases)) {
+      throw new Error(
+        `Test cases must be an array for template "${templateLabel}", received: ${typeof testCases}`
+      );
+    }
+
+    // Allow empty arrays - simply don't execute any tests
+    if (testCases.length === 0) {
+      return;
+    }
+
+    const format = detectDataFormat(testCases as TestSuite);
+    const config = getParameterizedTestsConfig();
+    const defaults = options?.defaults;
+    const optionalKeys = new Set([...optionalColumns, ...(options?.optional ?? []), ...Object.keys(defaults ?? {})]);
+    const report = (options?.validation ?? config.validation) === 'report';
+    const columnTypes = (options?.checkColumnTypes ?? config.checkColumnTypes)
+      ? { mixedColumns: options?.mixedColumns, nullishMatchesAnyType: options?.nullishMatchesAnyType ?? config.nullishMatchesAnyType }
+      : undefined;
+
+    // In report mode every row is checked up front; fail-fast stops at the first problem below
+    if (report && format === DataFormat.TABLE) {
+      const problems = findTableRowProblems(testCases as TableFormat);
+      if (problems.length > 0) {
+        throw new Error(formatValidationReport(templateLabel, problems, testCases.length - 1));
       }
+    }
+
+    // Table format is normalized to objects, then handled like object format
+    const rows = format === DataFormat.TABLE
+      ? normalizeTableFormat(testCases as TableFormat)
+      : testCases as TestSuite;
+
+    // Keys a row doesn't have are filled from the defaults
+    const objectCases = defaults === undefined ? rows : rows.map(row => ({ ...defaults, ...row }));
+
+    const duplicateRowsSeverity = options?.duplicateRows ?? config.duplicateRows ?? 'warn';
+    const duplicateRows = duplicateRowsSeverity === 'off' ? [] : findDuplicateRows(objectCases);
+    const describeDuplicate = ({ index, duplicateOf }: DuplicateRow) => `case ${index} has the same data as case ${duplicateOf}`;
 
-      // Allow empty arrays - simply don't execute any tests
-      if (testCases.length === 0) {
-        return;
+    if (report) {
+      const problems = [
+        ...findInconsistentRows(rows, optionalKeys),
+        ...(columnTypes ? findColumnTypeDrift(rows, columnTypes) : []),
+        ...(options?.schema ? findSchemaViolations(objectCases, options.schema, templateLabel) : []),
+        ...(duplicateRowsSeverity === 'error'
+          ? duplicateRows.map(({ index, duplicateOf }) => ({ index, problem: `same data as case ${duplicateOf}`, suggestions: [] }))
+          : [])
+      ].sort((a, b) => a.index - b.index);
+      if (problems.length > 0) {
+        throw new Error(formatValidationReport(templateLabel, problems, rows.length));
       }
+    }
 
-      const format = detectDataFormat(testCases as TestSuite);
+    // Validate object key consistency (rows should have uniform structure, apart from optional keys)
+    validateObjectConsistency(rows, templateLabel, optionalKeys);
+    if (columnTypes) {
+      validateColumnTypes(rows, templateLabel, columnTypes);
+    }
+    if (options?.schema) {
+      validateCaseSchema(objectCases, options.schema, templateLabel);
+    }
 
-      // Handle table format: normalize to objects then format as objects
-      if (format === DataFormat.TABLE) {
-        const normalizedCases = normalizeTableFormat(testCases as TableFormat);
+    if (duplicateRows.length > 0 && duplicateRowsSeverity === 'error') {
+      throw new Error(
+        `Duplicate test case${duplicateRows.length === 1 ? '' : 's'} for template "${templateLabel}":\n` +
+        duplicateRows.map(duplicate => `  - ${describeDuplicate(duplicate)}`).join('\n') +
+        `\n\nChange the value a copy-paste edit missed, remove the repeated cases, or set duplicateRows: 'warn' or 'off'.`
+      );
+    }
+    if (duplicateRows.length > 0) {
+      console.warn(
+        `Test cases for template "${templateLabel}" repeat earlier cases: ${duplicateRows.map(describeDuplicate).join(', ')} ` +
+        `- a copy-paste edit may have missed a value`
+      );
+    }
 
-        // Validate object key consistency (table rows should have uniform structure)
-        validateObjectConsistency(normalizedCases, nameTemplate);
+    const nameOptions = resolveNameFormatOptions(options);
 
-        normalizedCases.forEach((testCase, index) => {
-          const testName = formatObjectTestName(nameTemplate, testCase, index);
-          const timeout = testCase['_timeout'] ?? options?.timeout;
-          jasmineFn(testName, function(this: unknown) {
-            return (testFn as TestFunction | DescribeFunction).call(this, testCase);
-          }, timeout);
-        });
-        return;
+    if (typeof nameTemplate === 'string' && (options?.warnUnusedColumns ?? config.warnUnusedColumns)) {
+      const unreferenced = findUnreferencedColumns(nameTemplate, objectCases);
+      if (unreferenced.length > 0) {
+        console.warn(
+          `Test name template "${nameTemplate}" does not reference ${unreferenced.map(column => `'${column}'`).join(', ')}, ` +
+          `although every case has a different value - the test names may not tell the cases apart`
+        );
       }
+    }
+
+    const tagExpression = getTagExpression();
+    const tagFilter = tagExpression === undefined
+      ? undefined
+      : { expression: tagExpression, matches: parseTagExpression(tagExpression) };
 
-      // Handle object format
-      const objectCases = testCases as Record<string, any>[];
+    // Resolve every case first, so an invalid _skip/_only/_pending/_tags/_name, or an unresolved
+    // placeholder or duplicate name in strict mode, fails before anything is registered
+    const registrations = objectCases.map((testCase, index) =>
+      selectRegistration(testCase, index, templateLabel, jasmineFn, variants, tagFilter)
+    );
+    const rejectDuplicates = (options?.duplicateNames ?? (nameOptions.strict ? 'error' : 'suffix')) === 'error';
+    const names = disambiguateNames(
+      objectCases.map((testCase, index) => formatCaseName(nameTemplate, testCase, index, templateLabel, nameOptions)),
+      templateLabel,
+      { reject: rejectDuplicates }
+    );
+
+    objectCases.forEach((testCase, index) => {
+      const { register, nameSuffix, pendingReason } = registrations[index];
+      const testName = names[index] + nameSuffix;
+      const timeout = testCase[ReservedKey.TIMEOUT] ?? options?.timeout;
+
+      const registered = pendingReason === undefined
+        ? register(testName, caseBody(testFn as TestFunction, testCase, index, templateLabel), timeout)
+        : registerPending(register, variants, testName, pendingReason === true ? undefined : pendingReason, timeout);
 
-      // Validate object key consistency
-      validateObjectConsistency(objectCases, nameTemplate);
+      if (config.uniqueNamesPerSuite) {
+        recordSuiteName(registered, testName, templateLabel, rejectDuplicates);
+      }
+    });
 
-      objectCases.forEach((testCase, index) => {
-        const testName = formatObjectTestName(nameTemplate, testCase, index);
-        const timeout = testCase['_timeout'] ?? options?.timeout;
-        jasmineFn(testName, function(this: unknown) {
-          return (testFn as TestFunction | DescribeFunction).call(this, testCase);
-        }, timeout);
-      });
+    // Pairwise cases carry their pair coverage, easy to miss when maxCases cuts them short
+    const coverage = (testCases as Partial<PairwiseSuite>).coverage;
+    if (coverage) {
+      const log = coverage.coveredPairs < coverage.totalPairs ? console.warn : console.info;
+      log(`Test cases for template "${templateLabel}": ${coverage.summary}`);
     }
   };
+
+  /**
+   * Executes the parameterized tests for every combination of the given dimensions
+   *
+   * Generates the Cartesian product of the dimension values (first dimension varies slowest)
+   * and runs it through `.where()`, so names, validation and timeouts behave the same.
+   *
+   * @param dimensions - Map of dimension name to candidate values
+   * @param options - Optional configuration (exclude predicate, timeout, etc.)
+   * @throws If dimensions is not an object or any dimension has no values
+   *
+   * @example
+   * ```ts
+   * iit('formats $amount in $currency for $locale', (tc) => {
+   *   expect(format(tc.amount, tc.currency, tc.locale)).toBeTruthy();
+   * }).whereCombinations({
+   *   locale: ['en', 'de'],
+   *   currency: ['USD', 'EUR'],
+   *   amount: [0, -1, 1e9]
+   * }, {
+   *   exclude: (tc) => tc.locale === 'de' && tc.amount < 0
+   * });
+   * ```
+   */
+  const whereCombinations = (dimensions: Dimensions, options?: CombinationOptions) => {
+    const { exclude, ...whereOptions } = options ?? {};
+    where(cartesianProduct(dimensions, exclude, templateLabel), whereOptions);
+  };
+
+  // The typed overloads of ParameterizedRunner only narrow what callers may pass
+  return { where, whereCombinations } as ParameterizedRunner<TCase>;
 };
@@ -0,0 +1,112 @@
+/**
+ * Parameterized runners for a test framework adapter
+ * @module parameterized-testing/core/create-parameterized-tests
+ */
+
+import type { TestFunction, DescribeFunction, FrameworkRegistrars, RunnerVariants, TestFrameworkAdapter } from './types';
+import { createParameterizedRunner } from './create-parameterized-runner';
+import { createPropertyRunner } from './create-property-runner';
+
+/**
+ * Variants for `_only`/`_skip`/`_pending` and tag-filtered cases of a runnable kind
+ */
+export const caseVariants = (registrars: FrameworkRegistrars): RunnerVariants => ({
+  focus: registrars.focus,
+  skip: registrars.skip,
+  supportsPending: registrars.pending !== undefined,
+  pending: registrars.pending,
+  skipWithReason: registrars.skipWithReason
+});
+
+/**
+ * Variants of excluded runners - every case stays excluded
+ *
+ * Cases with a reason are registered through `run` rather than the runner's `skip`, so
+ * frameworks marking them pending from their body still run that body.
+ */
+export const excludedVariants = (registrars: FrameworkRegistrars): RunnerVariants => {
+  const { skipWithReason } = registrars;
+  return {
+    focus: registrars.skip,
+    skip: registrars.skip,
+    supportsPending: false,
+    skipWithReason: skipWithReason && ((name, reason, timeout) => skipWithReason(name, reason, timeout, registrars.run))
+  };
+};
+
+/**
+ * Validates the register functions of an adapter
+ *
+ * @throws If the adapter or one of its required register functions is missing
+ */
+function validateAdapter(adapter: TestFrameworkAdapter): void {
+  if (!adapter || typeof adapter !== 'object') {
+    throw new Error(
+      `Test framework adapter must be an object, received: ${adapter === null ? 'null' : typeof adapter}`
+    );
+  }
+
+  for (const kind of ['test', 'suite'] as const) {
+    for (const key of ['run', 'focus', 'skip'] as const) {
+      if (typeof adapter[kind]?.[key] !== 'function') {
+        throw new Error(
+          `Test framework adapter "${adapter.name}" is missing '${kind}.${key}' - expected a function, received: ${typeof adapter[kind]?.[key]}`
+        );
+      }
+    }
+  }
+}
+
+/**
+ * Creates the parameterized runners for a test framework
+ *
+ * The runners behave like the Jasmine ones exported by the main module - same `$placeholder`
+ * names, table format, validation and reserved keys - but register through the adapter, so
+ * `_skip`, `_only`, `_pending` and `_timeout` map to what the framework offers:
+ * - `_only` and the focused runners use the adapter's `focus`, `_skip`, tag-filtered cases
+ *   and the excluded runners its `skip`
+ * - `_pending` uses the adapter's `pending`; without one (and in the excluded runners) the
+ *   case is excluded like a `_skip` case with a reason
+ * - A `_skip` or `_pending` reason, or the tag filter, goes to the adapter's `skipWithReason`,
+ *   so the framework reports it; without one it is appended to the name as ` (skipped: reason)`,
+ *   ` (pending: reason)` or ` (filtered: tags "expression")`
+ * - `_timeout` (or the `timeout` option) is passed to the register function, which applies
+ *   it the framework's way
+ *
+ * `uniqueNamesPerSuite` needs the spec metadata only Jasmine returns, so it only covers
+ * the names of a single `.where()` call in other frameworks.
+ *
+ * @param adapter - Test framework adapter, e.g. {@link jestAdapter}() or {@link vitestAdapter}({ test, describe })
+ * @returns The parameterized runners
+ * @throws If the adapter is missing a required register function
+ *
+ * @example
+ * ```ts
+ * // vitest
+ * import { test, describe } from 'vitest';
+ * const { iit, idescribe } = createParameterizedTests(vitestAdapter({ test, describe }));
+ *
+ * iit('adds $a and $b', (tc) => {
+ *   expect(tc.a + tc.b).toBe(tc.expected);
+ * }).where([
+ *   { a: 1, b: 2, expected: 3 }
+ * ]);
+ * ```
+ */
+export const createParameterizedTests = (adapter: TestFrameworkAdapter) => {
+  validateAdapter(adapter);
+
+  const { test, suite } = adapter;
+
+  return {
+    iit: createParameterizedRunner<TestFunction>(test.run, caseVariants(test)),
+    idescribe: createParameterizedRunner<DescribeFunction>(suite.run, caseVariants(suite)),
+    fiit: createParameterizedRunner<TestFunction>(test.focus, caseVariants(test)),
+    fidescribe: createParameterizedRunner<DescribeFunction>(suite.focus, caseVariants(suite)),
+    xiit: createParameterizedRunner<TestFunction>(test.skip, excludedVariants(test)),
+    xidescribe: createParameterizedRunner<DescribeFunction>(suite.skip, excludedVariants(suite)),
+    iprop: createPropertyRunner(test.run, caseVariants(test)),
+    fiprop: createPropertyRunner(test.focus, caseVariants(test)),
+    xiprop: createPropertyRunner(test.skip, excludedVariants(test))
+  };
+};
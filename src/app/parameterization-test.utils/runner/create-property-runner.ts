@@ -0,0 +1,240 @@
+/**
+ * Property-based test runner factory
+ * @module parameterized-testing/core/create-property-runner
+ */
+
+import type {
+  Arbitrary,
+  ArbitrariesFor,
+  CheckTemplate,
+  PropertyFunction,
+  PropertyOptions,
+  RunnerVariants,
+  Shrinkable,
+  TestCase,
+  TestFunction
+} from './types';
+import { createParameterizedRunner } from './create-parameterized-runner';
+import { resolveNameFormatOptions } from './config';
+import { formatObjectTestName } from '../formatters/format-object-test-name';
+import { arb } from '../generators/arbitraries';
+import { createRandomSeed, createSeededRandom } from '../generators/seeded-random';
+
+/** Size hint reached by the last run; earlier runs get proportionally smaller values */
+const MAX_SIZE = 30;
+
+/**
+ * Outcome of evaluating a property once
+ */
+interface PropertyOutcome {
+  failed: boolean;
+  error?: unknown;
+}
+
+/**
+ * Runs the property, treating a throw, a rejection or a `false` result as failure
+ */
+async function evaluateProperty(
+  context: unknown,
+  property: PropertyFunction,
+  testCase: TestCase
+): Promise<PropertyOutcome> {
+  try {
+    const result = await property.call(context, testCase);
+    return { failed: result === false };
+  } catch (error) {
+    return { failed: true, error };
+  }
+}
+
+/**
+ * Walks the shrink tree, always descending into the first smaller value that still fails
+ *
+ * @returns The smallest failing node found, its failure, and the number of successful shrinks
+ */
+async function shrinkFailure(
+  context: unknown,
+  property: PropertyFunction,
+  tree: Shrinkable<TestCase>,
+  outcome: PropertyOutcome,
+  maxShrinks: number
+): Promise<{ tree: Shrinkable<TestCase>; outcome: PropertyOutcome; steps: number }> {
+  let current = { tree, outcome, steps: 0 };
+  let attempts = 0;
+
+  descend:
+  while (attempts < maxShrinks) {
+    for (const candidate of current.tree.shrink()) {
+      if (attempts++ >= maxShrinks) break descend;
+
+      const candidateOutcome = await evaluateProperty(context, property, candidate.value);
+      if (candidateOutcome.failed) {
+        current = { tree: candidate, outcome: candidateOutcome, steps: current.steps + 1 };
+        continue descend;
+      }
+    }
+    break;
+  }
+
+  return current;
+}
+
+/**
+ * Renders case values for failure messages (BigInt and cycles safe)
+ */
+function describeValues(testCase: TestCase): string {
+  try {
+    return JSON.stringify(testCase, (_, value) => typeof value === 'bigint' ? `${value}n` : value);
+  } catch {
+    return String(testCase);
+  }
+}
+
+/**
+ * Describes why a property failed
+ */
+function describeCause(outcome: PropertyOutcome): string {
+  if (outcome.error === undefined) return 'property returned false';
+  return outcome.error instanceof Error
+    ? `${outcome.error.name}: ${outcome.error.message}`
+    : `threw ${String(outcome.error)}`;
+}
+
+/**
+ * Property-based test runner factory
+ *
+ * Builds on {@link createParameterizedRunner}: `.forAll()` generates `runs` cases from the given
+ * arbitraries with a seeded random source and registers them through `.where()`, so each
+ * generated case becomes one Jasmine test named via the `$placeholder` template, followed by
+ * the seed - e.g. `reversing [3,1] twice gives [3,1] (seed: 42)`.
+ *
+ * A case fails when the property throws, rejects or returns `false`. The failing case is then
+ * shrunk to a minimal counterexample, which is rendered with the same template into the error
+ * together with the seed to replay the run. Every run checks the property, but only the first
+ * failing run is shrunk; later failing runs report their generated values and point back to it,
+ * so one bug costs one shrink. Jasmine `expect()` failures do not throw, so they fail the test
+ * but cannot drive shrinking - throw or return a boolean instead. The seed in the test name
+ * replays them all the same.
+ *
+ * @param jasmineFn - Jasmine function (it, fit, xit)
+ * @param variants - Focused/excluded variants, used when a tag expression filters the generated cases
+ * @returns Function that creates a property runner
+ *
+ * @example
+ * ```ts
+ * const iprop = createPropertyRunner(it);
+ * iprop('reversing $xs twice gives $xs', (tc) => {
+ *   return [...tc.xs].reverse().reverse().join() === tc.xs.join();
+ * }).forAll({ xs: arb.array(arb.int()) }, { runs: 50, seed: 42 });
+ * ```
+ */
+export const createPropertyRunner = (
+  jasmineFn: (name: string, fn: any, timeout?: number) => any,
+  variants?: RunnerVariants
+) => <TCase extends object = TestCase, const N extends string = string>(
+  nameTemplate: N & CheckTemplate<N, TCase>,
+  property: PropertyFunction<TCase>
+) => {
+  if (!nameTemplate || typeof nameTemplate !== 'string') {
+    throw new Error(
+      `Test name template must be a non-empty string, received: ${typeof nameTemplate === 'string' ? '(empty string)' : typeof nameTemplate}`
+    );
+  }
+
+  if (!property || typeof property !== 'function') {
+    throw new Error(
+      `Test function must be a valid function, received: ${typeof property}`
+    );
+  }
+
+  // Generated cases always match the arbitraries, so the typed property can run on them
+  const caseProperty = property as PropertyFunction;
+
+  return {
+    /**
+     * Generates test cases from arbitraries and registers one test per case
+     *
+     * @param arbitraries - Map of case property name to arbitrary
+     * @param options - Optional configuration (runs, seed, maxShrinks, timeout)
+     * @throws If arbitraries is not an object of arbitraries or runs is not a positive integer
+     */
+    forAll: (arbitraries: ArbitrariesFor<TCase>, options: PropertyOptions = {}) => {
+      const { runs = 100, seed = createRandomSeed(), maxShrinks = 1000, timeout } = options;
+
+      if (!arbitraries || typeof arbitraries !== 'object' || Array.isArray(arbitraries)) {
+        throw new Error(
+          `Arbitraries must be an object of name → arbitrary for template "${nameTemplate}", received: ${Array.isArray(arbitraries) ? 'array' : typeof arbitraries}`
+        );
+      }
+
+      for (const [key, arbitrary] of Object.entries(arbitraries)) {
+        if (!arbitrary || typeof arbitrary.generate !== 'function') {
+          throw new Error(
+            `Arbitrary '${key}' for template "${nameTemplate}" must be created with arb.*(), received: ${typeof arbitrary}`
+          );
+        }
+      }
+
+      if (!Number.isInteger(runs) || runs < 1) {
+        throw new Error(
+          `Property runs must be a positive integer for template "${nameTemplate}", received: ${runs}`
+        );
+      }
+
+      const random = createSeededRandom(seed);
+      const caseArbitrary = arb.record(arbitraries as Record<string, Arbitrary<any>>);
+      const trees = Array.from({ length: runs }, (_, run) =>
+        caseArbitrary.generate(random, Math.max(1, Math.ceil(((run + 1) / runs) * MAX_SIZE)))
+      );
+
+      // Each generated case maps to its own check (closure over its shrink tree and run number)
+      const checks = new Map<TestCase, (context: unknown) => Promise<void>>();
+      // One counterexample per forAll: only the first failing run is shrunk, later ones fail as generated
+      let shrunkRun: number | undefined;
+      trees.forEach((tree, run) => {
+        checks.set(tree.value, async (context) => {
+          const outcome = await evaluateProperty(context, caseProperty, tree.value);
+          if (!outcome.failed) return;
+
+          const nameOptions = resolveNameFormatOptions({ strict: false });
+          const heading = `Property "${nameTemplate}" failed on run ${run + 1}/${runs} (seed: ${random.seed})\n` +
+            `  Original:       ${formatObjectTestName(nameTemplate, tree.value, run, nameOptions)}\n`;
+
+          if (shrunkRun !== undefined) {
+            throw new Error(
+              heading +
+              `  Values:         ${describeValues(tree.value)}\n` +
+              `  Cause:          ${describeCause(outcome)}\n` +
+              `  Not shrunk:     run ${shrunkRun + 1} already failed and reports the counterexample`,
+              { cause: outcome.error }
+            );
+          }
+          shrunkRun = run;
+
+          const shrunk = await shrinkFailure(context, caseProperty, tree, outcome, maxShrinks);
+
+          throw new Error(
+            heading +
+            `  Counterexample: ${formatObjectTestName(nameTemplate, shrunk.tree.value, run, nameOptions)} ` +
+            `(shrunk in ${shrunk.steps} step${shrunk.steps === 1 ? '' : 's'})\n` +
+            `  Values:         ${describeValues(shrunk.tree.value)}\n` +
+            `  Cause:          ${describeCause(shrunk.outcome)}\n` +
+            `  Replay with:    .forAll(arbitraries, { seed: ${random.seed}, runs: ${runs} })`,
+            { cause: shrunk.outcome.error }
+          );
+        });
+      });
+
+      // The seed is part of every name, so a run failing on an expect() can be replayed as well
+      const parameterized = createParameterizedRunner<TestFunction>(jasmineFn, variants)(
+        `${nameTemplate} (seed: ${random.seed})`,
+        function(this: unknown, testCase: TestCase) {
+          return checks.get(testCase)!(this);
+        }
+      );
+
+      // Generated cases may repeat, so their names are always suffixed and repeated data is expected
+      parameterized.where(trees.map(tree => tree.value), { timeout, duplicateNames: 'suffix', duplicateRows: 'off' });
+    }
+  };
+};
@@ -3,12 +3,26 @@
  * @module parameterized-testing/core/types
  */
 
+import type { RandomSource } from '../generators/seeded-random';
+
+/**
+ * Callback ending a callback-style test, like Jasmine's `done`
+ */
+export interface DoneCallback {
+  /** Ends the test */
+  (): void;
+
+  /** Fails the test with an error or message */
+  fail: (error?: Error | string) => void;
+}
+
 /**
  * Test function for iit/fiit
  *
- * Accepts a single object parameter containing test case data
+ * Accepts a single object parameter containing test case data. A function declaring a second
+ * parameter receives the framework's `done` callback and must not return a promise.
  */
-export type TestFunction = (testCase: Record<string, any>) => void | Promise<void>;
+export type TestFunction = (testCase: Record<string, any>, done: DoneCallback) => void | Promise<void>;
 
 /**
  * Describe function for idescribe/fidescribe
@@ -50,14 +64,829 @@ export const DataFormat = {
   OBJECT: 'object' as const
 } as const;
 
+/**
+ * Reserved per-case keys
+ *
+ * Read by the runner to configure a single case instead of being treated as test data:
+ * - `_timeout`: Timeout in milliseconds for this case
+ * - `_skip`: Skip this case (`true` or a reason the framework reports with it)
+ * - `_only`: Focus this case (`true`)
+ * - `_pending`: Mark this case pending (`true` or a reason the framework reports with it)
+ * - `_tags`: Tag names matched against the configured tag expression
+ * - `_name`: Hand-written test name used instead of the template output
+ * - `_description`: Text appended to the test name after ` - `
+ *
+ * Reserved keys are optional per case and never resolved as `$placeholders`.
+ */
+export const ReservedKey = {
+  TIMEOUT: '_timeout' as const,
+  SKIP: '_skip' as const,
+  ONLY: '_only' as const,
+  PENDING: '_pending' as const,
+  TAGS: '_tags' as const,
+  NAME: '_name' as const,
+  DESCRIPTION: '_description' as const
+} as const;
+
+/**
+ * Set of all reserved per-case keys
+ */
+export const RESERVED_KEYS: ReadonlySet<string> = new Set(Object.values(ReservedKey));
+
+/**
+ * Reserved per-case keys with the values accepted on rows passed to `.where()`
+ *
+ * @see ReservedKey
+ */
+export interface ReservedCaseKeys {
+  _timeout?: number;
+  _skip?: string | boolean;
+  _only?: boolean;
+  _pending?: string | boolean;
+  _tags?: readonly string[];
+  _name?: string;
+  _description?: string;
+}
+
+/**
+ * Case type without reserved keys - the data seen by the test callback
+ */
+export type StripReserved<TCase> = Omit<TCase, keyof ReservedCaseKeys>;
+
+/**
+ * Whether a case type is untyped (`Record<string, any>` or `any`), which keeps `.where()` permissive
+ */
+type IsUntypedCase<TCase> = string extends keyof TCase ? true : false;
+
+/**
+ * Row accepted by `.where()` for a case type: the case data plus optional reserved keys
+ */
+export type CaseRow<TCase> = TCase & ReservedCaseKeys;
+
+/**
+ * Column name allowed in the header row of a typed table
+ */
+export type TableHeader<TCase> = (keyof TCase | keyof ReservedCaseKeys) & string;
+
+/**
+ * Data row of a typed table: one value per header, typed by the matching case property
+ */
+export type TableRow<TCase, H extends readonly string[]> = {
+  readonly [I in keyof H]: H[I] extends keyof TCase
+    ? TCase[H[I]]
+    : H[I] extends keyof ReservedCaseKeys ? ReservedCaseKeys[H[I]] : never;
+};
+
+/** Type-only brand carrying the case type of a tagged-template table */
+declare const tableCase: unique symbol;
+
+/**
+ * Table produced by the `table` tagged template
+ *
+ * Cells of a tagged template can't be checked against headers, so the case type is
+ * declared on the template instead: table<{ a: number }>`...` (defaults to untyped).
+ */
+export type TaggedTable<TCase = any> = TableFormat & { readonly [tableCase]: TCase };
+
+/**
+ * Test data accepted by `.where()` in a single (non-generic) signature
+ *
+ * Untyped runners accept any object array or table; typed runners accept rows of the case
+ * type and tagged-template tables declared with the same type.
+ */
+export type WhereData<TCase> = IsUntypedCase<TCase> extends true
+  ? TestSuite | TableFormat
+  : readonly CaseRow<TCase>[] | TaggedTable<TCase>;
+
+/**
+ * Widens literal cell types of `as const` tables (`1 | 2` → `number`)
+ */
+type WidenLiteral<V> =
+  V extends string ? string
+    : V extends number ? number
+      : V extends boolean ? boolean
+        : V extends bigint ? bigint
+          : V;
+
+/**
+ * Case type described by test data, with reserved keys stripped
+ *
+ * Works for object arrays, table format (the header tuple `['a', 'b']` yields `{ a, b }`
+ * typed by the column values) and typed tagged-template tables. Declare table data
+ * `as const` so its headers keep their literal types.
+ *
+ * @example
+ * ```ts
+ * const cases = [
+ *   { a: 1, b: 2, expected: 3 },
+ *   { a: 2, b: 2, expected: 4, _timeout: 100 }
+ * ];
+ *
+ * iit<InferCase<typeof cases>>('adds $a and $b', (tc) => {
+ *   expect(tc.a + tc.b).toBe(tc.expected);  // tc: { a: number; b: number; expected: number }
+ * }).where(cases);
+ * ```
+ */
+export type InferCase<D> =
+  D extends TaggedTable<infer TCase>
+    ? TCase
+    : D extends readonly [infer H extends readonly string[], ...infer Rows extends readonly (readonly any[])[]]
+      ? StripReserved<{
+          -readonly [I in keyof H & `${number}` as H[I] & string]: WidenLiteral<Rows[number][I & keyof Rows[number]]>
+        }>
+      : D extends readonly (infer TCase)[]
+        ? StripReserved<TCase>
+        : never;
+
+/** First character of a placeholder path (mirrors the runtime placeholder pattern) */
+type PlaceholderStart =
+  | 'a' | 'b' | 'c' | 'd' | 'e' | 'f' | 'g' | 'h' | 'i' | 'j' | 'k' | 'l' | 'm'
+  | 'n' | 'o' | 'p' | 'q' | 'r' | 's' | 't' | 'u' | 'v' | 'w' | 'x' | 'y' | 'z'
+  | 'A' | 'B' | 'C' | 'D' | 'E' | 'F' | 'G' | 'H' | 'I' | 'J' | 'K' | 'L' | 'M'
+  | 'N' | 'O' | 'P' | 'Q' | 'R' | 'S' | 'T' | 'U' | 'V' | 'W' | 'X' | 'Y' | 'Z'
+  | '_' | '$';
+
+/** Digit characters */
+type Digit = '0' | '1' | '2' | '3' | '4' | '5' | '6' | '7' | '8' | '9';
+
+/** Characters continuing a placeholder path (mirrors the runtime placeholder pattern) */
+type PlaceholderChar = PlaceholderStart | Digit | '.' | '[' | ']' | '(' | ')' | '*' | '+' | '?' | '^' | '|' | '\\' | '-';
+
+/** Reads a placeholder path from the start of a string, including quoted bracket keys: [path, rest] */
+type ReadPlaceholderPath<S extends string, Path extends string = ''> =
+  S extends `['${infer Key}']${infer Rest}`
+    ? ReadPlaceholderPath<Rest, `${Path}['${Key}']`>
+    : S extends `["${infer Key}"]${infer Rest}`
+      ? ReadPlaceholderPath<Rest, `${Path}["${Key}"]`>
+      : S extends `${infer C}${infer Rest}`
+        ? C extends PlaceholderChar ? ReadPlaceholderPath<Rest, `${Path}${C}`> : [Path, S]
+        : [Path, ''];
+
+/** Whether a string is a non-empty run of digits */
+type IsDigits<S extends string> =
+  S extends `${Digit}${infer Rest}` ? (Rest extends '' ? true : IsDigits<Rest>) : false;
+
+/** Whether a string starts with a word character (`\w`) */
+type StartsWithWordChar<S extends string> =
+  S extends `${PlaceholderStart | Digit}${string}` ? (S extends `$${string}` ? false : true) : false;
+
+/**
+ * Placeholder paths in a name template, e.g. `'$a and ${user.name}'` → `'a' | 'user.name'`
+ *
+ * `$index` is resolved separately (like at runtime) and never returned, and `$$` is an escaped `$`.
+ */
+export type TemplatePlaceholders<S extends string, Found extends string = never> =
+  S extends `${string}$${infer AfterDollar}`
+    ? AfterDollar extends `$${infer Rest}`
+      ? TemplatePlaceholders<Rest, Found>
+      : AfterDollar extends `{${infer Braced}}${infer Rest}`
+        ? ReadPlaceholderPath<Braced>[0] extends infer Path extends string
+          ? TemplatePlaceholders<Rest, Path extends 'index' ? Found : Found | Path>
+          : Found
+        : AfterDollar extends `${PlaceholderStart}${string}` | `['${string}` | `["${string}`
+          ? ReadPlaceholderPath<AfterDollar> extends [infer Path extends string, infer Rest extends string]
+            ? Path extends `index${infer AfterIndex}`
+              ? StartsWithWordChar<AfterIndex> extends true
+                ? TemplatePlaceholders<Rest, Found | Path>
+                : TemplatePlaceholders<`${AfterIndex}${Rest}`, Found>
+              : TemplatePlaceholders<Rest, Found | Path>
+            : Found
+          : TemplatePlaceholders<AfterDollar, Found>
+    : Found;
+
+/** Segments collected so far, as a tuple (empty when nothing is pending) */
+type PendingSegment<Current extends string> = Current extends '' ? [] : [Current];
+
+/**
+ * Splits a placeholder path into segments like at runtime:
+ * `a.b[0]['c.d']` → `['a', 'b', '0', 'c.d']` (non-digit unquoted brackets stay part of the segment)
+ */
+type PathSegments<P extends string, Current extends string = ''> =
+  P extends `['${infer Key}']${infer Rest}`
+    ? [...PendingSegment<Current>, Key, ...PathSegments<Rest>]
+    : P extends `["${infer Key}"]${infer Rest}`
+      ? [...PendingSegment<Current>, Key, ...PathSegments<Rest>]
+      : P extends `[${infer Index}]${infer Rest}`
+        ? IsDigits<Index> extends true
+          ? [...PendingSegment<Current>, Index, ...PathSegments<Rest>]
+          : PathSegments<Rest, `${Current}[${Index}]`>
+        : P extends `.${infer Rest}`
+          ? [...PendingSegment<Current>, ...PathSegments<Rest>]
+          : P extends `${infer C}${infer Rest}`
+            ? PathSegments<Rest, `${Current}${C}`>
+            : PendingSegment<Current>;
+
+/** Whether a path of segments resolves on a type (nullish values and `any` are permissive) */
+type ResolvesPath<T, Segments extends string[]> =
+  Segments extends [infer Head extends string, ...infer Tail extends string[]]
+    ? 0 extends (1 & T)
+      ? true
+      : NonNullable<T> extends infer V
+        ? V extends readonly any[]
+          ? Head extends keyof V
+            ? ResolvesPath<V[Head], Tail>
+            : IsDigits<Head> extends true ? ResolvesPath<V[number], Tail> : false
+          : V extends object
+            ? Head extends keyof V ? ResolvesPath<V[Head], Tail> : false
+            : false
+        : false
+    : true;
+
+/** Placeholder paths of a template that don't resolve on the case type */
+type UnknownPlaceholders<N extends string, TCase> = {
+  [P in TemplatePlaceholders<N>]:
+    PathSegments<P> extends [infer Root, ...string[]]
+      ? Root extends keyof ReservedCaseKeys
+        ? never
+        : ResolvesPath<TCase, PathSegments<P>> extends true ? never : P
+      : P
+}[TemplatePlaceholders<N>];
+
+/**
+ * Compile-time check of a name template against the case type
+ *
+ * Resolves to `unknown` (no constraint) when the template is valid, not a literal, or the
+ * case type is untyped; otherwise to an error type naming the unknown placeholders, which
+ * makes the template argument fail to type-check.
+ *
+ * @example
+ * ```ts
+ * iit('adds $a and $bb', (tc: { a: number; b: number }) => { ... });
+ * // ❌ Argument of type '"adds $a and $bb"' is not assignable to parameter of type
+ * //    '"adds $a and $bb" & { readonly 'Unknown placeholder': "$bb"; }'
+ * ```
+ */
+export type CheckTemplate<N extends string, TCase> =
+  string extends N
+    ? unknown
+    : IsUntypedCase<TCase> extends true
+      ? unknown
+      : [UnknownPlaceholders<N, TCase>] extends [never]
+        ? unknown
+        : { readonly 'Unknown placeholder': `$${UnknownPlaceholders<N, TCase>}` };
+
+/**
+ * Test callback for a case type, returning what the Jasmine function expects
+ * (tests may also take a `done` callback, suites only the case)
+ */
+export type CaseCallback<T extends TestFunction | DescribeFunction, TCase> = [T] extends [DescribeFunction]
+  ? (testCase: TCase) => ReturnType<T>
+  : (testCase: TCase, done: DoneCallback) => ReturnType<T>;
+
+/**
+ * Test name generator, an alternative to a name template for names that need logic
+ * (pluralization, conditional phrasing, computed summaries)
+ *
+ * Receives the case (including reserved keys), its zero-based index and the value formatting options of
+ * the `.where()` call merged with the global configuration (for rendering values like placeholders do),
+ * and must return a non-empty string.
+ */
+export type NameFunction<TCase = TestCase> = (testCase: TCase, index: number, options: ValueFormatOptions) => string;
+
+/**
+ * Dimensions for `.whereCombinations()`, typed by the case properties when known
+ */
+export type DimensionsFor<TCase> = IsUntypedCase<TCase> extends true
+  ? Dimensions
+  : { readonly [K in keyof TCase]-?: readonly TCase[K][] };
+
+/**
+ * Fluent interface returned by a parameterized runner
+ *
+ * The case type is fixed when the runner is created; `.where()` checks its data against it
+ * but never narrows it.
+ *
+ * @template TCase - Case type seen by the test callback (untyped by default)
+ */
+export interface ParameterizedRunner<TCase> {
+  /**
+   * Registers one test (or suite) per case
+   * @param testCases - Test data in object or table format
+   * @param options - Optional configuration (timeout, etc.)
+   */
+  where(testCases: WhereData<TCase>, options?: WhereOptions): void;
+
+  /**
+   * Registers one test (or suite) per table row, checking headers and cells against the case type
+   * @param testCases - Header tuple followed by data rows
+   * @param options - Optional configuration (timeout, etc.)
+   */
+  where<const H extends readonly TableHeader<TCase>[]>(
+    testCases: readonly [H, ...TableRow<TCase, H>[]],
+    options?: WhereOptions
+  ): void;
+
+  /**
+   * Registers one test (or suite) per combination of the dimension values
+   * @param dimensions - Map of dimension name to candidate values
+   * @param options - Optional configuration (exclude predicate, timeout, etc.)
+   */
+  whereCombinations(dimensions: DimensionsFor<TCase>, options?: CombinationOptions<TCase>): void;
+}
+
+/**
+ * Variants a runner registers individual cases with
+ *
+ * Used to map `_only`, `_skip` and `_pending` on a case to the matching framework function.
+ */
+export interface RunnerVariants {
+  /** Focused variant (fit/fdescribe), used for `_only` cases */
+  focus: (name: string, fn: any, timeout?: number) => any;
+
+  /** Excluded variant (xit/xdescribe), used for `_skip` cases */
+  skip: (name: string, fn: any, timeout?: number) => any;
+
+  /**
+   * Whether `_pending` cases can be registered as pending
+   * False for kinds the framework can't mark pending (e.g. suites in Jasmine and Jest), whose
+   * pending cases are excluded instead
+   */
+  supportsPending: boolean;
+
+  /**
+   * Registers a `_pending` case when `supportsPending` is set, the framework's way (a todo
+   * test, a pending body, ...)
+   * Without it the case is registered normally and calls the global `pending()` in its body
+   */
+  pending?: PendingRegistration;
+
+  /**
+   * Registers a case that doesn't run for a reason - a `_skip` reason, a `_pending` reason
+   * without `supportsPending`, or the tag filter - so the framework reports the reason
+   * Without it the case is registered with `skip`, and the reason is appended to its name
+   */
+  skipWithReason?: PendingRegistration;
+}
+
+/**
+ * Registers one test or suite with a test framework
+ *
+ * `timeout` is the `_timeout` of the case or the `timeout` option of `.where()`, in milliseconds.
+ */
+export type RegisterFunction = (name: string, fn: (...args: any[]) => any, timeout?: number) => unknown;
+
+/**
+ * Registers a pending test or suite with a test framework, or one that doesn't run for a reason
+ *
+ * `reason` is the `_pending` value of the case, or undefined for `_pending: true` - for
+ * `skipWithReason`, the `_skip` or `_pending` reason, or the tag filter. `register` is the function
+ * the runner registers its other cases with (e.g. `fit` for a focused runner), for frameworks
+ * that mark a case pending from its body.
+ */
+export type PendingRegistration = (
+  name: string,
+  reason: string | undefined,
+  timeout: number | undefined,
+  register: RegisterFunction
+) => unknown;
+
+/**
+ * How a test framework registers one kind of runnable (tests or suites)
+ */
+export interface FrameworkRegistrars {
+  /** Registers a case that runs normally (`it`, `test`, `describe`) */
+  run: RegisterFunction;
+
+  /** Registers a focused case, used for `_only` cases and the focused runners */
+  focus: RegisterFunction;
+
+  /** Registers an excluded case, used for `_skip` cases, tag-filtered cases and the excluded runners */
+  skip: RegisterFunction;
+
+  /**
+   * Registers a `_pending` case; frameworks without pending runnables of this kind leave it out,
+   * and such cases are excluded with the reason in their name
+   */
+  pending?: PendingRegistration;
+
+  /**
+   * Registers an excluded case with the reason it doesn't run; frameworks whose excluded
+   * runnables take no reason leave it out, and such cases get the reason in their name
+   */
+  skipWithReason?: PendingRegistration;
+}
+
+/**
+ * Bridge between the runners and a test framework
+ *
+ * The runners only call these functions, so names, table format and validation work the same
+ * in every framework with an adapter. See {@link createParameterizedTests}.
+ */
+export interface TestFrameworkAdapter {
+  /** Framework name, e.g. `'Jest'` */
+  name: string;
+
+  /** Registration of parameterized tests (`iit`, `iprop`) */
+  test: FrameworkRegistrars;
+
+  /** Registration of parameterized suites (`idescribe`) */
+  suite: FrameworkRegistrars;
+}
+
+/**
+ * Predicate over the tags of a case, compiled from a tag expression
+ */
+export type TagPredicate = (tags: readonly string[]) => boolean;
+
+/**
+ * Renders values of a given class (matched with `instanceof`) in test names
+ */
+export interface TypeValueFormatter<T> {
+  type: abstract new (...args: any[]) => T;
+  /** Renders the value; `formatNested` renders inner values with the same formatters */
+  format: (value: T, formatNested: (value: unknown) => string) => string;
+}
+
+/**
+ * Renders values accepted by a predicate in test names
+ */
+export interface PredicateValueFormatter<T> {
+  test: (value: unknown) => boolean;
+  /** Renders the value; `formatNested` renders inner values with the same formatters */
+  format: (value: T, formatNested: (value: unknown) => string) => string;
+}
+
+/**
+ * Custom formatter for placeholder values, keyed by constructor or predicate
+ *
+ * @example
+ * ```ts
+ * const money: ValueFormatter<Money> = { type: Money, format: (m) => `${m.amount} ${m.currency}` };
+ * const empty: ValueFormatter<unknown[]> = { test: (v) => Array.isArray(v) && v.length === 0, format: () => 'empty' };
+ * ```
+ */
+export type ValueFormatter<T = any> = TypeValueFormatter<T> | PredicateValueFormatter<T>;
+
+/**
+ * Named format specifier for placeholders, e.g. `fixed` in `$price:fixed(2)`
+ *
+ * Receives the placeholder value (or the output of the previous specifier in a chain),
+ * the arguments given in parentheses, and the regular value formatting as `format`.
+ *
+ * @example
+ * ```ts
+ * const percent: ValueSpecifier = (value, [digits = '0']) => `${(Number(value) * 100).toFixed(Number(digits))}%`;
+ * // '$rate:percent(1)' with { rate: 0.125 } → '12.5%'
+ * ```
+ */
+export type ValueSpecifier = (value: unknown, args: readonly string[], format: (value: unknown) => string) => string;
+
+/**
+ * Options for rendering placeholder values
+ */
+export interface ValueFormatOptions {
+  /**
+   * Custom named format specifiers for `$placeholder:name` (added to the built-in ones,
+   * those given to `.where()` taking precedence over the global configuration's)
+   */
+  specifiers?: Readonly<Record<string, ValueSpecifier>>;
+
+  /**
+   * Custom formatters, tried in order before the built-in ones
+   * (those given to `.where()` come before the global configuration's)
+   */
+  formatters?: readonly ValueFormatter[];
+
+  /**
+   * Longer rendered values are cut and end with `…` (default: Infinity, no limit)
+   * Values sharing a prefix of this length render the same name, which counts as a duplicate.
+   */
+  maxValueLength?: number;
+
+  /**
+   * Quote top-level string values, e.g. `"1"` instead of `1` (default: false)
+   * Strings inside objects and arrays are always quoted.
+   */
+  quoteStrings?: boolean;
+}
+
+/**
+ * Global configuration shared by all parameterized runners
+ *
+ * Value formatting options are the defaults for those in `.where()` options.
+ *
+ * @see configureParameterizedTests
+ */
+export interface ParameterizedTestsConfig extends ValueFormatOptions {
+  /**
+   * Tag expression selecting which cases run, e.g. `"!slow"` or `"i18n && !flaky"`
+   * Cases not matching are registered as skipped. Overrides `--tags` from Karma client args.
+   */
+  tags?: string;
+
+  /**
+   * Default for `strict` in `.where()` options
+   */
+  strict?: boolean;
+
+  /**
+   * Default for `warnUnusedColumns` in `.where()` options
+   */
+  warnUnusedColumns?: boolean;
+
+  /**
+   * Also report names registered by earlier `.where()` calls under the same parent describe,
+   * not just repeated names within one call (default: false). The parent is only known once
+   * a case is registered, so these are not suffixed: they warn, or throw when `duplicateNames`
+   * is `'error'` (the default in strict mode).
+   */
+  uniqueNamesPerSuite?: boolean;
+
+  /**
+   * Default for `validation` in `.where()` options
+   */
+  validation?: DataValidationMode;
+
+  /**
+   * Default for `checkColumnTypes` in `.where()` options
+   */
+  checkColumnTypes?: boolean;
+
+  /**
+   * Default for `nullishMatchesAnyType` in `.where()` options
+   */
+  nullishMatchesAnyType?: boolean;
+
+  /**
+   * Default for `duplicateRows` in `.where()` options
+   */
+  duplicateRows?: DuplicateRowsSeverity;
+}
+
+/**
+ * How invalid test data is reported: `'fail-fast'` throws for the first bad row,
+ * `'report'` checks every row and throws one error listing all problems
+ */
+export type DataValidationMode = 'fail-fast' | 'report';
+
+/**
+ * What to do with cases repeating the data of an earlier case: throw, `console.warn` or nothing
+ */
+export type DuplicateRowsSeverity = 'error' | 'warn' | 'off';
+
+/**
+ * Value type a schema column can require
+ *
+ * `'integer'` is a whole number, `'date'` a Date, `'array'` an array, and `'object'` any
+ * other non-null object; the others match `typeof`.
+ */
+export type ColumnType = 'string' | 'number' | 'integer' | 'boolean' | 'bigint' | 'function' | 'date' | 'array' | 'object';
+
+/**
+ * Custom check of a column value: `true` (or nothing) when valid, `false` or a reason when not
+ */
+export type ColumnValidator = (value: any, testCase: TestCase) => boolean | string | void;
+
+/**
+ * Requirements for a schema column, all optional
+ */
+export interface ColumnSpec {
+  /** Required value type */
+  type?: ColumnType;
+  /** Allowed values, compared with `Object.is` */
+  oneOf?: readonly unknown[];
+  /** Smallest allowed number (inclusive) */
+  min?: number | bigint;
+  /** Largest allowed number (inclusive) */
+  max?: number | bigint;
+  /** Custom check, run after the others */
+  validate?: ColumnValidator;
+  /** Allow `null` and `undefined` values */
+  nullable?: boolean;
+  /** Allow cases without the column */
+  optional?: boolean;
+}
+
+/**
+ * Rule for a schema column: a type, a validator or a full spec
+ */
+export type ColumnRule = ColumnType | ColumnValidator | ColumnSpec;
+
+/**
+ * Schema of case data: rules for the columns to check (other columns are not checked)
+ *
+ * @example
+ * ```ts
+ * const orderSchema: CaseSchema = {
+ *   quantity: { type: 'integer', min: 1, max: 99 },
+ *   status: { oneOf: ['open', 'paid', 'shipped'] },
+ *   email: (value) => /@/.test(value) || 'must be an email address',
+ *   note: { type: 'string', optional: true }
+ * };
+ * ```
+ */
+export type CaseSchema = Readonly<Record<string, ColumnRule>>;
+
+/**
+ * Options for formatting a test name from its template
+ */
+export interface NameFormatOptions extends ValueFormatOptions {
+  /**
+   * Throw for placeholders that don't resolve on the case instead of leaving them in the name
+   */
+  strict?: boolean;
+}
+
 /**
  * Options for .where() method
  */
-export interface WhereOptions {
+export interface WhereOptions extends ValueFormatOptions {
   /**
    * Global timeout in milliseconds for all test cases
    * Can be overridden per test case using `_timeout` property
    * If not specified, uses Jasmine's default timeout (5000ms)
    */
   timeout?: number;
+
+  /**
+   * Throw at definition time when a `$placeholder` doesn't resolve on a case,
+   * with "did you mean" suggestions (default: false, or the global configuration)
+   */
+  strict?: boolean;
+
+  /**
+   * What to do when cases render the same name: `'suffix'` appends `[case N]` to the later
+   * ones, `'error'` throws at definition time (default: `'error'` in strict mode, else `'suffix'`)
+   */
+  duplicateNames?: 'suffix' | 'error';
+
+  /**
+   * Warn (console.warn) about columns the template never references although every row
+   * has a distinct value - a sign the test names can't tell the cases apart
+   * (default: false, or the global configuration)
+   */
+  warnUnusedColumns?: boolean;
+
+  /**
+   * Keys that only some cases have - the consistency check lets them be absent, while
+   * undeclared keys are still reported (with a suggestion when they look like a declared one)
+   */
+  optional?: readonly string[];
+
+  /**
+   * Values for keys a case doesn't have, filled in before the name is formatted and the test
+   * runs. Their keys are optional, like those in `optional`. Shared by reference between cases.
+   */
+  defaults?: Readonly<Record<string, unknown>>;
+
+  /**
+   * `'report'` checks every row for missing/unexpected keys and table row length mismatches
+   * and throws one error listing them all, instead of stopping at the first
+   * (default: `'fail-fast'`, or the global configuration)
+   */
+  validation?: DataValidationMode;
+
+  /**
+   * Check that each column has values of one runtime type across cases, reporting cases that
+   * differ from the rest - e.g. `expected: '5'` among numbers (default: false, or the global configuration)
+   */
+  checkColumnTypes?: boolean;
+
+  /**
+   * Columns that mix value types on purpose, skipped by `checkColumnTypes`
+   */
+  mixedColumns?: readonly string[];
+
+  /**
+   * Whether `null` and `undefined` match any type in `checkColumnTypes`
+   * (default: true, or the global configuration)
+   */
+  nullishMatchesAnyType?: boolean;
+
+  /**
+   * Rules every case is checked against (after `defaults` are filled in) before any test
+   * is registered, see {@link CaseSchema}
+   */
+  schema?: CaseSchema;
+
+  /**
+   * What to do with cases whose data (reserved keys aside) is deep-equal to an earlier case -
+   * usually a copy-paste edit that missed a value (default: `'warn'`, or the global configuration)
+   */
+  duplicateRows?: DuplicateRowsSeverity;
+}
+
+/**
+ * Map of dimension name to the values it can take
+ *
+ * Used by `.whereCombinations()` to generate test cases.
+ */
+export type Dimensions = Record<string, readonly any[]>;
+
+/**
+ * Options for .whereCombinations() method
+ */
+export interface CombinationOptions<TCase = TestCase> extends WhereOptions {
+  /**
+   * Predicate for invalid combinations
+   * Combinations for which it returns true are not generated
+   */
+  exclude?: (combination: TCase) => boolean;
+}
+
+/**
+ * Options for the pairwise generator
+ */
+export interface PairwiseOptions {
+  /**
+   * Seed for tie-breaking between equally good candidates
+   * The same seed and dimensions always produce the same cases (default: 1)
+   */
+  seed?: number;
+
+  /**
+   * Upper bound on generated cases
+   * Generation stops early when reached, leaving some pairs uncovered
+   */
+  maxCases?: number;
+}
+
+/**
+ * Pair coverage reached by a pairwise case set
+ */
+export interface PairwiseCoverage {
+  /** Value pairs (across two dimensions) covered by at least one case */
+  coveredPairs: number;
+  /** All value pairs across every two dimensions */
+  totalPairs: number;
+  /** Number of generated cases */
+  cases: number;
+  /** Number of cases the full Cartesian product would need */
+  fullProduct: number;
+  /** Seed the cases were generated with */
+  seed: number;
+  /** Human-readable summary, e.g. "pairwise: 27 cases cover 448/448 pairs (100%) - full product: 65536" */
+  summary: string;
+}
+
+/**
+ * Test cases produced by the pairwise generator
+ *
+ * A plain test case array (usable in `.where()`, which logs its summary) with a non-enumerable `coverage` report.
+ */
+export type PairwiseSuite = TestSuite & { readonly coverage: PairwiseCoverage };
+
+/**
+ * A generated value together with its (lazily computed) smaller variants
+ *
+ * Shrink candidates are ordered from most to least aggressive.
+ */
+export interface Shrinkable<T> {
+  value: T;
+  shrink(): Shrinkable<T>[];
+}
+
+/**
+ * Generator of random values for property-based tests
+ *
+ * @see arb for the built-in arbitraries
+ */
+export interface Arbitrary<T> {
+  /**
+   * Generates a value and its shrink tree
+   * @param random - Seeded random source
+   * @param size - Size hint (grows over the runs) bounding lengths of strings and arrays
+   */
+  generate(random: RandomSource, size: number): Shrinkable<T>;
+}
+
+/**
+ * Property function for iprop
+ *
+ * The property fails when it throws, rejects or returns `false`.
+ */
+export type PropertyFunction<TCase = TestCase> = (testCase: TCase) => boolean | void | Promise<boolean | void>;
+
+/**
+ * Arbitraries for `.forAll()`, typed by the case properties when known
+ */
+export type ArbitrariesFor<TCase> = IsUntypedCase<TCase> extends true
+  ? Record<string, Arbitrary<any>>
+  : { readonly [K in keyof TCase]-?: Arbitrary<TCase[K]> };
+
+/**
+ * Options for .forAll() method
+ */
+export interface PropertyOptions {
+  /**
+   * Number of generated cases (default: 100)
+   */
+  runs?: number;
+
+  /**
+   * Seed for case generation
+   * Pass the seed printed by a failing run to replay exactly the same cases
+   * If not specified, a random seed is used
+   */
+  seed?: number;
+
+  /**
+   * Maximum number of shrink attempts after a failure (default: 1000)
+   */
+  maxShrinks?: number;
+
+  /**
+   * Timeout in milliseconds for each generated case (including shrinking)
+   */
+  timeout?: number;
 }
@@ -0,0 +1,154 @@
+/**
+ * Angular Component Runner Tests
+ *
+ * icomponent registers real Jasmine specs that configure TestBed, create the component and
+ * set its inputs per case. The test components below cover standalone and declared
+ * components, `@Input` setters feeding signals, input aliases and per-case providers.
+ */
+
+import { Component, InjectionToken, Input, inject, signal } from '@angular/core';
+import { createComponentRunner, icomponent } from '../parameterization-test.angular';
+import type { ComponentCaseColumns, ComponentCaseContext } from '../parameterization-test.angular';
+
+const GREETING = new InjectionToken<string>('GREETING');
+
+@Component({
+    selector: 'app-test-badge',
+    standalone: true,
+    template: '<span class="count">{{ display() }}</span><span class="tone">{{ tone }}</span>'
+})
+class BadgeComponent {
+    readonly display = signal('');
+
+    @Input() set count(value: number) {
+        this.display.set(value > 99 ? '99+' : String(value));
+    }
+
+    @Input('variant') tone = 'neutral';
+}
+
+@Component({
+    selector: 'app-test-greeting',
+    template: '<p>{{ greeting }}, {{ name }}</p>'
+})
+class GreetingComponent {
+    @Input() name = '';
+
+    readonly greeting = inject(GREETING);
+}
+
+interface GreetingCase extends ComponentCaseColumns {
+    inputs: { name: string };
+    expected: string;
+}
+
+describe('Angular component runner', () => {
+
+    // ===========================================
+    // STANDALONE COMPONENTS
+    // ===========================================
+
+    describe('icomponent with a standalone component', () => {
+        icomponent(BadgeComponent, 'shows $inputs.count as $expected', ({ fixture, tc }) => {
+            expect(fixture.nativeElement.querySelector('.count').textContent).toBe(tc['expected']);
+        }).where([
+            { inputs: { count: 3 }, expected: '3' },
+            { inputs: { count: 120 }, expected: '99+' }
+        ]);
+
+        icomponent(BadgeComponent, 'sets the $inputs.variant variant through its alias', ({ fixture, component, tc }) => {
+            expect(component.tone).toBe(tc['inputs'].variant);
+            expect(fixture.nativeElement.querySelector('.tone').textContent).toBe(tc['inputs'].variant);
+        }).where([
+            ['inputs'],
+            [{ variant: 'warning' }],
+            [{ variant: 'danger', count: 1 }]
+        ]);
+
+        icomponent(BadgeComponent, 'skips change detection when asked to', ({ fixture }) => {
+            expect(fixture.nativeElement.querySelector('.count').textContent).toBe('');
+        }, { detectChanges: false }).where([
+            { inputs: { count: 3 } }
+        ]);
+    });
+
+    // ===========================================
+    // DECLARED COMPONENTS AND PROVIDERS
+    // ===========================================
+
+    describe('icomponent with a declared component and providers', () => {
+        icomponent(GreetingComponent, 'greets $inputs.name', ({ fixture, component, tc }: ComponentCaseContext<GreetingComponent, GreetingCase>) => {
+            expect(component.name).toBe(tc.inputs.name);
+            expect(fixture.nativeElement.textContent.trim()).toBe(tc.expected);
+        }, {
+            providers: [{ provide: GREETING, useValue: 'Hello' }]
+        }).where([
+            { inputs: { name: 'Ann' }, expected: 'Hello, Ann' },
+            { inputs: { name: 'Ann' }, providers: [{ provide: GREETING, useValue: 'Hallo' }], expected: 'Hallo, Ann', _description: 'in German' }
+        ], { optional: ['providers'] });
+
+        icomponent(GreetingComponent, 'keeps this context for $inputs.name', function(this: any, { tc }) {
+            expect(this.fromBeforeEach).toBe(true);
+            expect(tc['inputs'].name).toBe('Bo');
+        }, {
+            providers: [{ provide: GREETING, useValue: 'Hi' }]
+        }).where([
+            { inputs: { name: 'Bo' } }
+        ]);
+
+        beforeEach(function(this: any) {
+            this.fromBeforeEach = true;
+        });
+    });
+
+    // ===========================================
+    // ERROR HANDLING
+    // ===========================================
+
+    describe('error handling', () => {
+        const runCase = (testCase: Record<string, unknown>): Promise<unknown> => {
+            const mockJasmineFn = jasmine.createSpy('jasmineFn');
+            createComponentRunner(mockJasmineFn)(BadgeComponent, 'case $index', () => {}).where([testCase]);
+            return mockJasmineFn.calls.argsFor(0)[1].call({});
+        };
+
+        it('should reject classes that are not components', () => {
+            class PlainClass {}
+
+            expect(() => createComponentRunner(jasmine.createSpy('jasmineFn'))(PlainClass, 'case $index', () => {}))
+                .toThrowError('Component runner expects an Angular component class, received: class PlainClass without @Component');
+            expect(() => createComponentRunner(jasmine.createSpy('jasmineFn'))(undefined as any, 'case $index', () => {}))
+                .toThrowError('Component runner expects an Angular component class, received: undefined');
+        });
+
+        it('should reject unknown inputs with a suggestion', async () => {
+            await expectAsync(runCase({ inputs: { cout: 1 } })).toBeRejectedWithError(
+                `Component BadgeComponent has no input 'cout' (inputs of a case for template "case $index")\n` +
+                `💡 Did you mean 'count'?\n` +
+                `Available inputs: count, variant`
+            );
+        });
+
+        it('should reject inputs and providers of the wrong type', async () => {
+            await expectAsync(runCase({ inputs: [1] })).toBeRejectedWithError(
+                `Component case for template "case $index" has invalid 'inputs' - expected an object of input name → value, received: array`
+            );
+            await expectAsync(runCase({ providers: 'none' })).toBeRejectedWithError(
+                `Component case for template "case $index" has invalid 'providers' - expected an array of providers, received: string`
+            );
+        });
+
+        it('should register cases with the runner variants', () => {
+            const mockJasmineFn = jasmine.createSpy('jasmineFn');
+            const variants = { focus: jasmine.createSpy('focus'), skip: jasmine.createSpy('skip'), supportsPending: true };
+
+            createComponentRunner(mockJasmineFn, variants)(BadgeComponent, 'count $inputs.count', () => {}).where([
+                { inputs: { count: 1 } },
+                { inputs: { count: 2 }, _skip: 'redesign' }
+            ]);
+
+            expect(mockJasmineFn.calls.argsFor(0)[0]).toBe('count 1');
+            expect(variants.skip.calls.argsFor(0)[0]).toBe('count 2 (skipped: redesign)');
+        });
+    });
+});
@@ -0,0 +1,107 @@
+/**
+ * Angular Directive Runner Tests
+ *
+ * idirective registers real Jasmine specs that render a host template per case, with the case
+ * bound as `tc`. Covers standalone and declared directives, per-case providers and errors.
+ */
+
+import { Directive, ElementRef, InjectionToken, Input, inject } from '@angular/core';
+import { createDirectiveRunner, idirective } from '../parameterization-test.angular';
+import type { DirectiveCaseContext } from '../parameterization-test.angular';
+
+const DEFAULT_COLOR = new InjectionToken<string>('DEFAULT_COLOR', { factory: () => 'transparent' });
+
+@Directive({ selector: '[appHighlight]', standalone: true })
+class HighlightDirective {
+    private readonly element = inject(ElementRef);
+    private readonly defaultColor = inject(DEFAULT_COLOR);
+
+    @Input() set appHighlight(color: string) {
+        this.element.nativeElement.style.backgroundColor = color || this.defaultColor;
+    }
+}
+
+@Directive({ selector: '[appMaxLength]' })
+class MaxLengthDirective {
+    @Input() appMaxLength = 0;
+
+    exceeds(text: string): boolean {
+        return text.length > this.appMaxLength;
+    }
+}
+
+interface HighlightCase {
+    color: string;
+    expected: string;
+}
+
+describe('Angular directive runner', () => {
+
+    // ===========================================
+    // DIRECTIVES
+    // ===========================================
+
+    describe('idirective with a standalone directive', () => {
+        idirective(HighlightDirective, '<p [appHighlight]="tc.color">text</p>', 'highlights "$color" as $expected', ({ element, tc }) => {
+            expect(element.nativeElement.style.backgroundColor).toBe(tc['expected']);
+        }).where([
+            { color: 'yellow', expected: 'yellow' },
+            { color: '', expected: 'transparent' },
+            { color: '', providers: [{ provide: DEFAULT_COLOR, useValue: 'pink' }], expected: 'pink', _description: 'with another default' }
+        ], { optional: ['providers'] });
+
+        idirective(HighlightDirective, '<p [appHighlight]="tc.color">text</p>', 'highlights in $color (typed)',
+            ({ element, tc }: DirectiveCaseContext<HighlightDirective, HighlightCase>) => {
+                expect(element.nativeElement.style.backgroundColor).toBe(tc.expected);
+            }
+        ).where([
+            { color: 'red', expected: 'red' }
+        ]);
+    });
+
+    describe('idirective with a declared directive', () => {
+        idirective(MaxLengthDirective, '<input [appMaxLength]="tc.max">', '"$text" exceeds $max: $expected', ({ directive, tc }) => {
+            expect(directive.appMaxLength).toBe(tc['max']);
+            expect(directive.exceeds(tc['text'])).toBe(tc['expected']);
+        }).where([
+            ['text',    'max', 'expected'],
+            ['Angular', 5,     true],
+            ['Angular', 10,    false]
+        ]);
+
+        idirective(MaxLengthDirective, '<input [appMaxLength]="tc.max">', 'binds $max only after change detection', ({ fixture, directive, tc }) => {
+            expect(directive.appMaxLength).toBe(0);
+            fixture.detectChanges();
+            expect(directive.appMaxLength).toBe(tc['max']);
+        }, { detectChanges: false }).where([
+            { max: 3 }
+        ]);
+    });
+
+    // ===========================================
+    // ERROR HANDLING
+    // ===========================================
+
+    describe('error handling', () => {
+        it('should reject invalid directives, host templates and test functions', () => {
+            const create = createDirectiveRunner(jasmine.createSpy('jasmineFn'));
+
+            expect(() => create(undefined as any, '<p></p>', 'case $index', () => {}))
+                .toThrowError('Directive runner expects a directive class, received: undefined');
+            expect(() => create(HighlightDirective, ' ', 'case $index', () => {}))
+                .toThrowError('Directive runner expects a host template using HighlightDirective, received: (empty string)');
+            expect(() => create(HighlightDirective, '<p appHighlight></p>', 'case $index', undefined as any))
+                .toThrowError('Test function must be a valid function, received: undefined');
+        });
+
+        it('should reject host templates without the directive', async () => {
+            const mockJasmineFn = jasmine.createSpy('jasmineFn');
+            createDirectiveRunner(mockJasmineFn)(HighlightDirective, '<p>text</p>', 'case $index', () => {}).where([{ color: 'red' }]);
+
+            await expectAsync(mockJasmineFn.calls.argsFor(0)[1].call({})).toBeRejectedWithError(
+                `Host template of directive test "case $index" has no element HighlightDirective applies to\n` +
+                `💡 Check that the template matches the directive's selector: <p>text</p>`
+            );
+        });
+    });
+});
@@ -0,0 +1,228 @@
+/**
+ * Angular HTTP Runner Tests
+ *
+ * ihttp registers real Jasmine specs that call a service method against HttpTestingController
+ * per case. Covers success and error responses, request bodies, response headers, network
+ * errors, promise-returning methods, default names and errors.
+ */
+
+import { HttpClient } from '@angular/common/http';
+import { Injectable, InjectionToken, inject } from '@angular/core';
+import { firstValueFrom, map, type Observable } from 'rxjs';
+import { createHttpRunner, ihttp } from '../parameterization-test.angular';
+import type { HttpCall, HttpCase } from '../parameterization-test.angular';
+import type { TestCase } from '../runner/types';
+
+const API_URL = new InjectionToken<string>('API_URL', { factory: () => '/api' });
+
+interface User {
+    id: number;
+    name: string;
+}
+
+@Injectable({ providedIn: 'root' })
+class UserService {
+    private readonly http = inject(HttpClient);
+    private readonly apiUrl = inject(API_URL);
+
+    getUser(id: number): Observable<User> {
+        return this.http.get<User>(`${this.apiUrl}/users/${id}`);
+    }
+
+    createUser(name: string): Observable<User> {
+        return this.http.post<User>(`${this.apiUrl}/users`, { name });
+    }
+
+    countUsers(): Observable<number> {
+        return this.http.get(`${this.apiUrl}/users`, { observe: 'response' }).pipe(
+            map(response => Number(response.headers.get('X-Total-Count')))
+        );
+    }
+
+    deleteUser(id: number): Promise<unknown> {
+        return firstValueFrom(this.http.delete(`${this.apiUrl}/users/${id}`));
+    }
+
+    renameUser(id: number, name: string): Observable<unknown> {
+        this.http.get(`${this.apiUrl}/audit`).subscribe();
+        return this.http.patch(`${this.apiUrl}/users/${id}`, { name });
+    }
+}
+
+interface GetUserCase extends HttpCase {
+    id: number;
+}
+
+describe('Angular HTTP runner', () => {
+
+    // ===========================================
+    // REQUESTS AND RESPONSES
+    // ===========================================
+
+    describe('ihttp', () => {
+        ihttp(UserService, (service, tc: GetUserCase) => service.getUser(tc.id)).where([
+            ['id', 'method', 'url',          'status', 'response',               'expected',               'expectedError'],
+            [7,    'GET',    '/api/users/7', 200,      { id: 7, name: 'Ann' },   { id: 7, name: 'Ann' },   undefined],
+            [8,    'GET',    '/api/users/8', 404,      'No such user',           undefined,                { status: 404, error: 'No such user' }],
+            [9,    'GET',    '/api/users/9', 401,      null,                     undefined,                { status: 401, statusText: 'Unauthorized' }],
+            [10,   'GET',    '/api/users/10', 500,     null,                     undefined,                { status: 500, message: 'Http failure response for /api/users/10: 500 Internal Server Error' }]
+        ]);
+
+        ihttp(UserService, (service, tc) => service.getUser(tc['id'])).where([
+            { id: 11, url: '/api/users/11', networkError: 'timeout', expectedError: { status: 0, name: 'HttpErrorResponse' } }
+        ]);
+
+        ihttp(UserService, (service, tc) => service.createUser(tc['name']), { name: 'creates "$name"' }).where([
+            { name: 'Bo', method: 'POST', url: '/api/users', body: { name: 'Bo' }, status: 201, response: { id: 12, name: 'Bo' }, expected: { id: 12, name: 'Bo' } },
+            { name: '', method: 'POST', url: '/api/users', body: { name: '' }, status: 422, expectedError: { status: 422 } }
+        ]);
+
+        ihttp(UserService, (service) => service.countUsers()).where([
+            { url: '/api/users', headers: { 'X-Total-Count': '42' }, response: [], expected: 42 }
+        ]);
+
+        ihttp(UserService, (service, tc) => service.deleteUser(tc['id'])).where([
+            { id: 7, method: 'DELETE', url: '/api/users/7', status: 204, expected: null },
+            { id: 8, method: 'DELETE', url: '/v2/users/8', status: 403, expectedError: { status: 403 }, providers: [{ provide: API_URL, useValue: '/v2' }] }
+        ]);
+    });
+
+    // ===========================================
+    // NAMES
+    // ===========================================
+
+    describe('case names', () => {
+        it('should default to the request and the status or network error', () => {
+            const mockJasmineFn = jasmine.createSpy('jasmineFn');
+
+            createHttpRunner(mockJasmineFn)(UserService, (service, tc) => service.getUser(tc['id'])).where([
+                { id: 1, method: 'GET', url: '/api/users/1', expected: null },
+                { id: 2, method: 'GET', url: '/api/users/2', status: 404, expectedError: { status: 404 } },
+                { id: 3, url: '/api/users/3', networkError: 'timeout', expectedError: { status: 0 } }
+            ]);
+
+            expect(mockJasmineFn.calls.allArgs().map(args => args[0])).toEqual([
+                'GET /api/users/1 → 200',
+                'GET /api/users/2 → 404',
+                '/api/users/3 → timeout'
+            ]);
+        });
+    });
+
+    // ===========================================
+    // OPTIONAL COLUMNS
+    // ===========================================
+
+    describe('optional columns', () => {
+        it('should register whereCombinations cases like .where() rows', () => {
+            const mockJasmineFn = jasmine.createSpy('jasmineFn');
+
+            createHttpRunner(mockJasmineFn)(UserService, (service, tc) => service.getUser(tc['id'])).whereCombinations({
+                id: [1, 2],
+                url: ['/api/users'],
+                expected: [null]
+            });
+
+            expect(mockJasmineFn).toHaveBeenCalledTimes(2);
+        });
+
+        it('should add the optional option of .where() to the HTTP columns', () => {
+            const mockJasmineFn = jasmine.createSpy('jasmineFn');
+
+            createHttpRunner(mockJasmineFn)(UserService, (service, tc) => service.getUser(tc['id'])).where([
+                { id: 1, url: '/api/users/1', expected: null, note: 'first' },
+                { id: 2, url: '/api/users/2', status: 404, expectedError: { status: 404 } }
+            ], { optional: ['note'] });
+
+            expect(mockJasmineFn).toHaveBeenCalledTimes(2);
+        });
+    });
+
+    // ===========================================
+    // TYPES
+    // ===========================================
+
+    describe('case types', () => {
+        it('should check rows against the case type', () => {
+            const runner = createHttpRunner(jasmine.createSpy('jasmineFn'))(UserService, (service, tc: GetUserCase) => service.getUser(tc.id));
+
+            runner.where([{ id: 1, url: '/api/users/1', expected: null }]);
+            // @ts-expect-error - 'id' is a number
+            runner.where([{ id: '1', url: '/api/users/1', expected: null }]);
+            // @ts-expect-error - 'id' is a number
+            runner.whereCombinations({ id: ['1'], url: ['/api/users/1'], expected: [null] });
+
+            expect().nothing();
+        });
+    });
+
+    // ===========================================
+    // ERROR HANDLING
+    // ===========================================
+
+    describe('error handling', () => {
+        const runCase = (testCase: TestCase, call: HttpCall<UserService> = (service) => service.getUser(1)): Promise<unknown> => {
+            const mockJasmineFn = jasmine.createSpy('jasmineFn');
+            createHttpRunner(mockJasmineFn)(UserService, call, { name: 'case $index' }).where([testCase]);
+            return mockJasmineFn.calls.argsFor(0)[1].call({});
+        };
+
+        it('should reject invalid services and calls', () => {
+            expect(() => createHttpRunner(jasmine.createSpy('jasmineFn'))(null as any, () => Promise.resolve()))
+                .toThrowError('HTTP runner expects a service class, received: null');
+            expect(() => createHttpRunner(jasmine.createSpy('jasmineFn'))(UserService, 'getUser' as any))
+                .toThrowError('HTTP runner expects a function calling the service method, received: string');
+        });
+
+        it('should reject cases without a url or a single expectation', async () => {
+            await expectAsync(runCase({ expected: null })).toBeRejectedWithError(
+                `HTTP case for template "case $index" has invalid 'url' - expected the URL of the expected request, received: undefined`
+            );
+            await expectAsync(runCase({ url: '/api/users/1' })).toBeRejectedWithError(
+                `HTTP case for template "case $index" must have either 'expected' (the emitted value) or 'expectedError' (properties of the error), found neither`
+            );
+            await expectAsync(runCase({ url: '/api/users/1', expected: null, expectedError: { status: 404 } })).toBeRejectedWithError(
+                `HTTP case for template "case $index" must have either 'expected' (the emitted value) or 'expectedError' (properties of the error), found both`
+            );
+            await expectAsync(runCase({ url: '/api/users/1', expectedError: 404 })).toBeRejectedWithError(
+                `HTTP case for template "case $index" has invalid 'expectedError' - expected an object of error properties such as { status: 404 }, received: number`
+            );
+        });
+
+        it('should reject calls that return neither an observable nor a promise', async () => {
+            await expectAsync(runCase({ url: '/api/users/1', expected: null }, () => undefined as any)).toBeRejectedWithError(
+                `HTTP call for template "case $index" must return an observable or a promise, received: undefined`
+            );
+        });
+
+        it('should fail when the call succeeds against the expectation', async () => {
+            await expectAsync(runCase({ url: '/api/users/1', response: 'Ann', expectedError: { status: 404 } })).toBeRejectedWithError(
+                `HTTP call for template "case $index" emitted "Ann", expected it to fail with {status: 404}`
+            );
+        });
+
+        it('should fail when the call fails against the expectation', async () => {
+            await expectAsync(runCase({ url: '/api/users/1', status: 500, expected: 'Ann' })).toBeRejectedWithError(
+                `HTTP call for template "case $index" failed, expected it to emit "Ann": Http failure response for /api/users/1: 500 Internal Server Error`
+            );
+        });
+
+        it('should fail when the request does not match', async () => {
+            await expectAsync(runCase({ method: 'POST', url: '/api/users/1', expected: null })).toBeRejectedWithError(
+                /Expected one matching request for criteria "Match method: POST, URL: \/api\/users\/1", found none/
+            );
+        });
+
+        it('should fail when requests are left outstanding', async () => {
+            await expectAsync(runCase({ method: 'PATCH', url: '/api/users/1', expected: null }, (service) => service.renameUser(1, 'Cy'))).toBeRejectedWithError(
+                /Expected no open requests, found 1: GET \/api\/audit/
+            );
+        });
+
+        it('should report a failed case rather than the requests it left open', async () => {
+            await expectAsync(runCase({ method: 'PATCH', url: '/api/users/1', expectedError: { status: 404 } }, (service) => service.renameUser(1, 'Cy'))).toBeRejectedWithError(
+                `HTTP call for template "case $index" emitted null, expected it to fail with {status: 404}`
+            );
+        });
+    });
+});
@@ -0,0 +1,155 @@
+/**
+ * Angular Pipe Runner Tests
+ *
+ * ipipe registers real Jasmine specs that inject the pipe per case and compare
+ * `transform(input, ...args)` with `expected`. Covers Angular's CurrencyPipe with its
+ * locale providers, a custom pipe with an injected dependency, default names and errors.
+ */
+
+import { CurrencyPipe } from '@angular/common';
+import { InjectionToken, LOCALE_ID, Pipe, inject, type PipeTransform } from '@angular/core';
+import { createPipeRunner, ipipe } from '../parameterization-test.angular';
+import { configureParameterizedTests, resetParameterizedTestsConfig } from '../parameterization-test.core';
+import type { TestCase, WhereOptions } from '../runner/types';
+
+const ELLIPSIS = new InjectionToken<string>('ELLIPSIS', { factory: () => '…' });
+
+@Pipe({ name: 'truncate', standalone: true })
+class TruncatePipe implements PipeTransform {
+    private readonly ellipsis = inject(ELLIPSIS);
+
+    transform(value: string, length = 5): string {
+        return value.length > length ? value.slice(0, length) + this.ellipsis : value;
+    }
+}
+
+describe('Angular pipe runner', () => {
+
+    // ===========================================
+    // REAL PIPES
+    // ===========================================
+
+    describe('ipipe', () => {
+        ipipe(CurrencyPipe).where([
+            ['input', 'args',          'expected'],
+            [12.5,    ['EUR'],         '€12.50'],
+            [12.5,    ['USD', 'code'], 'USD12.50'],
+            [0.5,     [],              '$0.50']
+        ]);
+
+        ipipe(CurrencyPipe, {
+            name: 'formats $input with digit grouping as $expected',
+            providers: [{ provide: LOCALE_ID, useValue: 'en-US' }]
+        }).where([
+            { input: 1234.5, args: ['EUR'], expected: '€1,234.50' }
+        ]);
+
+        ipipe(TruncatePipe).where([
+            { input: 'Angular', expected: 'Angul…' },
+            { input: 'Angular', args: [10], expected: 'Angular' },
+            { input: 'Angular', args: [3], providers: [{ provide: ELLIPSIS, useValue: '...' }], expected: 'Ang...' }
+        ], { optional: ['args', 'providers'] });
+    });
+
+    // ===========================================
+    // NAMES
+    // ===========================================
+
+    describe('case names', () => {
+        afterEach(() => {
+            resetParameterizedTestsConfig();
+        });
+
+        const registeredNames = (rows: Record<string, unknown>[], setup = {}, options: WhereOptions = {}): string[] => {
+            const mockJasmineFn = jasmine.createSpy('jasmineFn');
+            createPipeRunner(mockJasmineFn)<CurrencyPipe, TestCase>(CurrencyPipe, setup).where(rows, { optional: ['args'], ...options });
+            return mockJasmineFn.calls.allArgs().map(args => args[0]);
+        };
+
+        it('should default to the transform() call and the expected result', () => {
+            expect(registeredNames([
+                { input: 12.5, args: ['EUR'], expected: '€12.50' },
+                { input: null, expected: null },
+                { input: 'x', args: [{ display: 'symbol' }], expected: 'x' }
+            ])).toEqual([
+                'transform(12.5, "EUR") → €12.50',
+                'transform(null) → null',
+                'transform("x", {display: "symbol"}) → x'
+            ]);
+        });
+
+        it('should render values with the configured formatters', () => {
+            configureParameterizedTests({ formatters: [{ test: (value) => typeof value === 'number', format: (value) => `#${value}` }] });
+
+            expect(registeredNames([{ input: 5, expected: '$5.00' }])).toEqual(['transform(#5) → $5.00']);
+        });
+
+        it('should render values with the formatters and quoting given to .where()', () => {
+            configureParameterizedTests({ formatters: [{ test: (value) => typeof value === 'number', format: (value) => `#${value}` }] });
+
+            expect(registeredNames([{ input: 5, expected: '$5.00' }], {}, {
+                formatters: [{ test: (value) => typeof value === 'number', format: (value) => `${value} USD` }],
+                quoteStrings: true
+            })).toEqual(['transform(5 USD) → "$5.00"']);
+        });
+
+        it('should use a name template or name function from the setup', () => {
+            expect(registeredNames([{ input: 5, expected: '$5.00' }], { name: '$input as $expected' })).toEqual(['5 as $5.00']);
+            expect(registeredNames([{ input: 5, expected: '$5.00' }], { name: () => 'five' })).toEqual(['five']);
+        });
+    });
+
+    // ===========================================
+    // TYPES
+    // ===========================================
+
+    describe('case types', () => {
+        it('should check rows against the pipe columns', () => {
+            const runner = createPipeRunner(jasmine.createSpy('jasmineFn'))(TruncatePipe);
+
+            runner.where([{ input: 'a', args: [1], expected: 'a' }]);
+            // @ts-expect-error - 'expected' is required
+            runner.where([{ input: 'a' }]);
+            // @ts-expect-error - 'args' is an array
+            runner.where([{ input: 'a', args: 1, expected: 'a' }]);
+
+            expect().nothing();
+        });
+    });
+
+    // ===========================================
+    // ERROR HANDLING
+    // ===========================================
+
+    describe('error handling', () => {
+        const runCase = (testCase: Record<string, unknown>): unknown => {
+            const mockJasmineFn = jasmine.createSpy('jasmineFn');
+            createPipeRunner(mockJasmineFn)<TruncatePipe, TestCase>(TruncatePipe, { name: 'case $index' }).where([testCase]);
+            return mockJasmineFn.calls.argsFor(0)[1].call({});
+        };
+
+        it('should reject classes that are not pipes', () => {
+            class PlainClass {}
+
+            expect(() => createPipeRunner(jasmine.createSpy('jasmineFn'))(PlainClass as any))
+                .toThrowError('Pipe runner expects a pipe class, received: class PlainClass without a transform() method');
+            expect(() => createPipeRunner(jasmine.createSpy('jasmineFn'))('truncate' as any))
+                .toThrowError('Pipe runner expects a pipe class, received: string');
+        });
+
+        it('should reject cases with invalid args or providers', () => {
+            expect(() => runCase({ input: 'a', args: 3, expected: 'a' })).toThrowError(
+                `Pipe case for template "case $index" has invalid 'args' - expected an array of transform() arguments, received: number`
+            );
+            expect(() => runCase({ input: 'a', providers: {}, expected: 'a' })).toThrowError(
+                `Pipe case for template "case $index" has invalid 'providers' - expected an array of providers, received: object`
+            );
+        });
+
+        it('should reject cases without an expected column', () => {
+            expect(() => runCase({ input: 'a' })).toThrowError(
+                `Pipe case for template "case $index" has no 'expected' column - the result of transform() is compared with it`
+            );
+        });
+    });
+});
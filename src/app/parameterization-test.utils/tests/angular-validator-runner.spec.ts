@@ -0,0 +1,114 @@
+/**
+ * Angular Validator Runner Tests
+ *
+ * ivalidator registers real Jasmine specs that run a validator on a FormControl per case and
+ * compare its ValidationErrors with `expected`. Covers built-in, custom and async validators
+ * (promise and observable), default names and errors.
+ */
+
+import { Validators, type AbstractControl, type AsyncValidatorFn, type ValidationErrors } from '@angular/forms';
+import { of } from 'rxjs';
+import { createValidatorRunner, ivalidator } from '../parameterization-test.angular';
+import type { TestCase } from '../runner/types';
+
+const evenValidator = (control: AbstractControl): ValidationErrors | null =>
+    control.value % 2 === 0 ? null : { even: { actual: control.value } };
+
+const TAKEN_NAMES = ['admin', 'root'];
+
+const availableNameValidator: AsyncValidatorFn = async (control) =>
+    TAKEN_NAMES.includes(control.value) ? { taken: true } : null;
+
+const availableNameObservableValidator: AsyncValidatorFn = (control) =>
+    of(TAKEN_NAMES.includes(control.value) ? { taken: true } : null);
+
+describe('Angular validator runner', () => {
+
+    // ===========================================
+    // VALIDATORS
+    // ===========================================
+
+    describe('ivalidator', () => {
+        ivalidator(Validators.required).where([
+            ['input', 'expected'],
+            ['',      { required: true }],
+            [null,    { required: true }],
+            ['Ann',   null]
+        ]);
+
+        ivalidator(Validators.pattern(/^[a-z]+$/)).where([
+            ['input', 'expected'],
+            ['abc',   null],
+            ['ab1',   { pattern: { requiredPattern: '/^[a-z]+$/', actualValue: 'ab1' } }]
+        ]);
+
+        ivalidator(evenValidator, { name: '$input is $expected' }).where([
+            { input: 4, expected: null, _description: 'even' },
+            { input: 3, expected: { even: { actual: 3 } } }
+        ]);
+
+        ivalidator(availableNameValidator).where([
+            { input: 'admin', expected: { taken: true } },
+            { input: 'ann', expected: null }
+        ]);
+
+        ivalidator(availableNameObservableValidator).where([
+            { input: 'root', expected: { taken: true } },
+            { input: 'bo', expected: null }
+        ]);
+    });
+
+    // ===========================================
+    // NAMES
+    // ===========================================
+
+    describe('case names', () => {
+        it('should default to the input and the expected errors, or valid', () => {
+            const mockJasmineFn = jasmine.createSpy('jasmineFn');
+
+            createValidatorRunner(mockJasmineFn)(Validators.required).where([
+                { input: '', expected: { required: true } },
+                { input: 'Ann', expected: null },
+                { input: ['a'], expected: null }
+            ]);
+
+            expect(mockJasmineFn.calls.allArgs().map(args => args[0])).toEqual([
+                '"" → {required: true}',
+                '"Ann" → valid',
+                '["a"] → valid'
+            ]);
+        });
+
+        it('should render values with the formatters given to .where()', () => {
+            const mockJasmineFn = jasmine.createSpy('jasmineFn');
+
+            createValidatorRunner(mockJasmineFn)(evenValidator).where([
+                { input: 3, expected: { even: { actual: 3 } } }
+            ], { formatters: [{ test: (value) => typeof value === 'number', format: (value) => `#${value}` }] });
+
+            expect(mockJasmineFn.calls.argsFor(0)[0]).toBe('#3 → {even: {actual: #3}}');
+        });
+    });
+
+    // ===========================================
+    // ERROR HANDLING
+    // ===========================================
+
+    describe('error handling', () => {
+        it('should reject validators that are not functions', () => {
+            expect(() => createValidatorRunner(jasmine.createSpy('jasmineFn'))(null as any))
+                .toThrowError('Validator runner expects a validator function, received: null');
+            expect(() => createValidatorRunner(jasmine.createSpy('jasmineFn'))({ validate: evenValidator } as any))
+                .toThrowError('Validator runner expects a validator function, received: object');
+        });
+
+        it('should reject cases without an expected column', async () => {
+            const mockJasmineFn = jasmine.createSpy('jasmineFn');
+            createValidatorRunner(mockJasmineFn)<TestCase>(evenValidator, { name: 'case $index' }).where([{ input: 2 }]);
+
+            await expectAsync(mockJasmineFn.calls.argsFor(0)[1].call({})).toBeRejectedWithError(
+                `Validator case for template "case $index" has no 'expected' column - use null for a valid input`
+            );
+        });
+    });
+});
@@ -3,17 +3,38 @@
  *
  * These tests verify the pure utility functions that:
  * - Detect data format (object vs table)
- * - Format test names with placeholder replacement
+ * - Format test names with placeholder replacement or name functions
+ * - Render placeholder values (built-in and custom formatters)
+ * - Apply format specifiers (`$price:fixed2`, `$name:<10`)
  * - Normalize table format to objects
+ * - Parse tagged-template tables
  * - Validate object structure consistency
+ * - Report every invalid row at once
+ * - Detect column value type drift
+ * - Check cases against a schema
+ * - Find repeated cases
+ * - Find columns the test name never references
+ * - Disambiguate duplicate test names
+ * - Parse tag expressions for case filtering
  *
  * All functions tested here are pure (no side effects) and can be tested in isolation.
  */
 
 import { detectDataFormat } from '../formatters/detect-data-format';
-import { formatObjectTestName } from '../formatters/format-object-test-name';
-import { normalizeTableFormat } from '../formatters/normalize-table-format';
-import { validateObjectConsistency } from '../formatters/validate-object-consistency';
+import { formatObjectTestName, templatePlaceholderPaths } from '../formatters/format-object-test-name';
+import { describeNameTemplate, formatTestName } from '../formatters/format-test-name';
+import { findTableRowProblems, normalizeTableFormat } from '../formatters/normalize-table-format';
+import { formatValidationReport } from '../formatters/format-validation-report';
+import { findColumnTypeDrift, validateColumnTypes } from '../formatters/validate-column-types';
+import { findSchemaViolations, validateCaseSchema } from '../formatters/validate-case-schema';
+import { findDuplicateRows } from '../formatters/find-duplicate-rows';
+import { table } from '../formatters/table-template';
+import { findInconsistentRows, findSimilarKey, validateObjectConsistency } from '../formatters/validate-object-consistency';
+import { findUnreferencedColumns } from '../formatters/find-unreferenced-columns';
+import { disambiguateNames } from '../formatters/disambiguate-names';
+import { formatValue } from '../formatters/format-value';
+import { applySpecifiers } from '../formatters/format-specifiers';
+import { parseTagExpression } from '../formatters/parse-tag-expression';
 import { DataFormat } from '../runner/types';
 
 describe('Formatters and Validators - Unit Tests', () => {
@@ -248,6 +269,362 @@ describe('Formatters and Validators - Unit Tests', () => {
             }, 5);
             expect(result).toBe('case 5: Eleanor');
         });
+
+        it('should render non-primitive values with the value formatters', () => {
+            const result = formatObjectTestName('$items and $user', { items: [1, 2], user: { name: 'Eleanor' } }, 0);
+            expect(result).toBe('[1, 2] and {name: "Eleanor"}');
+        });
+
+        it('should pass formatting options to the value formatters', () => {
+            const result = formatObjectTestName('$a $b', { a: 'x', b: 0 }, 0, {
+                quoteStrings: true,
+                formatters: [{ test: (v) => v === 0, format: () => 'zero' }]
+            });
+            expect(result).toBe('"x" zero');
+        });
+
+        it('should apply format specifiers to placeholders', () => {
+            const result = formatObjectTestName('$price:fixed2 for $payload:json ($name:>6)', {
+                price: 1.5,
+                payload: { id: 1 },
+                name: 'abc'
+            }, 0);
+            expect(result).toBe('1.50 for {"id":1} (   abc)');
+        });
+
+        it('should apply format specifiers to $index', () => {
+            const result = formatObjectTestName('case $index:0>3: $index', { index: 99 }, 7);
+            expect(result).toBe('case 007: 7');
+        });
+
+        it('should keep text after a colon that is not a specifier', () => {
+            const result = formatObjectTestName('$key: $value, $host:8080', { key: 'k', value: 1, host: 'localhost' }, 0);
+            expect(result).toBe('k: 1, localhost:8080');
+        });
+
+        it('should keep an unknown specifier after an unbraced placeholder as text', () => {
+            expect(formatObjectTestName('status $name:passed', { name: 'x' }, 0)).toBe('status x:passed');
+            expect(formatObjectTestName('$field:invalid is rejected', { field: 'email' }, 0)).toBe('email:invalid is rejected');
+            expect(formatObjectTestName('$code:upper:passed', { code: 'eur' }, 0)).toBe('EUR:passed');
+            expect(formatObjectTestName('case $index:passed', {}, 3)).toBe('case 3:passed');
+            expect(formatObjectTestName('$missing:passed', { a: 1 }, 0)).toBe('$missing:passed');
+        });
+
+        it('should reject unknown specifiers inside braces, even on unresolved placeholders', () => {
+            expect(() => formatObjectTestName('${missing:jsno}', { a: 1 }, 0)).toThrowError(
+                /Unknown format specifier ':jsno' in placeholder "\$\{missing:jsno\}"/
+            );
+        });
+
+        it('should leave unresolved placeholders with specifiers as written', () => {
+            const result = formatObjectTestName('$missing:json', { a: 1 }, 0);
+            expect(result).toBe('$missing:json');
+        });
+
+        it('should render $$ as a literal dollar sign', () => {
+            expect(formatObjectTestName('costs $$$price', { price: 5 }, 0)).toBe('costs $5');
+            expect(formatObjectTestName('$$index and $$price', { price: 5 }, 3)).toBe('$index and $price');
+        });
+
+        it('should end braced placeholders at the closing brace', () => {
+            const result = formatObjectTestName('${count}items, ${user.name}s, #${index}', { count: 3, user: { name: 'Eleanor' } }, 2);
+            expect(result).toBe('3items, Eleanors, #2');
+        });
+
+        it('should apply format specifiers inside braces', () => {
+            const result = formatObjectTestName('${price:fixed2}EUR ${index:0>2}', { price: 1.5 }, 4);
+            expect(result).toBe('1.50EUR 04');
+        });
+
+        it('should leave unresolved braced placeholders as written', () => {
+            expect(formatObjectTestName('${missing}x', { a: 1 }, 0)).toBe('${missing}x');
+        });
+
+        it('should throw for braces without a property path', () => {
+            expect(() => formatObjectTestName('a ${} b', {}, 0)).toThrowError(
+                /Invalid placeholder "\$\{\}" in test name template "a \$\{\} b": expected a property path inside the braces/
+            );
+            expect(() => formatObjectTestName('${user name}', {}, 0)).toThrowError(/Invalid placeholder "\$\{user name\}"/);
+        });
+
+        it('should resolve quoted bracket keys', () => {
+            const testCase = {
+                headers: { 'content-type': 'text/csv' },
+                vars: { '--main-color': 'red' },
+                'user.name': 'Literal'
+            };
+            expect(formatObjectTestName("$headers['content-type']", testCase, 0)).toBe('text/csv');
+            expect(formatObjectTestName('$vars["--main-color"]', testCase, 0)).toBe('red');
+            expect(formatObjectTestName("$['user.name'] and ${['user.name']}!", testCase, 0)).toBe('Literal and Literal!');
+            expect(formatObjectTestName("$$['user.name']", testCase, 0)).toBe("$['user.name']");
+        });
+
+        it('should combine quoted bracket keys with other segments', () => {
+            const testCase = { rows: [{ 'first name': 'Eleanor' }] };
+            expect(formatObjectTestName("$rows[0]['first name']:upper", testCase, 0)).toBe('ELEANOR');
+        });
+
+        it('should resolve properties of primitive values', () => {
+            expect(formatObjectTestName('$text.length chars', { text: 'abcd' }, 0)).toBe('4 chars');
+            expect(formatObjectTestName('$text.missing', { text: 'abcd' }, 0)).toBe('$text.missing');
+        });
+
+        it('should never resolve reserved keys', () => {
+            const result = formatObjectTestName('$value $_skip $_timeout', {
+                value: 1,
+                _skip: 'reason',
+                _timeout: 100
+            }, 0);
+            expect(result).toBe('1 $_skip $_timeout');
+        });
+
+        // ===========================================
+        // Strict mode
+        // ===========================================
+
+        describe('strict mode', () => {
+            it('should format names as usual when every placeholder resolves', () => {
+                const result = formatObjectTestName('$a + $user.name', { a: 1, user: { name: 'Eleanor' } }, 0, { strict: true });
+                expect(result).toBe('1 + Eleanor');
+            });
+
+            it('should leave unresolved placeholders in the name when not strict', () => {
+                const result = formatObjectTestName('$a is $expceted', { a: 1, expected: 2 }, 0, { strict: false });
+                expect(result).toBe('1 is $expceted');
+            });
+
+            it('should throw with a "did you mean" suggestion for a typo', () => {
+                expect(() => formatObjectTestName('$a is $expceted', { a: 1, expected: 2 }, 3, { strict: true })).toThrowError(
+                    'Unresolved placeholder in test name template "$a is $expceted" (test case 3):\n' +
+                    "  - $expceted (💡 Did you mean '$expected'?)\n" +
+                    "  Available keys: ['a', 'expected']\n\n" +
+                    'Strict mode requires every $placeholder to resolve on the test case.'
+                );
+            });
+
+            it('should list every unresolved placeholder at once', () => {
+                expect(() => formatObjectTestName('$foo and $bar', { a: 1 }, 0, { strict: true })).toThrowError(
+                    /Unresolved placeholders.*\n  - \$foo \('foo' is not a key of the test case\)\n  - \$bar \('bar' is not a key of the test case\)/
+                );
+            });
+
+            it('should suggest keys of nested objects', () => {
+                expect(() => formatObjectTestName('$user.nam', { user: { name: 'Eleanor' } }, 0, { strict: true })).toThrowError(
+                    /\$user\.nam \(💡 Did you mean '\$user\.name'\?\)/
+                );
+                expect(() => formatObjectTestName('$user.zzz', { user: { name: 'Eleanor' } }, 0, { strict: true })).toThrowError(
+                    /\$user\.zzz \('zzz' not found in '\$user'\)/
+                );
+            });
+
+            it('should explain that reserved keys never appear in names', () => {
+                expect(() => formatObjectTestName('$a $_skip', { a: 1, _skip: true }, 0, { strict: true })).toThrowError(
+                    /\$_skip \('_skip' is a reserved key and never appears in names\)\n  Available keys: \['a'\]/
+                );
+            });
+
+            it('should not count $index as a placeholder to resolve', () => {
+                expect(formatObjectTestName('case $index', {}, 4, { strict: true })).toBe('case 4');
+            });
+        });
+    });
+
+    // ===========================================
+    // formatValue
+    // ===========================================
+
+    describe('formatValue', () => {
+        class Money {
+            constructor(readonly amount: number, readonly currency: string) {}
+        }
+
+        class Point {
+            constructor(readonly x: number, readonly y: number) {}
+        }
+
+        it('should render primitives', () => {
+            expect(formatValue('text')).toBe('text');
+            expect(formatValue(42)).toBe('42');
+            expect(formatValue(true)).toBe('true');
+            expect(formatValue(null)).toBe('null');
+            expect(formatValue(undefined)).toBe('undefined');
+            expect(formatValue(Symbol('s'))).toBe('Symbol(s)');
+        });
+
+        it('should tell -0, NaN and BigInt apart', () => {
+            expect(formatValue(-0)).toBe('-0');
+            expect(formatValue(NaN)).toBe('NaN');
+            expect(formatValue(BigInt(123))).toBe('123n');
+        });
+
+        it('should quote strings inside objects and arrays, and at the top level on request', () => {
+            expect(formatValue(['1', 1])).toBe('["1", 1]');
+            expect(formatValue('1', { quoteStrings: true })).toBe('"1"');
+            expect(formatValue('say "hi"', { quoteStrings: true })).toBe('"say \\"hi\\""');
+        });
+
+        it('should render arrays and plain objects JSON-like', () => {
+            expect(formatValue([1, [2, 3]])).toBe('[1, [2, 3]]');
+            expect(formatValue([])).toBe('[]');
+            expect(formatValue({ a: 1, b: { c: 'x' } })).toBe('{a: 1, b: {c: "x"}}');
+            expect(formatValue({})).toBe('{}');
+            expect(formatValue({ 'user-name': 'a' })).toBe('{"user-name": "a"}');
+            expect(formatValue(Object.create(null))).toBe('{}');
+        });
+
+        it('should prefix class instances with the class name', () => {
+            expect(formatValue(new Point(1, 2))).toBe('Point {x: 1, y: 2}');
+        });
+
+        it('should render Dates as ISO strings', () => {
+            expect(formatValue(new Date(Date.UTC(2024, 0, 15)))).toBe('2024-01-15T00:00:00.000Z');
+            expect(formatValue(new Date(NaN))).toBe('Invalid Date');
+        });
+
+        it('should render Maps, Sets and functions', () => {
+            expect(formatValue(new Map([['a', 1]]))).toBe('Map {"a" => 1}');
+            expect(formatValue(new Set([1, 2]))).toBe('Set {1, 2}');
+            expect(formatValue(function parse() {})).toBe('[Function parse]');
+        });
+
+        it('should keep custom toString() implementations', () => {
+            expect(formatValue(new Error('boom'))).toBe('Error: boom');
+            expect(formatValue(/a+/g)).toBe('/a+/g');
+            expect(formatValue({ toString: () => 'custom' })).toBe('custom');
+        });
+
+        it('should detect cycles', () => {
+            const node: any = { name: 'root', children: [] };
+            node.children.push(node);
+            expect(formatValue(node)).toBe('{name: "root", children: [[Circular]]}');
+        });
+
+        it('should not treat repeated (non-circular) references as cycles', () => {
+            const shared = { a: 1 };
+            expect(formatValue([shared, shared])).toBe('[{a: 1}, {a: 1}]');
+        });
+
+        it('should truncate long values with an ellipsis only when maxValueLength is set', () => {
+            expect(formatValue('x'.repeat(100))).toBe('x'.repeat(100));
+            expect(formatValue('x'.repeat(100), { maxValueLength: 80 })).toBe('x'.repeat(79) + '…');
+            expect(formatValue([1, 2, 3, 4], { maxValueLength: 6 })).toBe('[1, 2…');
+            expect(formatValue('x'.repeat(100), { maxValueLength: Infinity })).toBe('x'.repeat(100));
+        });
+
+        it('should use custom formatters keyed by constructor', () => {
+            const formatters = [{ type: Money, format: (m: Money) => `${m.amount.toFixed(2)} ${m.currency}` }];
+            expect(formatValue(new Money(5, 'EUR'), { formatters })).toBe('5.00 EUR');
+            expect(formatValue({ price: new Money(1, 'USD') }, { formatters })).toBe('{price: 1.00 USD}');
+        });
+
+        it('should use custom formatters keyed by predicate, in order', () => {
+            const formatters = [
+                { test: (v: unknown) => v === 0, format: () => 'zero' },
+                { test: (v: unknown) => typeof v === 'number', format: (v: number) => `#${v}` }
+            ];
+            expect(formatValue([0, 1], { formatters })).toBe('[zero, #1]');
+        });
+
+        it('should let custom formatters render nested values', () => {
+            const formatters = [{ type: Point, format: (p: Point, nested: (v: unknown) => string) => `(${nested(p.x)}; ${nested('y')})` }];
+            expect(formatValue(new Point(1, 2), { formatters })).toBe('(1; "y")');
+        });
+
+        it('should throw for formatters without type or test', () => {
+            expect(() => formatValue(1, { formatters: [{ format: () => '' } as any] })).toThrowError(
+                /Value formatter must have a 'type' constructor or a 'test' predicate, received keys: \[format\]/
+            );
+        });
+    });
+
+    // ===========================================
+    // applySpecifiers
+    // ===========================================
+
+    describe('applySpecifiers', () => {
+        const apply = (value: unknown, chain: string, options = {}) =>
+            applySpecifiers(value, chain, `$x${chain}`, `test $x${chain}`, options);
+
+        it('should format the value as usual without specifiers', () => {
+            expect(apply([1, 'a'], '')).toBe('[1, "a"]');
+        });
+
+        it('should apply built-in specifiers', () => {
+            expect(apply({ a: [1] }, ':json')).toBe('{"a":[1]}');
+            expect(apply(BigInt(5), ':json')).toBe('"5n"');
+            expect(apply({ a: 1 }, ':raw')).toBe('[object Object]');
+            expect(apply('hi', ':quote')).toBe('"hi"');
+            expect(apply('Hi', ':upper')).toBe('HI');
+            expect(apply('Hi', ':lower')).toBe('hi');
+            expect(apply(1.5, ':fixed(2)')).toBe('1.50');
+            expect(apply('2', ':fixed')).toBe('2');
+            expect(apply(1234.5, ':currency(EUR)')).toBe('€1,234.50');
+            expect(apply(3, ':currency')).toBe('$3.00');
+            expect(apply(new Date(Date.UTC(2024, 0, 15, 10, 30)), ':iso')).toBe('2024-01-15T10:30:00.000Z');
+            expect(apply('2024-01-15T10:30:00Z', ':date')).toBe('2024-01-15');
+            expect(apply('not a date', ':iso')).toBe('Invalid Date');
+        });
+
+        it('should accept trailing digits as the argument', () => {
+            expect(apply(1.005, ':fixed3')).toBe('1.005');
+        });
+
+        it('should pad to a width with alignment and fill', () => {
+            expect(apply('ab', ':<5')).toBe('ab   ');
+            expect(apply('ab', ':>5')).toBe('   ab');
+            expect(apply('ab', ':^6')).toBe('  ab  ');
+            expect(apply(7, ':0>3')).toBe('007');
+            expect(apply('abcdef', ':>3')).toBe('abcdef');
+        });
+
+        it('should apply chained specifiers left to right', () => {
+            expect(apply(1.5, ':fixed2:>6')).toBe('  1.50');
+            expect(apply('ab', ':>4:upper')).toBe('  AB');
+            expect(apply('ab', ':quote:*^6')).toBe('*"ab"*');
+        });
+
+        it('should use custom specifiers with arguments', () => {
+            const specifiers = { percent: (v: unknown, [digits = '0']: readonly string[]) => `${(Number(v) * 100).toFixed(Number(digits))}%` };
+            expect(apply(0.125, ':percent(1)', { specifiers })).toBe('12.5%');
+            expect(apply(0.5, ':percent', { specifiers })).toBe('50%');
+        });
+
+        it('should let custom specifiers override built-in ones', () => {
+            expect(apply(1, ':json', { specifiers: { json: () => 'custom' } })).toBe('custom');
+        });
+
+        it('should throw for unknown specifiers with a suggestion', () => {
+            expect(() => apply(1, ':curency')).toThrowError(
+                /Unknown format specifier ':curency' in placeholder "\$x:curency" of test name template "test \$x:curency"\n💡 Did you mean ':currency'\?\nAvailable specifiers: json, raw, quote/
+            );
+            expect(() => apply(1, ':zzz')).toThrowError(/Unknown format specifier ':zzz'[^💡]*Available specifiers/);
+        });
+
+        it('should report specifiers failing on the value', () => {
+            expect(() => apply({}, ':fixed2')).toThrowError(
+                /Format specifier ':fixed2' failed in placeholder "\$x:fixed2" of test name template "test \$x:fixed2": expected a number, received: object/
+            );
+            expect(() => apply(1, ':fixed(x)')).toThrowError(/expected a number of digits from 0 to 100, received: 'x'/);
+            expect(() => apply(1, ':currency(XXXX)')).toThrowError(/Format specifier ':currency\(XXXX\)' failed/);
+        });
+    });
+
+    // ===========================================
+    // templatePlaceholderPaths
+    // ===========================================
+
+    describe('templatePlaceholderPaths', () => {
+        it('should list property paths in order, without $index', () => {
+            expect(templatePlaceholderPaths('case $index: $a and $user.name, $items[0]')).toEqual(['a', 'user.name', 'items[0]']);
+        });
+
+        it('should include braced and quoted placeholders and skip escapes', () => {
+            expect(templatePlaceholderPaths("$$a ${b}c ${index} $headers['x-y']")).toEqual(['b', "headers['x-y']"]);
+        });
+
+        it('should return an empty list for templates without placeholders', () => {
+            expect(templatePlaceholderPaths('plain name')).toEqual([]);
+        });
     });
 
     // ===========================================
@@ -401,6 +778,138 @@ describe('Formatters and Validators - Unit Tests', () => {
         });
     });
 
+    // ===========================================
+    // table (tagged template)
+    // ===========================================
+
+    describe('table', () => {
+        it('should parse headers and rows into table format', () => {
+            const result = table`
+                a    | b    | expected
+                ${1} | ${2} | ${3}
+                ${4} | ${5} | ${9}
+            `;
+
+            expect(result).toEqual([
+                ['a', 'b', 'expected'],
+                [1, 2, 3],
+                [4, 5, 9]
+            ]);
+        });
+
+        it('should keep interpolated values as real JS values', () => {
+            const date = new Date('2024-01-01T00:00:00Z');
+            const obj = { nested: 'value' };
+            const fn = () => 42;
+
+            const [, row] = table`
+                date    | obj    | fn    | missing
+                ${date} | ${obj} | ${fn} | ${undefined}
+            `;
+
+            expect(row[0]).toBe(date);
+            expect(row[1]).toBe(obj);
+            expect(row[2]).toBe(fn);
+            expect(row[3]).toBeUndefined();
+        });
+
+        it('should support the one-line form by grouping values per header count', () => {
+            const result = table`a | b | expected ${1} | ${2} | ${3} | ${4} | ${5} | ${9}`;
+
+            expect(result).toEqual([
+                ['a', 'b', 'expected'],
+                [1, 2, 3],
+                [4, 5, 9]
+            ]);
+        });
+
+        it('should allow leading and trailing pipes', () => {
+            const result = table`
+                | a    | b    |
+                | ${1} | ${2} |
+            `;
+
+            expect(result).toEqual([['a', 'b'], [1, 2]]);
+        });
+
+        it('should skip blank lines between rows', () => {
+            const result = table`
+                value
+
+                ${1}
+
+                ${2}
+            `;
+
+            expect(result).toEqual([['value'], [1], [2]]);
+        });
+
+        it('should produce headers only when there are no rows', () => {
+            expect(table`a | b`).toEqual([['a', 'b']]);
+        });
+
+        it('should normalize through normalizeTableFormat', () => {
+            const result = normalizeTableFormat(table`
+                name        | age
+                ${'Eleanor'} | ${30}
+            `);
+
+            expect(result).toEqual([{ name: 'Eleanor', age: 30 }]);
+        });
+
+        it('should report row length mismatches through normalizeTableFormat', () => {
+            expect(() => {
+                normalizeTableFormat(table`
+                    a    | b
+                    ${1} | ${2}
+                    ${3}
+                `);
+            }).toThrowError(/row 1 has 1 values but expected 2/);
+        });
+
+        it('should throw for a missing header row', () => {
+            expect(() => table`${1} | ${2}`).toThrowError(/requires a header row/);
+            expect(() => table`   `).toThrowError(/requires a header row/);
+        });
+
+        it('should throw for empty header columns', () => {
+            expect(() => table`a | | b`).toThrowError(/header column 1 is empty/);
+        });
+
+        it('should throw for values not separated by exactly one pipe', () => {
+            expect(() => {
+                table`
+                    a    | b
+                    ${1} | ${2}
+                    ${3}   ${4}
+                `;
+            }).toThrowError(/^Table template row 1 \(line 4\) has no '\|' between values 0 and 1 of the line but expected one\nHeaders: \["a","b"\]$/);
+
+            expect(() => {
+                table`
+                    a    | b
+                    ${1} || ${2}
+                `;
+            }).toThrowError(/^Table template row 0 \(line 3\) has 2 '\|' between values 0 and 1/);
+
+            expect(() => table`a | b ${1} | ${2} ${3} | ${4}`).toThrowError(
+                /^Table template row 0 \(line 1\) has no '\|' between values 1 and 2 of the line/
+            );
+            expect(() => table`a | b ${1} | ${2} | ${3} ${4}`).toThrowError(
+                /^Table template row 1 \(line 1\) has no '\|' between values 2 and 3 of the line/
+            );
+        });
+
+        it('should throw for literal text in data rows', () => {
+            expect(() => {
+                table`
+                    a    | b
+                    ${1} | two
+                `;
+            }).toThrowError(/line 3 contains literal text "\| two"/);
+        });
+    });
+
     // ===========================================
     // validateObjectConsistency
     // ===========================================
@@ -429,6 +938,18 @@ describe('Formatters and Validators - Unit Tests', () => {
             }).not.toThrow();
         });
 
+        it('should ignore reserved keys present on only some objects', () => {
+            expect(() => {
+                validateObjectConsistency([
+                    {a: 1},
+                    {a: 2, _skip: 'flaky'},
+                    {a: 3, _only: true, _timeout: 100},
+                    {a: 4, _pending: 'JIRA-123'},
+                    {a: 5, _name: 'custom', _description: 'details'}
+                ], 'test $a');
+            }).not.toThrow();
+        });
+
         it('should throw when second object is missing a key', () => {
             expect(() => {
                 validateObjectConsistency([
@@ -538,6 +1059,50 @@ describe('Formatters and Validators - Unit Tests', () => {
             }
         });
 
+        describe('optional keys', () => {
+            it('should let optional keys be absent from any object', () => {
+                expect(() => {
+                    validateObjectConsistency([
+                        {a: 1, mockResponse: 'ok'},
+                        {a: 2},
+                        {a: 3, expectedWarning: 'deprecated'}
+                    ], 'test $a', new Set(['mockResponse', 'expectedWarning']));
+                }).not.toThrow();
+            });
+
+            it('should still report undeclared keys', () => {
+                expect(() => {
+                    validateObjectConsistency([
+                        {a: 1},
+                        {a: 2, extra: true}
+                    ], 'test $a', new Set(['mockResponse']));
+                }).toThrowError(/Test case 1 has unexpected: 'extra'[\s\S]*Remove property 'extra'/);
+            });
+
+            it('should suggest the optional key for a mistyped one', () => {
+                expect(() => {
+                    validateObjectConsistency([
+                        {a: 1},
+                        {a: 2, mockRespone: 'ok'}
+                    ], 'test $a', new Set(['mockResponse']));
+                }).toThrowError(/Did you mean optional key 'mockResponse' instead of 'mockRespone'\?/);
+
+                // Mistyped in the first object, so the others seem to miss it
+                expect(() => {
+                    validateObjectConsistency([
+                        {a: 1, mockRespone: 'ok'},
+                        {a: 2}
+                    ], 'test $a', new Set(['mockResponse']));
+                }).toThrowError(/Did you mean optional key 'mockResponse' instead of 'mockRespone'\?/);
+            });
+
+            it('should point to the optional and defaults options', () => {
+                expect(() => {
+                    validateObjectConsistency([{a: 1, b: 2}, {a: 3}], 'test $a');
+                }).toThrowError(/declare keys only some cases have with the 'optional' or 'defaults' option of \.where\(\)/);
+            });
+        });
+
         // Suggestion Tests
         describe('error message suggestions', () => {
             it('should suggest typo fix when keys are similar', () => {
@@ -644,4 +1209,555 @@ describe('Formatters and Validators - Unit Tests', () => {
             expect(result).toBe('case -1');
         });
     });
+
+    // ===========================================
+    // parseTagExpression
+    // ===========================================
+
+    describe('parseTagExpression', () => {
+        it('should match a single tag', () => {
+            const matches = parseTagExpression('slow');
+            expect(matches(['slow', 'i18n'])).toBe(true);
+            expect(matches(['i18n'])).toBe(false);
+            expect(matches([])).toBe(false);
+        });
+
+        it('should negate with !', () => {
+            const matches = parseTagExpression('!slow');
+            expect(matches([])).toBe(true);
+            expect(matches(['slow'])).toBe(false);
+            expect(parseTagExpression('!!slow')(['slow'])).toBe(true);
+        });
+
+        it('should combine with && and ||', () => {
+            expect(parseTagExpression('a && b')(['a', 'b'])).toBe(true);
+            expect(parseTagExpression('a && b')(['a'])).toBe(false);
+            expect(parseTagExpression('a || b')(['b'])).toBe(true);
+            expect(parseTagExpression('a || b')([])).toBe(false);
+        });
+
+        it('should treat , as ||', () => {
+            const matches = parseTagExpression('i18n,a11y');
+            expect(matches(['a11y'])).toBe(true);
+            expect(matches(['smoke'])).toBe(false);
+        });
+
+        it('should bind ! tighter than && and && tighter than ||', () => {
+            const matches = parseTagExpression('a || b && !c');  // a || (b && (!c))
+            expect(matches(['a', 'c'])).toBe(true);
+            expect(matches(['b'])).toBe(true);
+            expect(matches(['b', 'c'])).toBe(false);
+        });
+
+        it('should group with parentheses', () => {
+            const matches = parseTagExpression('!slow && (i18n || a11y)');
+            expect(matches(['i18n'])).toBe(true);
+            expect(matches(['i18n', 'slow'])).toBe(false);
+            expect(matches([])).toBe(false);
+        });
+
+        it('should allow -, ., : and / in tag names', () => {
+            expect(parseTagExpression('team:web-ui && v1.2/beta')(['team:web-ui', 'v1.2/beta'])).toBe(true);
+        });
+
+        it('should throw for empty expressions', () => {
+            expect(() => parseTagExpression('  ')).toThrowError(/Invalid tag expression "  ": expression is empty/);
+        });
+
+        it('should throw for malformed expressions with the position', () => {
+            expect(() => parseTagExpression('a &&')).toThrowError(
+                /Invalid tag expression "a &&": expected a tag, '!' or '\(', found end of expression/
+            );
+            expect(() => parseTagExpression('(a || b')).toThrowError(/expected '\)', found end of expression/);
+            expect(() => parseTagExpression('a b')).toThrowError(/expected '&&', '\|\|' or ',', found 'b' at position 2/);
+            expect(() => parseTagExpression('a & b')).toThrowError(/unexpected '&' at position 2/);
+        });
+    });
+
+    // ===========================================
+    // findSimilarKey
+    // ===========================================
+
+    describe('findSimilarKey', () => {
+        it('should return the most similar candidate', () => {
+            expect(findSimilarKey('expceted', ['a', 'b', 'expected'])).toBe('expected');
+            expect(findSimilarKey('nme', ['name', 'names'])).toBe('name');
+        });
+
+        it('should return undefined when no candidate is similar enough', () => {
+            expect(findSimilarKey('zzz', ['a', 'b'])).toBeUndefined();
+            expect(findSimilarKey('a', [])).toBeUndefined();
+        });
+    });
+
+    // ===========================================
+    // findUnreferencedColumns
+    // ===========================================
+
+    describe('findUnreferencedColumns', () => {
+        it('should report unreferenced columns with a distinct value per case', () => {
+            expect(findUnreferencedColumns('adds $a', [
+                { a: 1, b: 2, expected: 3 },
+                { a: 1, b: 3, expected: 4 }
+            ])).toEqual(['b', 'expected']);
+        });
+
+        it('should ignore columns with repeated values', () => {
+            expect(findUnreferencedColumns('$a', [
+                { a: 1, mode: 'x' },
+                { a: 2, mode: 'x' },
+                { a: 3, mode: 'y' }
+            ])).toEqual([]);
+        });
+
+        it('should treat a nested placeholder as a reference to its root column', () => {
+            expect(findUnreferencedColumns('$user.name and $items[0]', [
+                { user: { name: 'a' }, items: [1] },
+                { user: { name: 'b' }, items: [2] }
+            ])).toEqual([]);
+        });
+
+        it('should resolve the root column of quoted bracket keys like the name formatter', () => {
+            expect(findUnreferencedColumns("$['content-type'] via ${['a.b']} and $[\"x y\"].z", [
+                { 'content-type': 'text/csv', 'a.b': 1, 'x y': { z: 1 } },
+                { 'content-type': 'text/html', 'a.b': 2, 'x y': { z: 2 } }
+            ])).toEqual([]);
+        });
+
+        it('should ignore reserved keys and single cases', () => {
+            expect(findUnreferencedColumns('$a', [
+                { a: 1, _timeout: 100 },
+                { a: 2, _timeout: 200 }
+            ])).toEqual([]);
+            expect(findUnreferencedColumns('name', [{ a: 1 }])).toEqual([]);
+        });
+    });
+
+    // ===========================================
+    // disambiguateNames
+    // ===========================================
+
+    describe('disambiguateNames', () => {
+        it('should return unique names unchanged', () => {
+            expect(disambiguateNames(['a', 'b'], '$x')).toEqual(['a', 'b']);
+        });
+
+        it('should suffix repeated names with their case index, keeping the first', () => {
+            expect(disambiguateNames(['adds 1', 'adds 1', 'adds 2', 'adds 1'], 'adds $a')).toEqual([
+                'adds 1',
+                'adds 1 [case 1]',
+                'adds 2',
+                'adds 1 [case 3]'
+            ]);
+        });
+
+        it('should keep suffixed names unique', () => {
+            expect(disambiguateNames(['a', 'a [case 1]', 'a'], '$x')).toEqual(['a', 'a [case 1]', 'a [case 2]']);
+            expect(disambiguateNames(['a', 'a', 'a [case 1]'], '$x')).toEqual(['a', 'a [case 1]', 'a [case 1] [case 2]']);
+        });
+
+        it('should throw listing every duplicate when rejecting', () => {
+            expect(() => disambiguateNames(['x', 'y', 'x', 'y', 'z'], 'adds $a', { reject: true })).toThrowError(
+                'Duplicate test names for template "adds $a":\n' +
+                '  - "x" (cases 0, 2)\n' +
+                '  - "y" (cases 1, 3)\n\n' +
+                "Reference a column that tells these cases apart in the template, or set duplicateNames: 'suffix' to suffix them with [case N]."
+            );
+        });
+    });
+
+    // ===========================================
+    // formatTestName
+    // ===========================================
+
+    describe('formatTestName', () => {
+        it('should format templates like formatObjectTestName', () => {
+            expect(formatTestName('adds $a at $index', { a: 1 }, 3)).toBe('adds 1 at 3');
+            expect(() => formatTestName('adds $b', { a: 1 }, 0, { strict: true })).toThrowError(/Unresolved placeholder/);
+        });
+
+        it('should call name functions with the case and its index', () => {
+            const name = (tc: any, index: number) => `#${index} has ${tc.items.length} item${tc.items.length === 1 ? '' : 's'}`;
+
+            expect(formatTestName(name, { items: ['a'] }, 0)).toBe('#0 has 1 item');
+            expect(formatTestName(name, { items: ['a', 'b'] }, 1)).toBe('#1 has 2 items');
+        });
+
+        it('should use the returned name as is', () => {
+            expect(formatTestName(() => 'costs $5', { a: 1 }, 0, { strict: true })).toBe('costs $5');
+        });
+
+        it('should report name functions that throw', () => {
+            const describeOrder = (tc: any) => tc.order.id;
+
+            expect(() => formatTestName(describeOrder, {}, 2)).toThrowError(
+                /^Test name function \[Function describeOrder\] failed for test case 2: .*undefined/
+            );
+        });
+
+        it('should reject names that are not non-empty strings', () => {
+            expect(() => formatTestName(() => 42 as any, {}, 0)).toThrowError(
+                /^Test name function \[Function anonymous\] must return a non-empty string for test case 0, received: number$/
+            );
+            expect(() => formatTestName(function blank() { return '  '; }, {}, 1)).toThrowError(
+                /^Test name function \[Function blank\] must return a non-empty string for test case 1, received: \(empty string\)$/
+            );
+        });
+
+        it('should describe templates and name functions for error messages', () => {
+            expect(describeNameTemplate('adds $a')).toBe('adds $a');
+            expect(describeNameTemplate(function describeOrder() { return ''; })).toBe('[Function describeOrder]');
+        });
+    });
+
+    // ===========================================
+    // Aggregate validation
+    // ===========================================
+
+    describe('findInconsistentRows', () => {
+        it('should return nothing for consistent rows', () => {
+            expect(findInconsistentRows([{a: 1, b: 2}, {a: 3, b: 4}])).toEqual([]);
+            expect(findInconsistentRows([])).toEqual([]);
+        });
+
+        it('should report every inconsistent row with its suggestions', () => {
+            expect(findInconsistentRows([
+                {a: 1, total: 2},
+                {a: 3, totl: 4},
+                {a: 5, total: 6},
+                {a: 7},
+                {a: 8, total: 9, _skip: true, mock: 1}
+            ], new Set(['mock']))).toEqual([
+                { index: 1, problem: "missing: 'total'; unexpected: 'totl'", suggestions: ["Did you mean 'total' instead of 'totl'?"] },
+                { index: 3, problem: "missing: 'total'", suggestions: ["Add property 'total' to this test case"] }
+            ]);
+        });
+    });
+
+    describe('findTableRowProblems', () => {
+        it('should report every row that is not an array or has the wrong length', () => {
+            expect(findTableRowProblems([
+                ['a', 'b'],
+                [1, 2],
+                [3],
+                'oops' as any,
+                [4, 5, 6]
+            ])).toEqual([
+                { index: 1, problem: 'has 1 values but expected 2 (matching headers count)', suggestions: [] },
+                { index: 2, problem: 'must be an array, received: string (value: "oops")', suggestions: [] },
+                { index: 3, problem: 'has 3 values but expected 2 (matching headers count)', suggestions: [] }
+            ]);
+        });
+
+        it('should still throw for invalid headers', () => {
+            expect(() => findTableRowProblems([[] as string[], [1]])).toThrowError(/headers must be a non-empty array/);
+        });
+    });
+
+    describe('formatValidationReport', () => {
+        it('should count cases with several problems once', () => {
+            expect(formatValidationReport('t', [
+                { index: 1, problem: 'first', suggestions: [] },
+                { index: 1, problem: 'second', suggestions: [] }
+            ], 1)).toBe('Invalid test data in "t" (1 of 1 case):\n  - case 1: first\n  - case 1: second');
+        });
+
+        it('should list one line per row with its suggestions', () => {
+            expect(formatValidationReport('adds $a', [
+                { index: 2, problem: "missing: 'b'; unexpected: 'bb'", suggestions: ["Did you mean 'b' instead of 'bb'?"] },
+                { index: 7, problem: 'has 2 values but expected 3', suggestions: [] }
+            ], 200)).toBe(
+                'Invalid test data in "adds $a" (2 of 200 cases):\n' +
+                "  - case 2: missing: 'b'; unexpected: 'bb' (💡 Did you mean 'b' instead of 'bb'?)\n" +
+                '  - case 7: has 2 values but expected 3'
+            );
+        });
+    });
+
+    // ===========================================
+    // Column type drift
+    // ===========================================
+
+    describe('findColumnTypeDrift', () => {
+        it('should return nothing for columns of one type', () => {
+            expect(findColumnTypeDrift([
+                {a: 1, b: 'x', c: [1], d: {e: 1}},
+                {a: 2, b: 'y', c: [], d: {}}
+            ])).toEqual([]);
+        });
+
+        it('should report cases that differ from the type most cases have, with a hint', () => {
+            expect(findColumnTypeDrift([
+                {a: 1, expected: 5},
+                {a: 2, expected: '6'},
+                {a: 3, expected: 7},
+                {a: '4', expected: 8}
+            ])).toEqual([
+                { index: 1, problem: `'expected' is a string ("6"), but a number in 3 other cases`, suggestions: ['Did you mean 6?'] },
+                { index: 3, problem: `'a' is a string ("4"), but a number in 3 other cases`, suggestions: ['Did you mean 4?'] }
+            ]);
+        });
+
+        it('should suggest conversions only when nothing is lost', () => {
+            const problems = findColumnTypeDrift([
+                {flag: true, label: 'a', count: 1n, n: 1},
+                {flag: true, label: 'b', count: 2n, n: 2},
+                {flag: 'false', label: 3, count: 3, n: 'three'}
+            ]);
+
+            expect(problems.map(problem => problem.suggestions)).toEqual([
+                ['Did you mean false?'],
+                ['Did you mean "3"?'],
+                ['Did you mean 3n?'],
+                []
+            ]);
+        });
+
+        it('should give ties to the type of the earliest case', () => {
+            expect(findColumnTypeDrift([{a: 'x'}, {a: 1}])).toEqual([
+                { index: 1, problem: `'a' is a number (1), but a string in 1 other case`, suggestions: ['Did you mean "1"?'] }
+            ]);
+        });
+
+        it('should tell arrays, dates and other objects apart', () => {
+            const problems = findColumnTypeDrift([
+                {value: [1]},
+                {value: [2]},
+                {value: new Date(0)},
+                {value: {length: 1}}
+            ]);
+
+            expect(problems.map(problem => problem.problem)).toEqual([
+                `'value' is a Date (1970-01-01T00:00:00.000Z), but an array in 2 other cases`,
+                `'value' is an object ({length: 1}), but an array in 2 other cases`
+            ]);
+        });
+
+        it('should let null and undefined match any type unless configured otherwise', () => {
+            const rows = [{a: 1}, {a: null}, {a: undefined}, {a: 2}];
+
+            expect(findColumnTypeDrift(rows)).toEqual([]);
+            expect(findColumnTypeDrift(rows, { nullishMatchesAnyType: false }).map(problem => problem.problem)).toEqual([
+                `'a' is null (null), but a number in 2 other cases`,
+                `'a' is undefined (undefined), but a number in 2 other cases`
+            ]);
+        });
+
+        it('should skip mixed columns, reserved keys and absent keys', () => {
+            expect(findColumnTypeDrift([
+                {a: 1, id: 1, _skip: true},
+                {a: 'x', id: 'abc', _skip: 'flaky'},
+                {a: 2}
+            ], { mixedColumns: ['id'] }).map(problem => problem.index)).toEqual([1]);
+        });
+    });
+
+    describe('validateColumnTypes', () => {
+        it('should throw for the first drifting case', () => {
+            expect(() => validateColumnTypes([
+                {a: 1, b: true},
+                {a: 2, b: 'yes'},
+                {a: '3', b: false}
+            ], 'adds $a')).toThrowError(
+                'Inconsistent column types in "adds $a":\n' +
+                `  Test case 1: 'b' is a string ("yes"), but a boolean in 2 other cases\n` +
+                "Declare columns that mix types on purpose with the 'mixedColumns' option of .where()."
+            );
+        });
+
+        it('should include the hint', () => {
+            expect(() => validateColumnTypes([{a: 1}, {a: '2'}, {a: 3}], 'adds $a')).toThrowError(
+                /Test case 1: 'a' is a string \("2"\), but a number in 2 other cases\n  💡 Did you mean 2\?\n/
+            );
+        });
+
+        it('should accept consistent columns', () => {
+            expect(() => validateColumnTypes([{a: 1}, {a: 2}], 'adds $a')).not.toThrow();
+        });
+    });
+
+    // ===========================================
+    // Case schema
+    // ===========================================
+
+    describe('findSchemaViolations', () => {
+        const problemsOf = (rows: Record<string, any>[], schema: any) =>
+            findSchemaViolations(rows, schema, 'orders $qty').map(({ index, problem }) => `${index}: ${problem}`);
+
+        it('should check types', () => {
+            expect(problemsOf([
+                {s: 'a', n: 1.5, i: 2, b: true, big: 1n, f: () => 1, d: new Date(0), a: [], o: {}},
+                {s: 1, n: '1', i: 2.5, b: 'true', big: 1, f: 'f', d: '2024-01-01', a: {}, o: []}
+            ], {
+                s: 'string', n: 'number', i: 'integer', b: 'boolean', big: 'bigint', f: 'function', d: 'date', a: 'array', o: 'object'
+            })).toEqual([
+                "1: column 's' is 1: expected a string",
+                `1: column 'n' is "1": expected a number`,
+                "1: column 'i' is 2.5: expected an integer",
+                `1: column 'b' is "true": expected a boolean`,
+                "1: column 'big' is 1: expected a bigint",
+                `1: column 'f' is "f": expected a function`,
+                `1: column 'd' is "2024-01-01": expected a Date`,
+                "1: column 'a' is {}: expected an array",
+                "1: column 'o' is []: expected an object"
+            ]);
+        });
+
+        it('should check allowed values with a suggestion for misspelled strings', () => {
+            expect(findSchemaViolations([{status: 'open'}, {status: 'shiped'}], { status: { oneOf: ['open', 'paid', 'shipped'] } }, 't')).toEqual([
+                {
+                    index: 1,
+                    problem: `column 'status' is "shiped": expected one of "open", "paid", "shipped"`,
+                    suggestions: ['Did you mean "shipped"?']
+                }
+            ]);
+        });
+
+        it('should check ranges', () => {
+            expect(problemsOf([{q: 0}, {q: 1}, {q: 100}, {q: '5'}], { q: { min: 1, max: 99 } })).toEqual([
+                "0: column 'q' is 0: expected between 1 and 99",
+                "2: column 'q' is 100: expected between 1 and 99",
+                `3: column 'q' is "5": expected a number`
+            ]);
+            expect(problemsOf([{q: -1}, {q: 5n}], { q: { min: 0 } })).toEqual(["0: column 'q' is -1: expected at least 0"]);
+            expect(problemsOf([{q: 11n}], { q: { max: 10 } })).toEqual(["0: column 'q' is 11n: expected at most 10"]);
+        });
+
+        it('should run validators with the value and the case', () => {
+            const validate = jasmine.createSpy('validate').and.callFake((value: string, tc: any) =>
+                value.startsWith(tc.prefix) || `must start with "${tc.prefix}"`
+            );
+
+            expect(problemsOf([{id: 'A-1', prefix: 'A'}, {id: 'B-2', prefix: 'C'}], { id: validate })).toEqual([
+                `1: column 'id' is "B-2": must start with "C"`
+            ]);
+            expect(validate).toHaveBeenCalledWith('A-1', {id: 'A-1', prefix: 'A'});
+        });
+
+        it('should report validators returning false or throwing', () => {
+            expect(problemsOf([{a: 1}], { a: () => false })).toEqual(["0: column 'a' is 1: failed validation"]);
+            expect(problemsOf([{a: 1}], { a: () => { throw new Error('boom'); } })).toEqual(["0: column 'a' is 1: boom"]);
+            expect(problemsOf([{a: 1}], { a: () => undefined })).toEqual([]);
+        });
+
+        it('should require schema columns unless optional, and non-null values unless nullable', () => {
+            expect(problemsOf([{a: 1}, {}, {a: null}], { a: 'number' })).toEqual([
+                "1: column 'a' is missing",
+                "2: column 'a' is null: expected a number"
+            ]);
+            expect(problemsOf([{a: 1}, {}, {a: null}], { a: { type: 'number', optional: true, nullable: true } })).toEqual([]);
+        });
+
+        it('should not check columns the schema does not mention', () => {
+            expect(problemsOf([{a: 1, other: 'x'}, {a: 2, other: 3}], { a: 'number' })).toEqual([]);
+        });
+
+        it('should reject unknown types and invalid rules', () => {
+            expect(() => findSchemaViolations([{a: 1}], { a: 'nubmer' as any }, 'orders $qty')).toThrowError(
+                "Unknown type 'nubmer' for column 'a' in the schema of \"orders $qty\"\n💡 Did you mean 'number'?\n" +
+                'Available types: string, number, integer, boolean, bigint, function, date, array, object'
+            );
+            expect(() => findSchemaViolations([{a: 1}], { a: 5 as any }, 'orders $qty')).toThrowError(
+                /Schema rule for column 'a' of "orders \$qty" must be a type name, a validator function or an object, received: number/
+            );
+        });
+    });
+
+    describe('validateCaseSchema', () => {
+        it('should throw for the first violation, naming the case, column, value and template', () => {
+            expect(() => validateCaseSchema([
+                {status: 'open'},
+                {status: 'shiped'},
+                {status: 'gone'}
+            ], { status: { oneOf: ['open', 'shipped'] } }, 'ships $status')).toThrowError(
+                'Schema violation in "ships $status":\n' +
+                `  Test case 1: column 'status' is "shiped": expected one of "open", "shipped"\n` +
+                '  💡 Did you mean "shipped"?'
+            );
+        });
+
+        it('should accept matching cases', () => {
+            expect(() => validateCaseSchema([{a: 1}], { a: 'integer' }, 't')).not.toThrow();
+        });
+    });
+
+    // ===========================================
+    // findDuplicateRows
+    // ===========================================
+
+    describe('findDuplicateRows', () => {
+        it('should return nothing for distinct rows', () => {
+            expect(findDuplicateRows([{a: 1}, {a: 2}, {a: '1'}])).toEqual([]);
+            expect(findDuplicateRows([])).toEqual([]);
+        });
+
+        it('should report each repeated row with the first row it repeats', () => {
+            expect(findDuplicateRows([
+                {a: 1, b: 2},
+                {a: 2, b: 2},
+                {b: 2, a: 1},
+                {a: 2, b: 2},
+                {a: 1, b: 2}
+            ])).toEqual([
+                { index: 2, duplicateOf: 0 },
+                { index: 3, duplicateOf: 1 },
+                { index: 4, duplicateOf: 0 }
+            ]);
+        });
+
+        it('should compare nested arrays and objects structurally', () => {
+            expect(findDuplicateRows([
+                {user: {name: 'Eleanor', roles: ['admin']}},
+                {user: {name: 'Eleanor', roles: ['admin', 'dev']}},
+                {user: {name: 'Eleanor', roles: ['admin']}}
+            ])).toEqual([{ index: 2, duplicateOf: 0 }]);
+        });
+
+        it('should compare Dates by time and BigInts by value', () => {
+            expect(findDuplicateRows([
+                {at: new Date('2024-01-01T00:00:00Z'), n: 9007199254740993n},
+                {at: new Date('2024-01-02T00:00:00Z'), n: 9007199254740993n},
+                {at: new Date('2024-01-01T00:00:00Z'), n: 9007199254740993n},
+                {at: new Date('2024-01-01T00:00:00Z'), n: 9007199254740992n}
+            ])).toEqual([{ index: 2, duplicateOf: 0 }]);
+        });
+
+        it('should treat NaN as equal to itself and tell -0 from 0', () => {
+            expect(findDuplicateRows([{a: NaN}, {a: NaN}])).toEqual([{ index: 1, duplicateOf: 0 }]);
+            expect(findDuplicateRows([{a: 0}, {a: -0}])).toEqual([]);
+        });
+
+        it('should compare Maps, Sets and class instances', () => {
+            class Point { constructor(public x: number) {} }
+
+            expect(findDuplicateRows([
+                {m: new Map([['a', [1]]]), s: new Set([1, 2]), p: new Point(1)},
+                {m: new Map([['a', [1]]]), s: new Set([2, 1]), p: new Point(1)},
+                {m: new Map([['a', [1]]]), s: new Set([1, 2]), p: {x: 1}},
+                {m: new Map([['a', [2]]]), s: new Set([1, 2]), p: new Point(1)}
+            ])).toEqual([{ index: 1, duplicateOf: 0 }]);
+        });
+
+        it('should handle circular references', () => {
+            const first: any = {name: 'node'};
+            first.self = first;
+            const second: any = {name: 'node'};
+            second.self = second;
+            const other: any = {name: 'other'};
+            other.self = other;
+
+            expect(findDuplicateRows([{node: first}, {node: other}, {node: second}])).toEqual([{ index: 2, duplicateOf: 0 }]);
+
+            const parent: any = {name: 'parent'};
+            parent.child = {name: 'child', parent};
+            expect(findDuplicateRows([parent, {name: 'parent', child: parent.child}])).toEqual([{ index: 1, duplicateOf: 0 }]);
+        });
+
+        it('should ignore reserved keys', () => {
+            expect(findDuplicateRows([
+                {a: 1},
+                {a: 1, _skip: 'flaky', _name: 'other name'}
+            ])).toEqual([{ index: 1, duplicateOf: 0 }]);
+        });
+    });
 });
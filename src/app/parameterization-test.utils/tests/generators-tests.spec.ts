@@ -0,0 +1,353 @@
+/**
+ * Case Generators Unit Tests
+ *
+ * These tests verify the pure functions that generate test cases from
+ * dimension maps instead of hand-written rows:
+ * - Cartesian product of all dimension values
+ * - Pairwise (all-pairs) reduction with a seeded random source
+ * - Arbitraries with shrink trees for property-based tests
+ *
+ * Like the formatters, all generators are pure and tested in isolation.
+ */
+
+import { cartesianProduct } from '../generators/cartesian-product';
+import { pairwise } from '../generators/pairwise';
+import { createSeededRandom } from '../generators/seeded-random';
+import { arb } from '../generators/arbitraries';
+import type { Shrinkable } from '../runner/types';
+
+/**
+ * Collects every value pair (across two dimensions) present in the cases
+ */
+function collectPairs(cases: Record<string, any>[], names: string[]): Set<string> {
+    const pairs = new Set<string>();
+    for (const testCase of cases) {
+        for (let a = 0; a < names.length; a++) {
+            for (let b = a + 1; b < names.length; b++) {
+                pairs.add(`${names[a]}=${String(testCase[names[a]])}|${names[b]}=${String(testCase[names[b]])}`);
+            }
+        }
+    }
+    return pairs;
+}
+
+/**
+ * Greedily shrinks a tree while the predicate still fails (mirrors the property runner)
+ */
+function shrinkWhile<T>(tree: Shrinkable<T>, fails: (value: T) => boolean): T {
+    let current = tree;
+    let next: Shrinkable<T> | undefined;
+    while ((next = current.shrink().find(candidate => fails(candidate.value)))) {
+        current = next;
+    }
+    return current.value;
+}
+
+describe('Case Generators - Unit Tests', () => {
+
+    // ===========================================
+    // cartesianProduct
+    // ===========================================
+
+    describe('cartesianProduct', () => {
+        it('should generate every combination with the first dimension varying slowest', () => {
+            const result = cartesianProduct({
+                locale: ['en', 'de'],
+                currency: ['USD', 'EUR']
+            });
+
+            expect(result).toEqual([
+                { locale: 'en', currency: 'USD' },
+                { locale: 'en', currency: 'EUR' },
+                { locale: 'de', currency: 'USD' },
+                { locale: 'de', currency: 'EUR' }
+            ]);
+        });
+
+        it('should generate the product of all dimension sizes', () => {
+            const result = cartesianProduct({
+                locale: ['en', 'de'],
+                currency: ['USD', 'EUR'],
+                amount: [0, -1, 1e9]
+            });
+
+            expect(result.length).toBe(12);
+        });
+
+        it('should handle a single dimension', () => {
+            expect(cartesianProduct({ value: [1, 2, 3] })).toEqual([
+                { value: 1 },
+                { value: 2 },
+                { value: 3 }
+            ]);
+        });
+
+        it('should keep values by reference', () => {
+            const config = { debug: true };
+            const [combination] = cartesianProduct({ config: [config] });
+
+            expect(combination['config']).toBe(config);
+        });
+
+        it('should drop combinations rejected by the exclude predicate', () => {
+            const result = cartesianProduct(
+                { a: [1, 2], b: [1, 2] },
+                (combination) => combination['a'] === combination['b']
+            );
+
+            expect(result).toEqual([
+                { a: 1, b: 2 },
+                { a: 2, b: 1 }
+            ]);
+        });
+
+        it('should throw for non-object dimensions', () => {
+            expect(() => cartesianProduct([['a']] as any, undefined, 'test $a')).toThrowError(
+                /Dimensions must be an object of name → values for "test \$a", received: array/
+            );
+            expect(() => cartesianProduct(null as any)).toThrowError(/received: object/);
+        });
+
+        it('should throw when no dimensions are declared', () => {
+            expect(() => cartesianProduct({})).toThrowError(/must declare at least one dimension/);
+        });
+
+        it('should throw for a dimension without values', () => {
+            expect(() => cartesianProduct({ a: [1], b: [] })).toThrowError(
+                /Dimension 'b' .* must be a non-empty array of values, received: empty array/
+            );
+            expect(() => cartesianProduct({ a: 'x' as any })).toThrowError(
+                /Dimension 'a' .* received: string/
+            );
+        });
+    });
+
+    // ===========================================
+    // createSeededRandom
+    // ===========================================
+
+    describe('createSeededRandom', () => {
+        it('should produce the same sequence for the same seed', () => {
+            const a = createSeededRandom(42);
+            const b = createSeededRandom(42);
+
+            const sequenceA = Array.from({ length: 10 }, () => a.next());
+            const sequenceB = Array.from({ length: 10 }, () => b.next());
+
+            expect(sequenceA).toEqual(sequenceB);
+        });
+
+        it('should produce different sequences for different seeds', () => {
+            const a = createSeededRandom(1);
+            const b = createSeededRandom(2);
+
+            expect(a.next()).not.toBe(b.next());
+        });
+
+        it('should keep floats in [0, 1) and integers in range', () => {
+            const random = createSeededRandom(7);
+
+            for (let i = 0; i < 1000; i++) {
+                const float = random.next();
+                const int = random.int(-3, 3);
+                expect(float).toBeGreaterThanOrEqual(0);
+                expect(float).toBeLessThan(1);
+                expect(int).toBeGreaterThanOrEqual(-3);
+                expect(int).toBeLessThanOrEqual(3);
+                expect(Number.isInteger(int)).toBe(true);
+            }
+        });
+
+        it('should shuffle without losing or duplicating items', () => {
+            const items = [1, 2, 3, 4, 5, 6, 7, 8];
+            const shuffled = createSeededRandom(3).shuffle(items);
+
+            expect([...shuffled].sort()).toEqual(items);
+            expect(items).toEqual([1, 2, 3, 4, 5, 6, 7, 8]); // Input untouched
+        });
+
+        it('should normalize seeds to unsigned 32-bit integers', () => {
+            expect(createSeededRandom(-1).seed).toBe(4294967295);
+            expect(createSeededRandom(12.9).seed).toBe(12);
+        });
+
+        it('should throw for non-finite seeds', () => {
+            expect(() => createSeededRandom(NaN)).toThrowError(/Seed must be a finite number, received: NaN/);
+            expect(() => createSeededRandom(Infinity)).toThrowError(/Seed must be a finite number/);
+        });
+    });
+
+    // ===========================================
+    // pairwise
+    // ===========================================
+
+    describe('pairwise', () => {
+        const formDimensions = {
+            country: ['US', 'DE', 'FR', 'JP'],
+            email: ['valid', 'invalid', 'empty'],
+            phone: ['valid', 'invalid', 'empty'],
+            terms: [true, false],
+            newsletter: [true, false],
+            age: [17, 18, 65, 120],
+            password: ['weak', 'strong', 'empty'],
+            referral: ['none', 'code', 'link']
+        };
+
+        it('should cover every pair of values across dimensions', () => {
+            const names = Object.keys(formDimensions);
+            const cases = pairwise(formDimensions);
+            const allPairs = collectPairs(cartesianProduct(formDimensions), names);
+
+            expect(collectPairs(cases, names)).toEqual(allPairs);
+            expect(cases.coverage.coveredPairs).toBe(allPairs.size);
+            expect(cases.coverage.totalPairs).toBe(allPairs.size);
+        });
+
+        it('should generate far fewer cases than the full product', () => {
+            const cases = pairwise(formDimensions);
+
+            expect(cases.coverage.fullProduct).toBe(5184);
+            expect(cases.length).toBeLessThan(40);
+        });
+
+        it('should be stable for the same seed', () => {
+            expect(pairwise(formDimensions, { seed: 42 })).toEqual(pairwise(formDimensions, { seed: 42 }));
+            expect(pairwise(formDimensions)).toEqual(pairwise(formDimensions, { seed: 1 }));
+        });
+
+        it('should only produce declared values', () => {
+            for (const testCase of pairwise(formDimensions, { seed: 9 })) {
+                for (const [name, values] of Object.entries(formDimensions)) {
+                    expect(values as any[]).toContain(testCase[name]);
+                }
+            }
+        });
+
+        it('should expose coverage without affecting the cases', () => {
+            const cases = pairwise({ a: [1, 2], b: [1, 2] });
+
+            expect(Object.keys(cases)).toEqual(cases.map((_, i) => String(i)));
+            expect(cases.coverage.cases).toBe(cases.length);
+            expect(cases.coverage.seed).toBe(1);
+            expect(cases.coverage.summary).toBe(
+                `pairwise: ${cases.length} cases cover 4/4 pairs (100%) - full product: 4`
+            );
+        });
+
+        it('should stop at maxCases and report partial coverage', () => {
+            const cases = pairwise(formDimensions, { maxCases: 3 });
+
+            expect(cases.length).toBe(3);
+            expect(cases.coverage.coveredPairs).toBeLessThan(cases.coverage.totalPairs);
+            expect(cases.coverage.summary).toMatch(/^pairwise: 3 cases cover \d+\/\d+ pairs \(\d+%\)/);
+        });
+
+        it('should produce one case per value for a single dimension', () => {
+            const cases = pairwise({ value: ['a', 'b', 'c'] });
+
+            expect(cases).toEqual([{ value: 'a' }, { value: 'b' }, { value: 'c' }]);
+            expect(cases.coverage.totalPairs).toBe(0);
+        });
+
+        it('should throw for invalid dimensions and maxCases', () => {
+            expect(() => pairwise({})).toThrowError(/must declare at least one dimension/);
+            expect(() => pairwise({ a: [1] }, { maxCases: 0 })).toThrowError(
+                /maxCases must be a positive integer, received: 0/
+            );
+        });
+    });
+
+    // ===========================================
+    // arb
+    // ===========================================
+
+    describe('arb', () => {
+        it('should generate the same values for the same seed', () => {
+            const arbitrary = arb.record({ n: arb.int(), s: arb.string(), xs: arb.array(arb.boolean()) });
+
+            const a = Array.from({ length: 20 }, (_, i) => arbitrary.generate(createSeededRandom(5), i).value);
+            const b = Array.from({ length: 20 }, (_, i) => arbitrary.generate(createSeededRandom(5), i).value);
+
+            expect(a).toEqual(b);
+        });
+
+        it('should keep integers within bounds', () => {
+            const random = createSeededRandom(11);
+            const arbitrary = arb.int(-5, 5);
+
+            for (let i = 0; i < 500; i++) {
+                const value = arbitrary.generate(random, 10).value;
+                expect(value).toBeGreaterThanOrEqual(-5);
+                expect(value).toBeLessThanOrEqual(5);
+            }
+        });
+
+        it('should shrink integers towards zero or the closest bound', () => {
+            expect(shrinkWhile(arb.int(0, 1000).generate(createSeededRandom(2), 10), n => n >= 37)).toBe(37);
+            expect(shrinkWhile(arb.int(-1000, 0).generate(createSeededRandom(2), 10), n => n <= -37)).toBe(-37);
+            expect(shrinkWhile({ value: 700, shrink: () => [] }, () => true)).toBe(700);
+
+            const aboveZero = arb.int(10, 20);
+            const random = createSeededRandom(4);
+            for (let i = 0; i < 20; i++) {
+                expect(shrinkWhile(aboveZero.generate(random, 10), () => true)).toBe(10);
+            }
+        });
+
+        it('should respect length bounds for strings and arrays', () => {
+            const random = createSeededRandom(8);
+            const strings = arb.string({ minLength: 2, maxLength: 4, chars: 'xy' });
+            const arrays = arb.array(arb.int(), { minLength: 1, maxLength: 3 });
+
+            for (let i = 0; i < 100; i++) {
+                const text = strings.generate(random, 30).value;
+                expect(text.length).toBeGreaterThanOrEqual(2);
+                expect(text.length).toBeLessThanOrEqual(4);
+                expect(text).toMatch(/^[xy]+$/);
+
+                const items = arrays.generate(random, 30).value;
+                expect(items.length).toBeGreaterThanOrEqual(1);
+                expect(items.length).toBeLessThanOrEqual(3);
+            }
+        });
+
+        it('should shrink arrays to the minimal failing content', () => {
+            const random = createSeededRandom(6);
+            const arbitrary = arb.array(arb.int(0, 100), { maxLength: 20 });
+
+            let tree = arbitrary.generate(random, 30);
+            while (!tree.value.some(n => n >= 50)) tree = arbitrary.generate(random, 30);
+
+            expect(shrinkWhile(tree, xs => xs.some(n => n >= 50))).toEqual([50]);
+        });
+
+        it('should shrink strings by removing characters and moving towards the first char', () => {
+            const tree = arb.string({ minLength: 1, chars: 'abc' }).generate(createSeededRandom(1), 30);
+
+            expect(shrinkWhile(tree, () => true)).toBe('a');
+        });
+
+        it('should shrink a record one field at a time', () => {
+            const tree = arb.record({ a: arb.int(0, 100), b: arb.int(0, 100) }).generate(createSeededRandom(3), 10);
+
+            expect(shrinkWhile(tree, () => true)).toEqual({ a: 0, b: 0 });
+        });
+
+        it('should shrink oneOf within the arbitrary that produced the value', () => {
+            const arbitrary = arb.oneOf<string | number>(arb.constant('fixed'), arb.int(5, 9));
+            const random = createSeededRandom(12);
+
+            for (let i = 0; i < 20; i++) {
+                const value = shrinkWhile(arbitrary.generate(random, 10), () => true);
+                expect(['fixed', 5]).toContain(value);
+            }
+        });
+
+        it('should throw for invalid arbitrary options', () => {
+            expect(() => arb.int(5, 1)).toThrowError(/arb\.int\(\) requires integer bounds with min <= max, received: min=5, max=1/);
+            expect(() => arb.string({ chars: '' })).toThrowError(/requires at least one character/);
+            expect(() => arb.oneOf()).toThrowError(/arb\.oneOf\(\) requires at least one arbitrary/);
+            expect(() => arb.record(null as any)).toThrowError(/arb\.record\(\) requires an object/);
+        });
+    });
+});
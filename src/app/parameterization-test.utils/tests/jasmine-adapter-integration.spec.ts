@@ -0,0 +1,143 @@
+/**
+ * Integration Tests for the Jasmine Adapter
+ *
+ * The runners of createParameterizedTests(jasmineAdapter()) register real Jasmine specs and
+ * suites here (names can be verified in the Karma output), and a stand-in for the Jasmine
+ * globals checks which function each case is registered with.
+ */
+
+import { configureParameterizedTests, createParameterizedTests, jasmineAdapter, resetParameterizedTestsConfig } from '../parameterization-test.core';
+
+describe('Jasmine adapter - Integration', () => {
+    const { iit, idescribe } = createParameterizedTests(jasmineAdapter());
+
+    // ===========================================
+    // REAL JASMINE REGISTRATION
+    // ===========================================
+
+    describe('runners registered through the adapter', () => {
+        iit('should add $a and $b to get $expected', (testCase: any) => {
+            expect(testCase.a + testCase.b).toBe(testCase.expected);
+        }).where([
+            ['a', 'b', 'expected'],
+            [2, 3, 5],
+            [1, 4, 5]
+        ]);
+
+        iit('should parse $input', async (testCase: any) => {
+            expect(Number(testCase.input)).not.toBeNaN();
+        }).where([
+            { input: '1' },
+            { input: '0x1', _pending: 'JIRA-123' }
+        ]);
+
+        idescribe('$operation suite', (testCase: any) => {
+            it('should receive the case', () => {
+                expect(testCase.operation).toMatch(/add|multiply/);
+            });
+        }).where([
+            { operation: 'add' },
+            { operation: 'multiply' }
+        ]);
+    });
+
+    describe('registered names', () => {
+        const suite = (describe as any)('through the adapter', () => {
+            iit('case $value', () => {}).where([
+                { value: 1 },
+                { value: 2, _skip: 'not yet' }
+            ]);
+        });
+
+        it('should register one Jasmine spec per case, reporting skip reasons as pending reasons', () => {
+            expect(suite.children.map((child: any) => child.description)).toEqual(['case 1', 'case 2']);
+        });
+    });
+
+    // ===========================================
+    // STAND-IN GLOBALS
+    // ===========================================
+
+    describe('with stand-in globals', () => {
+        const createJasmineApi = () => ({
+            it: jasmine.createSpy('it'),
+            fit: jasmine.createSpy('fit'),
+            xit: jasmine.createSpy('xit'),
+            describe: jasmine.createSpy('describe'),
+            fdescribe: jasmine.createSpy('fdescribe'),
+            xdescribe: jasmine.createSpy('xdescribe'),
+            pending: jasmine.createSpy('pending')
+        });
+
+        it('should map _only, _skip and _timeout to fit, xit and the third argument', () => {
+            const api = createJasmineApi();
+            const runners = createParameterizedTests(jasmineAdapter(api));
+
+            runners.iit('case $value', () => {}).where([
+                {value: 1, _timeout: 50},
+                {value: 2, _only: true},
+                {value: 3, _skip: true}
+            ]);
+
+            expect(api.it.calls.argsFor(0)[0]).toBe('case 1');
+            expect(api.it.calls.argsFor(0)[2]).toBe(50);
+            expect(api.fit.calls.argsFor(0)[0]).toBe('case 2');
+            expect(api.xit.calls.argsFor(0)[0]).toBe('case 3');
+        });
+
+        it('should call pending() in the body of _pending cases, keeping focused runners focused', () => {
+            const api = createJasmineApi();
+            const testFn = jasmine.createSpy('testFn');
+            const runners = createParameterizedTests(jasmineAdapter(api));
+
+            runners.fiit('case $value', testFn).where([{value: 1, _pending: 'JIRA-123'}]);
+
+            expect(api.it).not.toHaveBeenCalled();
+            expect(api.fit.calls.argsFor(0)[0]).toBe('case 1');
+            api.fit.calls.argsFor(0)[1]();
+            expect(api.pending).toHaveBeenCalledOnceWith('JIRA-123');
+            expect(testFn).not.toHaveBeenCalled();
+        });
+
+        it('should call pending() with the reason of _skip, tag-filtered and excluded _pending cases', () => {
+            const api = createJasmineApi();
+            const runners = createParameterizedTests(jasmineAdapter(api));
+
+            configureParameterizedTests({ tags: '!slow' });
+            try {
+                runners.iit('case $value', () => {}).where([
+                    {value: 1, _skip: 'flaky'},
+                    {value: 2, _tags: ['slow']}
+                ]);
+                runners.xiit('excluded $value', () => {}).where([
+                    {value: 1, _pending: 'JIRA-123'},
+                    {value: 2, _skip: true}
+                ]);
+            } finally {
+                resetParameterizedTestsConfig();
+            }
+
+            expect(api.it.calls.allArgs().map(args => args[0])).toEqual(['case 1', 'case 2', 'excluded 1']);
+            expect(api.xit.calls.allArgs().map(args => args[0])).toEqual(['excluded 2']);
+            api.it.calls.allArgs().forEach(args => args[1]());
+            expect(api.pending.calls.allArgs()).toEqual([['flaky'], ['filtered: tags "!slow"'], ['JIRA-123']]);
+        });
+
+        it('should exclude _pending suites with the reason in their name', () => {
+            const api = createJasmineApi();
+            const runners = createParameterizedTests(jasmineAdapter(api));
+
+            runners.idescribe('suite $value', () => {}).where([{value: 1, _pending: 'JIRA-123'}]);
+
+            expect(api.describe).not.toHaveBeenCalled();
+            expect(api.xdescribe.calls.argsFor(0)[0]).toBe('suite 1 (pending: JIRA-123)');
+        });
+
+        it('should reject an adapter missing a register function', () => {
+            expect(() => createParameterizedTests({ ...jasmineAdapter(createJasmineApi()), suite: {} as any }))
+                .toThrowError("Test framework adapter \"Jasmine\" is missing 'suite.run' - expected a function, received: undefined");
+            expect(() => createParameterizedTests(undefined as any))
+                .toThrowError('Test framework adapter must be an object, received: undefined');
+        });
+    });
+});
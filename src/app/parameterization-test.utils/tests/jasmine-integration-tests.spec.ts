@@ -6,7 +6,10 @@
  * and async error handling. Test names can be verified in the Karma output.
  */
 
-import { iit, idescribe, fiit, fidescribe } from '../parameterization-test.utils';
+import {
+    iit, idescribe, fiit, fidescribe, table, iprop, arb,
+    configureParameterizedTests, resetParameterizedTestsConfig
+} from '../parameterization-test.utils';
 
 describe('Parameterized Testing Utility - Integration', () => {
 
@@ -65,6 +68,235 @@ describe('Parameterized Testing Utility - Integration', () => {
             ['user1', 'active'],
             ['user2', 'inactive']
         ]);
+
+        iit('tagged template: $a and $b give $expected', (testCase: any) => {
+            expect(testCase.a + testCase.b).toBe(testCase.expected);
+        }).where(table`
+            a     | b     | expected
+            ${2}  | ${3}  | ${5}
+            ${-1} | ${1}  | ${0}
+        `);
+    });
+
+    // ===========================================
+    // IIT - COMBINATIONS
+    // ===========================================
+
+    describe('iit with whereCombinations', () => {
+        const seen: string[] = [];
+
+        iit('should run $size $color', (testCase: any) => {
+            seen.push(`${testCase.size}-${testCase.color}`);
+            expect(['S', 'M']).toContain(testCase.size);
+            expect(['red', 'blue']).toContain(testCase.color);
+        }).whereCombinations({
+            size: ['S', 'M'],
+            color: ['red', 'blue']
+        }, {
+            exclude: (tc) => tc['size'] === 'M' && tc['color'] === 'blue'
+        });
+
+        afterAll(() => {
+            expect(seen.sort()).toEqual(['M-red', 'S-blue', 'S-red']);
+        });
+    });
+
+    // ===========================================
+    // IIT - TYPED CASES
+    // ===========================================
+
+    describe('iit with typed cases', () => {
+        interface LoginCase {
+            user: { name: string; roles: string[] };
+            canLogin: boolean;
+        }
+
+        iit<LoginCase>('should let $user.name log in: $canLogin', (testCase) => {
+            expect(testCase.user.roles.length > 0).toBe(testCase.canLogin);
+        }).where([
+            { user: { name: 'Eleanor', roles: ['admin'] }, canLogin: true },
+            { user: { name: 'Winston', roles: [] }, canLogin: false, _timeout: 1000 }
+        ]);
+
+        iit('should multiply $a by $b', (testCase: { a: number; b: number; product: number }) => {
+            expect(testCase.a * testCase.b).toBe(testCase.product);
+        }).where([
+            ['a', 'b', 'product'],
+            [2, 3, 6],
+            [4, 5, 20]
+        ]);
+    });
+
+    // ===========================================
+    // IIT - PER-CASE SKIP / PENDING
+    // ===========================================
+
+    describe('iit with _skip and _pending cases', () => {
+        const ran: number[] = [];
+
+        iit('should only run $value', (testCase: any) => {
+            ran.push(testCase.value);
+        }).where([
+            { value: 1 },
+            { value: 2, _skip: 'not supported yet' },
+            { value: 3, _pending: 'JIRA-123' }
+        ]);
+
+        iit('should run table row $a', (testCase: any) => {
+            ran.push(testCase.a);
+        }).where(table`
+            a      | _skip
+            ${10}  | ${false}
+            ${20}  | ${'broken'}
+        `);
+
+        afterAll(() => {
+            expect(ran.sort((a, b) => a - b)).toEqual([1, 10]);
+        });
+    });
+
+    // ===========================================
+    // IIT - PER-CASE NAMES
+    // ===========================================
+
+    // Jasmine's describe() returns the suite's metadata, whose children carry the registered names
+    const caseNames = (describe as any)('iit with _name and _description cases', () => {
+        iit('should total $items', (testCase: any) => {
+            expect(testCase.items).toBeDefined();
+        }).where([
+            { items: 1 },
+            { items: 0, _name: 'regression for #4412: empty basket with coupon' },
+            { items: 2, _description: 'bulk discount' }
+        ]);
+
+        iit('should total table row $items', (testCase: any) => {
+            expect(testCase.items).toBeDefined();
+        }).where(table`
+            items  | _name                  | _description
+            ${3}   | ${''}                  | ${'max per order'}
+            ${4}   | ${'over the limit'}    | ${''}
+        `);
+    });
+
+    it('should name cases with _name and _description in object and table format', () => {
+        expect(caseNames.children.map((child: any) => child.description)).toEqual([
+            'should total 1',
+            'regression for #4412: empty basket with coupon',
+            'should total 2 - bulk discount',
+            'should total table row 3 - max per order',
+            'over the limit'
+        ]);
+    });
+
+    // ===========================================
+    // IIT - TAG FILTERING
+    // ===========================================
+
+    describe('iit with _tags filtered by a tag expression', () => {
+        const ran: string[] = [];
+
+        // The expression is read when .where() registers the cases
+        configureParameterizedTests({ tags: '!slow' });
+
+        iit('should run $name', (testCase: any) => {
+            ran.push(testCase.name);
+        }).where([
+            { name: 'fast', _tags: ['unit'] },
+            { name: 'slow', _tags: ['unit', 'slow'] },
+            { name: 'untagged' }
+        ]);
+
+        resetParameterizedTestsConfig();
+
+        afterAll(() => {
+            expect(ran.sort()).toEqual(['fast', 'untagged']);
+        });
+    });
+
+    // ===========================================
+    // IIT - DUPLICATE NAMES
+    // ===========================================
+
+    // Jasmine's describe() returns the suite's metadata, whose children carry the registered names
+    const duplicateWarnings: unknown[] = [];
+    const registerWithWarnings = (register: () => void) => {
+        const warn = console.warn;
+        console.warn = (message: unknown) => duplicateWarnings.push(message);
+        configureParameterizedTests({ uniqueNamesPerSuite: true });
+        try {
+            register();
+        } finally {
+            resetParameterizedTestsConfig();
+            console.warn = warn;
+        }
+    };
+
+    const duplicateNames = (describe as any)('iit with duplicate names', () => {
+        registerWithWarnings(() => {
+            iit('should handle $kind', (testCase: any) => {
+                expect(testCase.kind).toBeDefined();
+            }).where([
+                { kind: 'text', size: 1 },
+                { kind: 'text', size: 2 }
+            ]);
+
+            iit('should handle $kind', (testCase: any) => {
+                expect(testCase.kind).toBeDefined();
+            }).where([
+                { kind: 'text' },
+                { kind: 'image' }
+            ]);
+        });
+    });
+
+    const siblingSuites = ['A', 'B'].map(name => (describe as any)(`iit in sibling describe ${name}`, () => {
+        registerWithWarnings(() => {
+            iit('handles $x', (testCase: any) => {
+                expect(testCase.x).toBe(1);
+            }).where([{ x: 1 }], { strict: true });
+        });
+    }));
+
+    it('should suffix duplicate names within a .where() call and report them across calls in a describe', () => {
+        expect(duplicateNames.children.map((child: any) => child.description)).toEqual([
+            'should handle text',
+            'should handle text [case 1]',
+            'should handle text',
+            'should handle image'
+        ]);
+        expect(duplicateWarnings).toEqual([
+            'Duplicate test name "should handle text" for template "should handle $kind": ' +
+            'also registered by an earlier .where() in "Parameterized Testing Utility - Integration iit with duplicate names"'
+        ]);
+    });
+
+    it('should not compare names across sibling describes', () => {
+        expect(siblingSuites.map(suite => suite.children.map((child: any) => child.description))).toEqual([
+            ['handles 1'],
+            ['handles 1']
+        ]);
+    });
+
+    // ===========================================
+    // IPROP - PROPERTY-BASED
+    // ===========================================
+
+    describe('iprop with forAll', () => {
+        let runs = 0;
+
+        iprop('reversing $xs twice should give the original', (testCase: any) => {
+            runs++;
+            return [...testCase.xs].reverse().reverse().join() === testCase.xs.join();
+        }).forAll({ xs: arb.array(arb.int(-100, 100)) }, { runs: 25, seed: 42 });
+
+        iprop('$a + $b should be commutative', async (testCase: any) => {
+            await Promise.resolve();
+            expect(testCase.a + testCase.b).toBe(testCase.b + testCase.a);
+        }).forAll({ a: arb.int(), b: arb.int() }, { runs: 10 });
+
+        afterAll(() => {
+            expect(runs).toBe(25);
+        });
     });
 
     // ===========================================
@@ -170,6 +402,28 @@ describe('Parameterized Testing Utility - Integration', () => {
         ]);
     });
 
+    describe('done callback support', () => {
+        iit('callback-style test $value should complete', (testCase: any, done) => {
+            setTimeout(() => {
+                expect(testCase.value).toBeGreaterThan(0);
+                done();
+            }, 1);
+        }).where([
+            { value: 1 },
+            { value: 2 }
+        ]);
+
+        iit('callback-style test with $value keeps this context', function(this: any, testCase: any, done) {
+            this.seen = testCase.value;
+            Promise.resolve().then(() => {
+                expect(this.seen).toBe(testCase.value);
+                done();
+            });
+        }).where([
+            { value: 'a' }
+        ]);
+    });
+
     // ===========================================
     // THIS CONTEXT BINDING
     // ===========================================
@@ -13,6 +13,12 @@
  */
 
 import { createParameterizedRunner } from '../runner/create-parameterized-runner';
+import { table } from '../formatters/table-template';
+import { pairwise } from '../generators/pairwise';
+import { createPropertyRunner } from '../runner/create-property-runner';
+import { arb } from '../generators/arbitraries';
+import { configureParameterizedTests, resetParameterizedTestsConfig } from '../runner/config';
+import type { DescribeFunction, DoneCallback, InferCase, TemplatePlaceholders, TestFunction } from '../runner/types';
 
 describe('Jasmine Mock Tests', () => {
 
@@ -71,6 +77,264 @@ describe('Jasmine Mock Tests', () => {
             mockJasmineFn.calls.argsFor(1)[1].call({});
             expect(testFn).toHaveBeenCalledWith({a: 3, b: 4});
         });
+
+        it('should accept tagged-template tables', () => {
+            const mockJasmineFn = jasmine.createSpy('jasmineFn');
+            const testFn = jasmine.createSpy('testFn');
+
+            const runner = createParameterizedRunner(mockJasmineFn);
+            runner('test $a + $b', testFn).where(table`
+                a    | b
+                ${1} | ${2}
+                ${3} | ${4}
+            `);
+
+            expect(mockJasmineFn.calls.argsFor(0)[0]).toBe('test 1 + 2');
+            expect(mockJasmineFn.calls.argsFor(1)[0]).toBe('test 3 + 4');
+
+            mockJasmineFn.calls.argsFor(1)[1].call({});
+            expect(testFn).toHaveBeenCalledWith({a: 3, b: 4});
+        });
+
+        it('should report tagged-template row length errors', () => {
+            const mockJasmineFn = jasmine.createSpy('jasmineFn');
+            const runner = createParameterizedRunner(mockJasmineFn);
+
+            expect(() => {
+                runner('test $a + $b', () => {}).where(table`
+                    a    | b
+                    ${1} | ${2} | ${3}
+                `);
+            }).toThrowError(/row 0 has 3 values but expected 2/);
+            expect(mockJasmineFn).not.toHaveBeenCalled();
+        });
+    });
+
+    // ===========================================
+    // COMBINATIONS
+    // ===========================================
+
+    describe('whereCombinations', () => {
+        it('should register one test per combination', () => {
+            const mockJasmineFn = jasmine.createSpy('jasmineFn');
+            const testFn = jasmine.createSpy('testFn');
+
+            const runner = createParameterizedRunner(mockJasmineFn);
+            runner('$locale/$currency', testFn).whereCombinations({
+                locale: ['en', 'de'],
+                currency: ['USD', 'EUR']
+            });
+
+            expect(mockJasmineFn.calls.allArgs().map(args => args[0])).toEqual([
+                'en/USD', 'en/EUR', 'de/USD', 'de/EUR'
+            ]);
+
+            mockJasmineFn.calls.argsFor(2)[1].call({});
+            expect(testFn).toHaveBeenCalledWith({locale: 'de', currency: 'USD'});
+        });
+
+        it('should skip excluded combinations', () => {
+            const mockJasmineFn = jasmine.createSpy('jasmineFn');
+
+            const runner = createParameterizedRunner(mockJasmineFn);
+            runner('$a vs $b', () => {}).whereCombinations(
+                { a: [1, 2], b: [1, 2] },
+                { exclude: (tc) => tc['a'] === tc['b'] }
+            );
+
+            expect(mockJasmineFn.calls.allArgs().map(args => args[0])).toEqual(['1 vs 2', '2 vs 1']);
+        });
+
+        it('should pass timeout through to Jasmine', () => {
+            const mockJasmineFn = jasmine.createSpy('jasmineFn');
+
+            const runner = createParameterizedRunner(mockJasmineFn);
+            runner('$a', () => {}).whereCombinations({ a: [1, 2] }, { timeout: 3000 });
+
+            expect(mockJasmineFn.calls.argsFor(0)[2]).toBe(3000);
+            expect(mockJasmineFn.calls.argsFor(1)[2]).toBe(3000);
+        });
+
+        it('should register nothing when every combination is excluded', () => {
+            const mockJasmineFn = jasmine.createSpy('jasmineFn');
+
+            const runner = createParameterizedRunner(mockJasmineFn);
+            runner('$a', () => {}).whereCombinations({ a: [1, 2] }, { exclude: () => true });
+
+            expect(mockJasmineFn).not.toHaveBeenCalled();
+        });
+
+        it('should accept pairwise cases in .where()', () => {
+            spyOn(console, 'info');
+            const mockJasmineFn = jasmine.createSpy('jasmineFn');
+            const cases = pairwise({ a: [1, 2, 3], b: ['x', 'y'], c: [true, false] });
+
+            const runner = createParameterizedRunner(mockJasmineFn);
+            runner('$a $b $c', () => {}).where(cases);
+
+            expect(mockJasmineFn).toHaveBeenCalledTimes(cases.length);
+            expect(mockJasmineFn.calls.argsFor(0)[0]).toBe(`${cases[0]['a']} ${cases[0]['b']} ${cases[0]['c']}`);
+        });
+
+        it('should log the coverage of pairwise cases passed to .where()', () => {
+            const info = spyOn(console, 'info');
+            const warn = spyOn(console, 'warn');
+            const runner = createParameterizedRunner(jasmine.createSpy('jasmineFn'));
+
+            const cases = pairwise({ a: [1, 2], b: ['x', 'y'] });
+            runner('$a $b', () => {}).where(cases);
+            expect(info).toHaveBeenCalledOnceWith(`Test cases for template "$a $b": ${cases.coverage.summary}`);
+            expect(warn).not.toHaveBeenCalled();
+
+            const partial = pairwise({ a: [1, 2], b: ['x', 'y'] }, { maxCases: 2 });
+            runner('$a $b', () => {}).where(partial);
+            expect(warn).toHaveBeenCalledOnceWith(
+                'Test cases for template "$a $b": pairwise: 2 cases cover 2/4 pairs (50%) - full product: 4'
+            );
+        });
+
+        it('should include the template in dimension errors', () => {
+            const mockJasmineFn = jasmine.createSpy('jasmineFn');
+            const runner = createParameterizedRunner(mockJasmineFn);
+
+            expect(() => {
+                runner('test $a', () => {}).whereCombinations({ a: [] });
+            }).toThrowError(/Dimension 'a' for "test \$a" must be a non-empty array/);
+        });
+    });
+
+    // ===========================================
+    // PROPERTY RUNNER (forAll)
+    // ===========================================
+
+    describe('property runner', () => {
+        it('should register one test per run with values and the seed in the name', () => {
+            const mockJasmineFn = jasmine.createSpy('jasmineFn');
+            const runner = createPropertyRunner(mockJasmineFn);
+
+            runner('value $n', () => true).forAll({ n: arb.int(0, 9) }, { runs: 5, seed: 1 });
+
+            expect(mockJasmineFn).toHaveBeenCalledTimes(5);
+            for (const [name] of mockJasmineFn.calls.allArgs()) {
+                expect(name).toMatch(/^value \d \(seed: 1\)( \[case \d\])?$/);
+            }
+        });
+
+        it('should name runs with the random seed when none is given', () => {
+            const mockJasmineFn = jasmine.createSpy('jasmineFn');
+
+            createPropertyRunner(mockJasmineFn)('value $n', () => true).forAll({ n: arb.int(0, 9) }, { runs: 3 });
+
+            const seeds = mockJasmineFn.calls.allArgs().map(([name]) => /\(seed: (\d+)\)/.exec(name)?.[1]);
+            expect(seeds[0]).toMatch(/^\d+$/);
+            expect(seeds).toEqual([seeds[0], seeds[0], seeds[0]]);
+        });
+
+        it('should generate the same cases for the same seed', () => {
+            const first = jasmine.createSpy('first');
+            const second = jasmine.createSpy('second');
+
+            createPropertyRunner(first)('$xs', () => true).forAll({ xs: arb.array(arb.int()) }, { runs: 10, seed: 7 });
+            createPropertyRunner(second)('$xs', () => true).forAll({ xs: arb.array(arb.int()) }, { runs: 10, seed: 7 });
+
+            expect(first.calls.allArgs().map(args => args[0])).toEqual(second.calls.allArgs().map(args => args[0]));
+        });
+
+        it('should pass the generated case and pass when the property holds', async () => {
+            const mockJasmineFn = jasmine.createSpy('jasmineFn');
+            const property = jasmine.createSpy('property').and.returnValue(true);
+
+            createPropertyRunner(mockJasmineFn)('$n', property).forAll({ n: arb.constant(3) }, { runs: 1 });
+
+            await expectAsync(mockJasmineFn.calls.argsFor(0)[1].call({})).toBeResolved();
+            expect(property).toHaveBeenCalledWith({ n: 3 });
+        });
+
+        it('should shrink a failure to the minimal counterexample and print the seed', async () => {
+            const mockJasmineFn = jasmine.createSpy('jasmineFn');
+
+            createPropertyRunner(mockJasmineFn)('n is $n', (tc) => tc['n'] < 10)
+                .forAll({ n: arb.int(0, 1000) }, { runs: 50, seed: 42 });
+
+            const failures: Error[] = [];
+            for (const [, fn] of mockJasmineFn.calls.allArgs()) {
+                await fn.call({}).catch((error: Error) => failures.push(error));
+            }
+
+            expect(failures.length).toBeGreaterThan(1);
+            expect(failures[0].message).toContain('Counterexample: n is 10');
+            expect(failures[0].message).toContain('(seed: 42)');
+            expect(failures[0].message).toContain('.forAll(arbitraries, { seed: 42, runs: 50 })');
+            expect(failures[0].message).toContain('Cause:          property returned false');
+        });
+
+        it('should report thrown errors as the cause', async () => {
+            const mockJasmineFn = jasmine.createSpy('jasmineFn');
+
+            createPropertyRunner(mockJasmineFn)('$s', (tc) => {
+                if (tc['s'].includes('b')) throw new TypeError('no b allowed');
+            }).forAll({ s: arb.string({ minLength: 1, chars: 'ab' }) }, { runs: 30, seed: 3 });
+
+            const failures: Error[] = [];
+            for (const [, fn] of mockJasmineFn.calls.allArgs()) {
+                await fn.call({}).catch((error: Error) => failures.push(error));
+            }
+
+            expect(failures[0].message).toContain('Counterexample: b ');
+            expect(failures[0].message).toContain('TypeError: no b allowed');
+        });
+
+        it('should check every run but shrink only the first failure', async () => {
+            const mockJasmineFn = jasmine.createSpy('jasmineFn');
+            const property = jasmine.createSpy('property').and.callFake((tc: Record<string, number>) => tc['n'] < 5);
+
+            createPropertyRunner(mockJasmineFn)('n is $n', property).forAll({ n: arb.int(0, 9) }, { runs: 20, seed: 7 });
+
+            const outcomes: Array<{ n: number; error?: Error }> = [];
+            for (const [, fn] of mockJasmineFn.calls.allArgs()) {
+                const callsBefore = property.calls.count();
+                const error = await fn.call({}).then(() => undefined, (e: Error) => e);
+                outcomes.push({ n: property.calls.argsFor(callsBefore)[0]['n'], error });
+            }
+
+            const [first, ...later] = outcomes.filter(outcome => outcome.n >= 5);
+            expect(later.length).toBeGreaterThan(0);
+            expect(first.error?.message).toContain('Counterexample: n is 5');
+            for (const { n, error } of later) {
+                expect(error?.message).toContain(`Original:       n is ${n}`);
+                expect(error?.message).toContain(`Values:         {"n":${n}}`);
+                expect(error?.message).toMatch(/Not shrunk: +run \d+ already failed and reports the counterexample/);
+                expect(error?.message).not.toContain('Counterexample');
+            }
+            for (const { n, error } of outcomes.filter(outcome => outcome.n < 5)) {
+                expect(error).withContext(`n = ${n}`).toBeUndefined();
+            }
+        });
+
+        it('should forward the timeout to Jasmine', () => {
+            const mockJasmineFn = jasmine.createSpy('jasmineFn');
+
+            createPropertyRunner(mockJasmineFn)('$n', () => true).forAll({ n: arb.int() }, { runs: 2, timeout: 500 });
+
+            expect(mockJasmineFn.calls.argsFor(0)[2]).toBe(500);
+            expect(mockJasmineFn.calls.argsFor(1)[2]).toBe(500);
+        });
+
+        it('should throw for invalid arbitraries and runs', () => {
+            const runner = createPropertyRunner(jasmine.createSpy('jasmineFn'));
+
+            expect(() => runner('$n', () => true).forAll([] as any)).toThrowError(
+                /Arbitraries must be an object of name → arbitrary for template "\$n", received: array/
+            );
+            expect(() => runner('$n', () => true).forAll({ n: 5 as any })).toThrowError(
+                /Arbitrary 'n' for template "\$n" must be created with arb\.\*\(\), received: number/
+            );
+            expect(() => runner('$n', () => true).forAll({ n: arb.int() }, { runs: 0 })).toThrowError(
+                /Property runs must be a positive integer .* received: 0/
+            );
+            expect(() => runner('$n', null as any)).toThrowError(/Test function must be a valid function/);
+            expect(() => runner('' as any, () => true)).toThrowError('Test name template must be a non-empty string, received: (empty string)');
+        });
     });
 
     // ===========================================
@@ -391,4 +655,1536 @@ describe('Jasmine Mock Tests', () => {
             expect(mockJasmineFn).not.toHaveBeenCalled();
         });
     });
+
+    // ===========================================
+    // PER-CASE SKIP / ONLY / PENDING
+    // ===========================================
+
+    describe('per-case _skip, _only and _pending', () => {
+        const createVariants = (supportsPending = true) => ({
+            focus: jasmine.createSpy('focus'),
+            skip: jasmine.createSpy('skip'),
+            supportsPending
+        });
+
+        it('should register _skip cases with the skip variant and the reason in the name', () => {
+            const mockJasmineFn = jasmine.createSpy('jasmineFn');
+            const variants = createVariants();
+
+            createParameterizedRunner(mockJasmineFn, variants)('test $value', () => {}).where([
+                {value: 1},
+                {value: 2, _skip: 'flaky on CI'},
+                {value: 3, _skip: true}
+            ]);
+
+            expect(mockJasmineFn).toHaveBeenCalledTimes(1);
+            expect(variants.skip.calls.argsFor(0)[0]).toBe('test 2 (skipped: flaky on CI)');
+            expect(variants.skip.calls.argsFor(1)[0]).toBe('test 3');
+        });
+
+        it('should register _only cases with the focus variant', () => {
+            const mockJasmineFn = jasmine.createSpy('jasmineFn');
+            const testFn = jasmine.createSpy('testFn');
+            const variants = createVariants();
+
+            createParameterizedRunner(mockJasmineFn, variants)('test $value', testFn).where([
+                {value: 1},
+                {value: 2, _only: true}
+            ]);
+
+            expect(mockJasmineFn.calls.argsFor(0)[0]).toBe('test 1');
+            expect(variants.focus.calls.argsFor(0)[0]).toBe('test 2');
+
+            variants.focus.calls.argsFor(0)[1].call({});
+            expect(testFn).toHaveBeenCalledWith({value: 2, _only: true});
+        });
+
+        it('should mark _pending test cases pending with the reason', () => {
+            const mockJasmineFn = jasmine.createSpy('jasmineFn');
+            const testFn = jasmine.createSpy('testFn');
+            const pendingSpy = spyOn(globalThis as any, 'pending');
+
+            createParameterizedRunner(mockJasmineFn, createVariants())('test $value', testFn).where([
+                {value: 1, _pending: 'JIRA-123'},
+                {value: 2, _pending: true}
+            ]);
+
+            expect(mockJasmineFn.calls.argsFor(0)[0]).toBe('test 1');
+            mockJasmineFn.calls.argsFor(0)[1].call({});
+            mockJasmineFn.calls.argsFor(1)[1].call({});
+
+            expect(pendingSpy.calls.argsFor(0)).toEqual(['JIRA-123']);
+            expect(pendingSpy.calls.argsFor(1)).toEqual([undefined]);
+            expect(testFn).not.toHaveBeenCalled();
+        });
+
+        it('should exclude _pending suites when the runner does not support pending()', () => {
+            const mockJasmineFn = jasmine.createSpy('jasmineFn');
+            const variants = createVariants(false);
+
+            createParameterizedRunner(mockJasmineFn, variants)('suite $value', () => {}).where([
+                {value: 1, _pending: 'JIRA-123'}
+            ]);
+
+            expect(mockJasmineFn).not.toHaveBeenCalled();
+            expect(variants.skip.calls.argsFor(0)[0]).toBe('suite 1 (pending: JIRA-123)');
+        });
+
+        it('should support the keys as table columns, ignoring falsy values', () => {
+            const mockJasmineFn = jasmine.createSpy('jasmineFn');
+            const variants = createVariants();
+
+            createParameterizedRunner(mockJasmineFn, variants)('test $a', () => {}).where([
+                ['a', '_skip', '_only'],
+                [1, false, false],
+                [2, 'broken', false],
+                [3, undefined, true]
+            ]);
+
+            expect(mockJasmineFn.calls.allArgs().map(args => args[0])).toEqual(['test 1']);
+            expect(variants.skip.calls.argsFor(0)[0]).toBe('test 2 (skipped: broken)');
+            expect(variants.focus.calls.argsFor(0)[0]).toBe('test 3');
+        });
+
+        it('should keep per-case _timeout for skipped and focused cases', () => {
+            const variants = createVariants();
+
+            createParameterizedRunner(jasmine.createSpy('jasmineFn'), variants)('test $value', () => {}).where([
+                {value: 1, _skip: true, _timeout: 100},
+                {value: 2, _only: true}
+            ], { timeout: 500 });
+
+            expect(variants.skip.calls.argsFor(0)[2]).toBe(100);
+            expect(variants.focus.calls.argsFor(0)[2]).toBe(500);
+        });
+
+        it('should throw when a case combines several of the keys', () => {
+            const mockJasmineFn = jasmine.createSpy('jasmineFn');
+
+            expect(() => {
+                createParameterizedRunner(mockJasmineFn, createVariants())('test $value', () => {}).where([
+                    {value: 1},
+                    {value: 2, _skip: 'x', _only: true}
+                ]);
+            }).toThrowError(/Test case 1 for template "test \$value" combines '_skip' and '_only'/);
+
+            // Nothing registered before the error
+            expect(mockJasmineFn).not.toHaveBeenCalled();
+        });
+
+        it('should throw when the runner has no variants', () => {
+            expect(() => {
+                createParameterizedRunner(jasmine.createSpy('jasmineFn'))('test $value', () => {}).where([
+                    {value: 1, _only: true}
+                ]);
+            }).toThrowError(/Test case 0 .* uses '_only', but this runner has no focused\/excluded variants/);
+        });
+    });
+
+    // ===========================================
+    // TAG FILTERING
+    // ===========================================
+
+    describe('tag filtering', () => {
+        const createVariants = () => ({
+            focus: jasmine.createSpy('focus'),
+            skip: jasmine.createSpy('skip'),
+            supportsPending: true
+        });
+
+        const cases = [
+            {value: 1, _tags: ['slow']},
+            {value: 2, _tags: ['i18n']},
+            {value: 3}
+        ];
+
+        let karma: unknown;
+
+        beforeEach(() => {
+            karma = (globalThis as any).__karma__;
+        });
+
+        afterEach(() => {
+            resetParameterizedTestsConfig();
+            (globalThis as any).__karma__ = karma;
+        });
+
+        it('should register every case normally without a tag expression', () => {
+            (globalThis as any).__karma__ = undefined;
+            const mockJasmineFn = jasmine.createSpy('jasmineFn');
+            const variants = createVariants();
+
+            createParameterizedRunner(mockJasmineFn, variants)('test $value', () => {}).where(cases);
+
+            expect(mockJasmineFn).toHaveBeenCalledTimes(3);
+            expect(variants.skip).not.toHaveBeenCalled();
+        });
+
+        it('should register non-matching cases as skipped with the filter as reason', () => {
+            configureParameterizedTests({ tags: '!slow' });
+            const mockJasmineFn = jasmine.createSpy('jasmineFn');
+            const variants = createVariants();
+
+            createParameterizedRunner(mockJasmineFn, variants)('test $value', () => {}).where(cases);
+
+            expect(mockJasmineFn.calls.allArgs().map(args => args[0])).toEqual(['test 2', 'test 3']);
+            expect(variants.skip.calls.argsFor(0)[0]).toBe('test 1 (filtered: tags "!slow")');
+        });
+
+        it('should filter untagged cases when a tag is required', () => {
+            configureParameterizedTests({ tags: 'i18n || slow' });
+            const mockJasmineFn = jasmine.createSpy('jasmineFn');
+            const variants = createVariants();
+
+            createParameterizedRunner(mockJasmineFn, variants)('test $value', () => {}).where(cases);
+
+            expect(mockJasmineFn).toHaveBeenCalledTimes(2);
+            expect(variants.skip.calls.argsFor(0)[0]).toBe('test 3 (filtered: tags "i18n || slow")');
+        });
+
+        it('should skip filtered cases even when they are focused', () => {
+            configureParameterizedTests({ tags: 'i18n' });
+            const variants = createVariants();
+
+            createParameterizedRunner(jasmine.createSpy('jasmineFn'), variants)('test $value', () => {}).where([
+                {value: 1, _only: true}
+            ]);
+
+            expect(variants.focus).not.toHaveBeenCalled();
+            expect(variants.skip).toHaveBeenCalledTimes(1);
+        });
+
+        it('should read --tags from Karma client args', () => {
+            const mockJasmineFn = jasmine.createSpy('jasmineFn');
+
+            (globalThis as any).__karma__ = { config: { args: ['--tags', 'slow'] } };
+            const first = createVariants();
+            createParameterizedRunner(mockJasmineFn, first)('test $value', () => {}).where(cases);
+            expect(first.skip).toHaveBeenCalledTimes(2);
+
+            (globalThis as any).__karma__ = { config: { args: ['--tags=!slow && !i18n'] } };
+            const second = createVariants();
+            createParameterizedRunner(mockJasmineFn, second)('test $value', () => {}).where(cases);
+            expect(second.skip.calls.allArgs().map(args => args[0])).toEqual([
+                'test 1 (filtered: tags "!slow && !i18n")',
+                'test 2 (filtered: tags "!slow && !i18n")'
+            ]);
+        });
+
+        it('should prefer the global configuration over Karma client args', () => {
+            (globalThis as any).__karma__ = { config: { args: ['--tags', 'slow'] } };
+            configureParameterizedTests({ tags: 'i18n' });
+            const variants = createVariants();
+
+            createParameterizedRunner(jasmine.createSpy('jasmineFn'), variants)('test $value', () => {}).where(cases);
+
+            expect(variants.skip.calls.allArgs().map(args => args[0])).toEqual([
+                'test 1 (filtered: tags "i18n")',
+                'test 3 (filtered: tags "i18n")'
+            ]);
+        });
+
+        it('should not require consistent _tags or resolve them as placeholders', () => {
+            configureParameterizedTests({ tags: 'fast' });
+            const mockJasmineFn = jasmine.createSpy('jasmineFn');
+
+            createParameterizedRunner(mockJasmineFn, createVariants())('test $value $_tags', () => {}).where([
+                {value: 1, _tags: ['fast']},
+                {value: 2, _tags: ['fast'], _timeout: 100}
+            ]);
+
+            expect(mockJasmineFn.calls.argsFor(0)[0]).toBe('test 1 $_tags');
+        });
+
+        it('should throw for invalid _tags', () => {
+            const runner = createParameterizedRunner(jasmine.createSpy('jasmineFn'), createVariants());
+
+            expect(() => runner('test $value', () => {}).where([{value: 1, _tags: 'slow'}])).toThrowError(
+                /Test case 0 for template "test \$value" has invalid '_tags' - expected an array of tag names, received: "slow"/
+            );
+            expect(() => runner('test $value', () => {}).where([{value: 1, _tags: [1]}])).toThrowError(/received: \[1\]/);
+        });
+
+        it('should throw for malformed tag expressions', () => {
+            configureParameterizedTests({ tags: 'slow &&' });
+
+            expect(() => {
+                createParameterizedRunner(jasmine.createSpy('jasmineFn'), createVariants())('test $value', () => {}).where(cases);
+            }).toThrowError(/Invalid tag expression "slow &&"/);
+        });
+
+        it('should throw when a filtered case cannot be skipped', () => {
+            configureParameterizedTests({ tags: 'i18n' });
+
+            expect(() => {
+                createParameterizedRunner(jasmine.createSpy('jasmineFn'))('test $value', () => {}).where(cases);
+            }).toThrowError(/Test case 0 .* is filtered out by tags "i18n", but this runner has no excluded variant/);
+        });
+    });
+
+    // ===========================================
+    // TYPED CASES
+    // ===========================================
+
+    // Compile-time checks: the spec type-check fails if an expected error disappears
+
+    describe('typed cases', () => {
+        interface AddCase {
+            a: number;
+            b: number;
+            expected: number;
+        }
+
+        it('should pass typed cases from an explicit type argument', () => {
+            const mockJasmineFn = jasmine.createSpy('jasmineFn');
+            const sums: number[] = [];
+
+            createParameterizedRunner(mockJasmineFn)<AddCase>('$a + $b', (tc) => {
+                sums.push(tc.a + tc.b);
+            }).where([
+                {a: 1, b: 2, expected: 3},
+                {a: 2, b: 2, expected: 4, _timeout: 100}
+            ]);
+
+            mockJasmineFn.calls.allArgs().forEach(([, fn]) => fn.call({}));
+            expect(sums).toEqual([3, 4]);
+        });
+
+        it('should infer the case type from the callback annotation', () => {
+            const mockJasmineFn = jasmine.createSpy('jasmineFn');
+            const runner = createParameterizedRunner(mockJasmineFn);
+
+            runner('$a', (tc: AddCase) => {}).where([{a: 1, b: 2, expected: 3}]);
+
+            // @ts-expect-error - 'bb' is not a key of AddCase
+            runner('$a', (tc: AddCase) => {}).where([{a: 1, bb: 2, expected: 3}]);
+
+            expect(mockJasmineFn).toHaveBeenCalledTimes(2);
+        });
+
+        it('should reject rows that do not match the case type', () => {
+            const runner = createParameterizedRunner(jasmine.createSpy('jasmineFn'))<AddCase>('$a', () => {});
+
+            // @ts-expect-error - wrong value type
+            runner.where([{a: '1', b: 2, expected: 3}]);
+
+            // @ts-expect-error - missing key
+            runner.where([{a: 1, b: 2}]);
+
+            // @ts-expect-error - invalid reserved key value
+            runner.where([{a: 1, b: 2, expected: 3, _timeout: 'slow'}]);
+
+            expect(true).toBe(true);
+        });
+
+        it('should check table headers and cells against the case type', () => {
+            const mockJasmineFn = jasmine.createSpy('jasmineFn');
+            const testFn = jasmine.createSpy('testFn');
+            const runner = createParameterizedRunner(mockJasmineFn)<AddCase>('$a', testFn);
+
+            runner.where([
+                ['a', 'b', 'expected', '_skip'],
+                [1, 2, 3, false]
+            ]);
+
+            // @ts-expect-error - 'bb' is not a column of AddCase
+            runner.where([['a', 'bb', 'expected'], [1, 2, 3]]);
+
+            // @ts-expect-error - cell type does not match its column
+            runner.where([['a', 'b', 'expected'], [1, 'two', 3]]);
+
+            mockJasmineFn.calls.argsFor(0)[1].call({});
+            expect(testFn).toHaveBeenCalledWith({a: 1, b: 2, expected: 3, _skip: false});
+        });
+
+        it('should accept tagged-template tables declared with the case type', () => {
+            const mockJasmineFn = jasmine.createSpy('jasmineFn');
+            const runner = createParameterizedRunner(mockJasmineFn)<AddCase>('$a', () => {});
+
+            runner.where(table<AddCase>`a | b | expected ${1} | ${2} | ${3}`);
+            runner.where(table`a | b | expected ${2} | ${2} | ${4}`);
+
+            // @ts-expect-error - table declared for another case type
+            runner.where(table<{ z: number }>`z ${1}`);
+
+            expect(mockJasmineFn).toHaveBeenCalledTimes(3);
+        });
+
+        it('should type whereCombinations dimensions and exclude', () => {
+            const mockJasmineFn = jasmine.createSpy('jasmineFn');
+            const runner = createParameterizedRunner(mockJasmineFn)<AddCase>('$a + $b', () => {});
+
+            runner.whereCombinations(
+                {a: [1, 2], b: [3], expected: [0]},
+                {exclude: (tc) => tc.a === 2}
+            );
+
+            // @ts-expect-error - dimension values must match the case property type
+            runner.whereCombinations({a: ['1'], b: [3], expected: [0]});
+
+            expect(mockJasmineFn).toHaveBeenCalledTimes(2);
+        });
+
+        it('should derive case types from data with InferCase, stripping reserved keys', () => {
+            const cases = [
+                {a: 1, b: 2, expected: 3},
+                {a: 2, b: 2, expected: 4, _timeout: 100}
+            ];
+            const tableData = [
+                ['name', 'age', '_timeout'],
+                ['Eleanor', 30, undefined],
+                ['Winston', 25, 100]
+            ] as const;
+
+            const fromObjects: InferCase<typeof cases> = {a: 1, b: 2, expected: 3};
+            const fromTable: InferCase<typeof tableData> = {name: 'Ada', age: 36};
+
+            // @ts-expect-error - reserved keys are not part of the inferred case
+            const withReserved: InferCase<typeof cases> = {a: 1, b: 2, expected: 3, _timeout: 1};
+
+            const mockJasmineFn = jasmine.createSpy('jasmineFn');
+            createParameterizedRunner(mockJasmineFn)<InferCase<typeof tableData>>('$name', (tc) => {
+                expect(tc.name.length).toBeGreaterThan(0);
+            }).where(tableData);
+
+            expect(fromObjects.expected).toBe(3);
+            expect(fromTable.age).toBe(36);
+            expect(withReserved).toBeDefined();
+            expect(mockJasmineFn).toHaveBeenCalledTimes(2);
+        });
+
+        it('should not infer the case type from the data passed to .where()', () => {
+            const mockJasmineFn = jasmine.createSpy('jasmineFn');
+            const values: number[] = [];
+
+            createParameterizedRunner(mockJasmineFn)('adds $a', (tc) => {
+                // @ts-expect-error - tc stays Record<string, any>, so 'a' is only readable by index
+                values.push(tc.a);
+            }).where([{a: 1}]);
+
+            mockJasmineFn.calls.argsFor(0)[1].call({});
+            expect(values).toEqual([1]);
+        });
+
+        it('should keep untyped runners permissive', () => {
+            const mockJasmineFn = jasmine.createSpy('jasmineFn');
+
+            createParameterizedRunner(mockJasmineFn)('$a', (tc) => {
+                expect(tc['anything']).toBeUndefined();
+            }).where([{a: 1}, {a: 2, _timeout: 100}]);
+
+            expect(mockJasmineFn).toHaveBeenCalledTimes(2);
+        });
+
+        it('should type property cases and their arbitraries', () => {
+            const mockJasmineFn = jasmine.createSpy('jasmineFn');
+            const runner = createPropertyRunner(mockJasmineFn)<{ n: number }>('$n', (tc) => tc.n >= 0);
+
+            runner.forAll({n: arb.int(0, 10)}, {runs: 3});
+
+            // @ts-expect-error - arbitrary type must match the case property type
+            expect(() => runner.forAll({n: arb.string()}, {runs: 1})).not.toThrow();
+
+            expect(mockJasmineFn).toHaveBeenCalledTimes(4);
+        });
+    });
+
+    // ===========================================
+    // TEMPLATE PLACEHOLDER CHECKING
+    // ===========================================
+
+    // Compile-time checks: the spec type-check fails if an expected error disappears
+
+    describe('template placeholder checking', () => {
+        interface UserCase {
+            id: number;
+            user: { name: string; emails?: string[] };
+            items: { sku: string }[];
+        }
+
+        it('should extract placeholder paths like the runtime does', () => {
+            const paths: TemplatePlaceholders<'$id: $user.name, $items[0].sku at $index, $indexed'>[] =
+                ['id', 'user.name', 'items[0].sku', 'indexed'];
+
+            // @ts-expect-error - $index is resolved separately and never a case path
+            const index: TemplatePlaceholders<'at $index'> = 'index';
+
+            expect(paths.length).toBe(4);
+            expect(index).toBe('index');
+        });
+
+        it('should extract braced, quoted and escaped placeholders like the runtime does', () => {
+            const paths: TemplatePlaceholders<"$$id ${id}th ${index:0>3} $headers['content-type'] $vars[\"--x\"] $['a.b']">[] =
+                ['id', "headers['content-type']", 'vars["--x"]', "['a.b']"];
+
+            // @ts-expect-error - '$$' escapes the dollar sign, so there is no 'cost' placeholder
+            const escaped: TemplatePlaceholders<'costs $$cost'> = 'cost';
+
+            expect(paths.length).toBe(4);
+            expect(escaped).toBe('cost');
+        });
+
+        it('should accept braced placeholders, quoted keys and escapes on typed cases', () => {
+            const mockJasmineFn = jasmine.createSpy('jasmineFn');
+            const runner = createParameterizedRunner(mockJasmineFn);
+
+            runner("$$${id}k for $headers['content-type'] (${user.name:upper})", (tc: UserCase & { headers: { 'content-type': string } }) => {}).where([
+                {id: 5, user: {name: 'Eleanor'}, items: [], headers: {'content-type': 'text/csv'}}
+            ]);
+
+            expect(mockJasmineFn.calls.argsFor(0)[0]).toBe('$5k for text/csv (ELEANOR)');
+        });
+
+        it('should accept templates whose placeholders exist on the case type', () => {
+            const mockJasmineFn = jasmine.createSpy('jasmineFn');
+            const runner = createParameterizedRunner(mockJasmineFn);
+
+            runner('$index: $id $user.name $user.emails[0] $items[1].sku $_timeout', (tc: UserCase) => {}).where([
+                {id: 1, user: {name: 'Eleanor'}, items: []}
+            ]);
+
+            expect(mockJasmineFn.calls.argsFor(0)[0]).toBe('0: 1 Eleanor $user.emails[0] $items[1].sku $_timeout');
+        });
+
+        it('should reject unknown placeholders for literal templates', () => {
+            const runner = createParameterizedRunner(jasmine.createSpy('jasmineFn'));
+
+            // @ts-expect-error - 'idd' is not a key of UserCase
+            runner('user $idd', (tc: UserCase) => {});
+
+            // @ts-expect-error - nested typo
+            runner('user $user.nam', (tc: UserCase) => {});
+
+            // @ts-expect-error - arrays need an index
+            runner('user $items.sku', (tc: UserCase) => {});
+
+            // @ts-expect-error - '-' continues the path, so this is one unresolvable placeholder
+            runner('user $id-$user', (tc: UserCase) => {});
+
+            // @ts-expect-error - braced placeholders are checked too
+            runner('${idd}th user', (tc: UserCase) => {});
+
+            // @ts-expect-error - so are quoted bracket keys
+            runner("$headers['content-typ']", (tc: { headers: { 'content-type': string } }) => {});
+
+            // @ts-expect-error - property runners check templates too
+            createPropertyRunner(jasmine.createSpy('jasmineFn'))('$m', (tc: { n: number }) => true);
+
+            expect(true).toBe(true);
+        });
+
+        it('should stay permissive for non-literal templates and untyped cases', () => {
+            const runner = createParameterizedRunner(jasmine.createSpy('jasmineFn'));
+            const template: string = 'user $idd';
+
+            runner(template, (tc: UserCase) => {});
+            runner('user $idd', (tc) => {});
+            runner('user $idd', (tc: any) => {});
+            runner<UserCase>('user $idd', (tc) => {});  // No partial inference - template not checked
+
+            expect(true).toBe(true);
+        });
+    });
+
+    // ===========================================
+    // STRICT NAMING
+    // ===========================================
+
+    describe('strict naming', () => {
+        afterEach(() => {
+            resetParameterizedTestsConfig();
+        });
+
+        it('should keep unresolved placeholders in names by default', () => {
+            const mockJasmineFn = jasmine.createSpy('jasmineFn');
+
+            createParameterizedRunner(mockJasmineFn)('$a is $expceted', () => {}).where([
+                {a: 1, expected: 1}
+            ]);
+
+            expect(mockJasmineFn.calls.argsFor(0)[0]).toBe('1 is $expceted');
+        });
+
+        it('should throw before registering any case in strict mode', () => {
+            const mockJasmineFn = jasmine.createSpy('jasmineFn');
+
+            expect(() => {
+                createParameterizedRunner(mockJasmineFn)('$a is $expceted', () => {}).where([
+                    {a: 1, expected: 1},
+                    {a: 2, expected: 2}
+                ], { strict: true });
+            }).toThrowError(/Unresolved placeholder in test name template "\$a is \$expceted" \(test case 0\):\n  - \$expceted \(💡 Did you mean '\$expected'\?\)/);
+            expect(mockJasmineFn).not.toHaveBeenCalled();
+        });
+
+        it('should apply the global strict setting unless .where() overrides it', () => {
+            configureParameterizedTests({ strict: true });
+            const mockJasmineFn = jasmine.createSpy('jasmineFn');
+            const runner = createParameterizedRunner(mockJasmineFn)('$a is $expceted', () => {});
+
+            expect(() => runner.where([{a: 1, expected: 1}])).toThrowError(/Unresolved placeholder/);
+
+            runner.where([{a: 1, expected: 1}], { strict: false });
+            expect(mockJasmineFn.calls.argsFor(0)[0]).toBe('1 is $expceted');
+        });
+
+        it('should warn about unreferenced columns with distinct values when asked to', () => {
+            const warn = spyOn(console, 'warn');
+
+            createParameterizedRunner(jasmine.createSpy('jasmineFn'))('adds $a', () => {}).where([
+                {a: 1, b: 2, expected: 3},
+                {a: 1, b: 3, expected: 4}
+            ], { warnUnusedColumns: true });
+
+            expect(warn).toHaveBeenCalledOnceWith(
+                `Test name template "adds $a" does not reference 'b', 'expected', although every case has a different value - the test names may not tell the cases apart`
+            );
+        });
+
+        it('should not warn about unreferenced columns unless enabled', () => {
+            const warn = spyOn(console, 'warn');
+            const cases = [{a: 1, b: 2}, {a: 1, b: 3}];
+
+            createParameterizedRunner(jasmine.createSpy('jasmineFn'))('adds $a', () => {}).where(cases);
+            expect(warn).not.toHaveBeenCalled();
+
+            configureParameterizedTests({ warnUnusedColumns: true });
+            createParameterizedRunner(jasmine.createSpy('jasmineFn'))('adds $a and $b', () => {}).where(cases);
+            expect(warn).not.toHaveBeenCalled();
+
+            createParameterizedRunner(jasmine.createSpy('jasmineFn'))('adds $a', () => {}).where(cases);
+            expect(warn).toHaveBeenCalledTimes(1);
+        });
+    });
+
+    // ===========================================
+    // VALUE FORMATTERS
+    // ===========================================
+
+    describe('value formatters', () => {
+        class Money {
+            constructor(readonly amount: number, readonly currency: string) {}
+        }
+
+        const money = { type: Money, format: (m: Money) => `${m.amount} ${m.currency}` };
+
+        afterEach(() => {
+            resetParameterizedTestsConfig();
+        });
+
+        it('should render objects, arrays and dates with the built-in formatters', () => {
+            const mockJasmineFn = jasmine.createSpy('jasmineFn');
+
+            createParameterizedRunner(mockJasmineFn)('$input -> $expected', () => {}).where([
+                {input: [1, 2], expected: {sum: 3}},
+                {input: new Date(0), expected: -0}
+            ]);
+
+            expect(mockJasmineFn.calls.allArgs().map(args => args[0])).toEqual([
+                '[1, 2] -> {sum: 3}',
+                '1970-01-01T00:00:00.000Z -> -0'
+            ]);
+        });
+
+        it('should use formatters given to .where()', () => {
+            const mockJasmineFn = jasmine.createSpy('jasmineFn');
+
+            createParameterizedRunner(mockJasmineFn)('charges $price', () => {}).where([
+                {price: new Money(5, 'EUR')}
+            ], { formatters: [money] });
+
+            expect(mockJasmineFn.calls.argsFor(0)[0]).toBe('charges 5 EUR');
+        });
+
+        it('should use global formatters after those given to .where()', () => {
+            configureParameterizedTests({
+                formatters: [money, { test: (v) => v === 0, format: () => 'zero' }],
+                quoteStrings: true
+            });
+            const mockJasmineFn = jasmine.createSpy('jasmineFn');
+
+            createParameterizedRunner(mockJasmineFn)('$price $count $label', () => {}).where([
+                {price: new Money(1, 'USD'), count: 0, label: 'a'}
+            ], { formatters: [{ test: (v) => v === 0, format: () => 'none' }] });
+
+            expect(mockJasmineFn.calls.argsFor(0)[0]).toBe('1 USD none "a"');
+        });
+
+        it('should let .where() options override global value options', () => {
+            configureParameterizedTests({ quoteStrings: true, maxValueLength: 3 });
+            const mockJasmineFn = jasmine.createSpy('jasmineFn');
+
+            createParameterizedRunner(mockJasmineFn)('$label', () => {}).where([
+                {label: 'abcdef'}
+            ], { quoteStrings: false, maxValueLength: 5 });
+
+            expect(mockJasmineFn.calls.argsFor(0)[0]).toBe('abcd…');
+        });
+    });
+
+    // ===========================================
+    // FORMAT SPECIFIERS
+    // ===========================================
+
+    describe('format specifiers', () => {
+        afterEach(() => {
+            resetParameterizedTestsConfig();
+        });
+
+        it('should format placeholders with specifiers in registered names', () => {
+            const mockJasmineFn = jasmine.createSpy('jasmineFn');
+
+            createParameterizedRunner(mockJasmineFn)('$index:0>2 $item:<6| $price:fixed2:>7', () => {}).where([
+                {item: 'tea', price: 2.5},
+                {item: 'coffee', price: 12}
+            ]);
+
+            expect(mockJasmineFn.calls.allArgs().map(args => args[0])).toEqual([
+                '00 tea   |    2.50',
+                '01 coffee|   12.00'
+            ]);
+        });
+
+        it('should use specifiers given to .where() and globally', () => {
+            configureParameterizedTests({ specifiers: { percent: (v) => `${Number(v) * 100}%`, tag: () => 'global' } });
+            const mockJasmineFn = jasmine.createSpy('jasmineFn');
+
+            createParameterizedRunner(mockJasmineFn)('$rate:percent $rate:tag', () => {}).where([
+                {rate: 0.5}
+            ], { specifiers: { tag: () => 'where' } });
+
+            expect(mockJasmineFn.calls.argsFor(0)[0]).toBe('50% where');
+        });
+
+        it('should throw for unknown specifiers before registering any case', () => {
+            const mockJasmineFn = jasmine.createSpy('jasmineFn');
+
+            expect(() => {
+                createParameterizedRunner(mockJasmineFn)('costs ${price:fixd2}', () => {}).where([
+                    {price: 1}
+                ]);
+            }).toThrowError(/Unknown format specifier ':fixd2' in placeholder "\$\{price:fixd2\}"[\s\S]*Did you mean ':fixed'/);
+            expect(mockJasmineFn).not.toHaveBeenCalled();
+        });
+
+        it('should register names with unknown specifiers outside braces as written', () => {
+            const mockJasmineFn = jasmine.createSpy('jasmineFn');
+
+            createParameterizedRunner(mockJasmineFn)('status $name:passed', () => {}).where([
+                {name: 'x'}
+            ]);
+
+            expect(mockJasmineFn.calls.argsFor(0)[0]).toBe('status x:passed');
+        });
+
+        it('should check the placeholder path before the specifiers at compile time', () => {
+            const runner = createParameterizedRunner(jasmine.createSpy('jasmineFn'));
+
+            runner('$price:fixed2 $index:0>3', (tc: { price: number }) => {});
+
+            // @ts-expect-error - 'prize' is not a key of the case
+            runner('$prize:fixed2', (tc: { price: number }) => {});
+
+            expect(true).toBe(true);
+        });
+    });
+
+    // ===========================================
+    // DUPLICATE NAMES
+    // ===========================================
+
+    describe('duplicate names', () => {
+        // Mimics the metadata Jasmine's it() returns, registering under the given parent
+        const createJasmineFn = (parent: string) => jasmine.createSpy('jasmineFn').and.callFake((name: string) => ({
+            description: name,
+            getFullName: () => `${parent} ${name}`
+        }));
+
+        afterEach(() => {
+            resetParameterizedTestsConfig();
+        });
+
+        it('should suffix later cases rendering the same name', () => {
+            const mockJasmineFn = jasmine.createSpy('jasmineFn');
+
+            createParameterizedRunner(mockJasmineFn)('adds $a', () => {}).where([
+                {a: 1, b: 1},
+                {a: 1, b: 2},
+                {a: 2, b: 1}
+            ]);
+
+            expect(mockJasmineFn.calls.allArgs().map(args => args[0])).toEqual(['adds 1', 'adds 1 [case 1]', 'adds 2']);
+        });
+
+        it('should suffix before appending skip reasons', () => {
+            const mockJasmineFn = jasmine.createSpy('jasmineFn');
+            const variants = { focus: jasmine.createSpy('focus'), skip: jasmine.createSpy('skip'), supportsPending: true };
+
+            createParameterizedRunner(mockJasmineFn, variants)('adds $a', () => {}).where([
+                {a: 1, b: 1},
+                {a: 1, b: 2, _skip: 'flaky'}
+            ]);
+
+            expect(variants.skip.calls.argsFor(0)[0]).toBe('adds 1 [case 1] (skipped: flaky)');
+        });
+
+        it('should reject duplicates in strict mode before registering any case', () => {
+            const mockJasmineFn = jasmine.createSpy('jasmineFn');
+
+            expect(() => {
+                createParameterizedRunner(mockJasmineFn)('adds $a', () => {}).where([
+                    {a: 1, b: 1},
+                    {a: 1, b: 2}
+                ], { strict: true });
+            }).toThrowError(/Duplicate test name for template "adds \$a":\n  - "adds 1" \(cases 0, 1\)/);
+            expect(mockJasmineFn).not.toHaveBeenCalled();
+        });
+
+        it('should let duplicateNames override the strict default', () => {
+            const mockJasmineFn = jasmine.createSpy('jasmineFn');
+            const runner = createParameterizedRunner(mockJasmineFn)('adds $a', () => {});
+
+            runner.where([{a: 1, b: 1}, {a: 1, b: 2}], { strict: true, duplicateNames: 'suffix' });
+            expect(mockJasmineFn.calls.mostRecent().args[0]).toBe('adds 1 [case 1]');
+
+            expect(() => runner.where([{a: 1, b: 1}, {a: 1, b: 2}], { duplicateNames: 'error' })).toThrowError(/Duplicate test name/);
+        });
+
+        it('should only collide long values sharing a prefix when maxValueLength cuts them', () => {
+            const mockJasmineFn = jasmine.createSpy('jasmineFn');
+            const runner = createParameterizedRunner(mockJasmineFn)('parses $text', () => {});
+            const prefix = 'x'.repeat(80);
+            const cases = [{text: `${prefix}a`}, {text: `${prefix}b`}];
+
+            runner.where(cases);
+            expect(mockJasmineFn.calls.allArgs().map(args => args[0])).toEqual([`parses ${prefix}a`, `parses ${prefix}b`]);
+
+            mockJasmineFn.calls.reset();
+            runner.where(cases, { maxValueLength: 80 });
+            expect(mockJasmineFn.calls.allArgs().map(args => args[0])).toEqual([
+                `parses ${'x'.repeat(79)}…`,
+                `parses ${'x'.repeat(79)}… [case 1]`
+            ]);
+
+            expect(() => runner.where(cases, { maxValueLength: 80, duplicateNames: 'error' })).toThrowError(/Duplicate test name/);
+        });
+
+        it('should only compare names within one call by default', () => {
+            const mockJasmineFn = createJasmineFn('default scope');
+            const runner = createParameterizedRunner(mockJasmineFn)('adds $a', () => {});
+
+            runner.where([{a: 1}]);
+            runner.where([{a: 1}]);
+
+            expect(mockJasmineFn.calls.allArgs().map(args => args[0])).toEqual(['adds 1', 'adds 1']);
+        });
+
+        it('should report names repeated across calls under the same parent when configured', () => {
+            configureParameterizedTests({ uniqueNamesPerSuite: true });
+            const warn = spyOn(console, 'warn');
+            const mockJasmineFn = createJasmineFn('suite scope');
+            const runner = createParameterizedRunner(mockJasmineFn)('adds $a', () => {});
+
+            runner.where([{a: 1}, {a: 2}]);
+            runner.where([{a: 2}, {a: 3}]);
+
+            expect(mockJasmineFn.calls.allArgs().map(args => args[0])).toEqual(['adds 1', 'adds 2', 'adds 2', 'adds 3']);
+            expect(warn).toHaveBeenCalledOnceWith(
+                'Duplicate test name "adds 2" for template "adds $a": also registered by an earlier .where() in "suite scope"'
+            );
+            expect(() => runner.where([{a: 3}], { strict: true })).toThrowError(
+                'Duplicate test name "adds 3" for template "adds $a": also registered by an earlier .where() in "suite scope"'
+            );
+        });
+
+        it('should not compare names across sibling describes', () => {
+            configureParameterizedTests({ uniqueNamesPerSuite: true });
+            const warn = spyOn(console, 'warn');
+            const inA = createJasmineFn('A');
+            const inB = createJasmineFn('B');
+
+            createParameterizedRunner(inA)('handles $x', () => {}).where([{x: 1}]);
+            createParameterizedRunner(inB)('handles $x', () => {}).where([{x: 1}], { strict: true });
+            createParameterizedRunner(createJasmineFn('A inner'))('handles $x', () => {}).where([{x: 1}], { strict: true });
+
+            expect(inB).toHaveBeenCalledOnceWith('handles 1', jasmine.any(Function), undefined);
+            expect(warn).not.toHaveBeenCalled();
+        });
+
+        it('should compare the names as registered, including their suffixes', () => {
+            configureParameterizedTests({ uniqueNamesPerSuite: true });
+            const warn = spyOn(console, 'warn');
+            const mockJasmineFn = createJasmineFn('registered names');
+
+            createParameterizedRunner(mockJasmineFn)('adds $a', () => {}).where([{a: 1, b: 1}, {a: 1, b: 2}]);
+            createParameterizedRunner(mockJasmineFn)('$name', () => {}).where([{name: 'adds 1 [case 1]'}]);
+
+            expect(warn).toHaveBeenCalledOnceWith(
+                'Duplicate test name "adds 1 [case 1]" for template "$name": also registered by an earlier .where() in "registered names"'
+            );
+        });
+    });
+
+    // ===========================================
+    // NAME FUNCTIONS
+    // ===========================================
+
+    describe('name functions', () => {
+        it('should name each case with the function result', () => {
+            const mockJasmineFn = jasmine.createSpy('jasmineFn');
+            const name = jasmine.createSpy('name').and.callFake((tc: any, index: number) =>
+                `${index}: ${tc.count} ${tc.count === 1 ? 'item' : 'items'}`
+            );
+
+            createParameterizedRunner(mockJasmineFn)(name, () => {}).where([
+                ['count'],
+                [1],
+                [3]
+            ]);
+
+            expect(name.calls.allArgs()).toEqual([[{count: 1}, 0, jasmine.any(Object)], [{count: 3}, 1, jasmine.any(Object)]]);
+            expect(mockJasmineFn.calls.allArgs().map(args => args[0])).toEqual(['0: 1 item', '1: 3 items']);
+        });
+
+        it('should type the case from the test callback', () => {
+            const mockJasmineFn = jasmine.createSpy('jasmineFn');
+
+            createParameterizedRunner(mockJasmineFn)((tc) => `adds ${tc.a.toFixed(1)}`, (tc: { a: number }) => {
+                expect(tc.a).toBeDefined();
+            }).where([{a: 1}]);
+
+            // @ts-expect-error - 'b' is not a property of the case type
+            createParameterizedRunner(mockJasmineFn)((tc) => `adds ${tc.b}`, (tc: { a: number }) => {
+                expect(tc.a).toBeDefined();
+            });
+
+            expect(mockJasmineFn.calls.argsFor(0)[0]).toBe('adds 1.0');
+        });
+
+        it('should suffix or reject duplicate names', () => {
+            const mockJasmineFn = jasmine.createSpy('jasmineFn');
+            const runner = createParameterizedRunner(mockJasmineFn)(function byParity(tc: any) {
+                return tc.n % 2 === 0 ? 'even' : 'odd';
+            }, () => {});
+
+            runner.where([{n: 1}, {n: 2}, {n: 3}]);
+            expect(mockJasmineFn.calls.allArgs().map(args => args[0])).toEqual(['odd', 'even', 'odd [case 2]']);
+
+            expect(() => runner.where([{n: 1}, {n: 3}], { duplicateNames: 'error' })).toThrowError(
+                /^Duplicate test name for template "\[Function byParity\]":\n  - "odd" \(cases 0, 1\)/
+            );
+        });
+
+        it('should keep skip reasons and apply them after the name', () => {
+            const mockJasmineFn = jasmine.createSpy('jasmineFn');
+            const variants = { focus: jasmine.createSpy('focus'), skip: jasmine.createSpy('skip'), supportsPending: true };
+
+            createParameterizedRunner(mockJasmineFn, variants)((tc: any) => `parses ${tc.input}`, () => {}).where([
+                {input: '1e3', _skip: 'not supported'}
+            ]);
+
+            expect(variants.skip.calls.argsFor(0)[0]).toBe('parses 1e3 (skipped: not supported)');
+        });
+
+        it('should fail before registering any case when the function fails', () => {
+            const mockJasmineFn = jasmine.createSpy('jasmineFn');
+
+            expect(() => {
+                createParameterizedRunner(mockJasmineFn)((tc: any) => tc.label, () => {}).where([
+                    {label: 'first'},
+                    {label: ''}
+                ]);
+            }).toThrowError(/must return a non-empty string for test case 1, received: \(empty string\)/);
+            expect(mockJasmineFn).not.toHaveBeenCalled();
+        });
+
+        it('should report the function in data errors', () => {
+            const mockJasmineFn = jasmine.createSpy('jasmineFn');
+            const runner = createParameterizedRunner(mockJasmineFn)(function describeOrder() { return 'order'; }, () => {});
+
+            expect(() => runner.where({a: 1} as any)).toThrowError(
+                /Test cases must be an array for template "\[Function describeOrder\]", received: object/
+            );
+        });
+
+        it('should not warn about unused columns', () => {
+            const warn = spyOn(console, 'warn');
+
+            createParameterizedRunner(jasmine.createSpy('jasmineFn'))((tc: any) => `case ${tc.a}`, () => {}).where([
+                {a: 1, b: 1},
+                {a: 2, b: 2}
+            ], { warnUnusedColumns: true });
+
+            expect(warn).not.toHaveBeenCalled();
+        });
+
+        it('should work with whereCombinations', () => {
+            const mockJasmineFn = jasmine.createSpy('jasmineFn');
+
+            createParameterizedRunner(mockJasmineFn)((tc: any) => `${tc.x}${tc.y}`, () => {}).whereCombinations({
+                x: ['a', 'b'],
+                y: [1, 2]
+            });
+
+            expect(mockJasmineFn.calls.allArgs().map(args => args[0])).toEqual(['a1', 'a2', 'b1', 'b2']);
+        });
+    });
+
+    // ===========================================
+    // PER-CASE _NAME AND _DESCRIPTION
+    // ===========================================
+
+    describe('per-case _name and _description', () => {
+        it('should replace the template output with _name', () => {
+            const mockJasmineFn = jasmine.createSpy('jasmineFn');
+
+            createParameterizedRunner(mockJasmineFn)('totals $items items', () => {}).where([
+                {items: 1},
+                {items: 0, _name: 'regression for #4412: empty basket with coupon'}
+            ]);
+
+            expect(mockJasmineFn.calls.allArgs().map(args => args[0])).toEqual([
+                'totals 1 items',
+                'regression for #4412: empty basket with coupon'
+            ]);
+        });
+
+        it('should append _description to the name', () => {
+            const mockJasmineFn = jasmine.createSpy('jasmineFn');
+
+            createParameterizedRunner(mockJasmineFn)('totals $items items', () => {}).where([
+                {items: 2, _description: 'bulk discount'},
+                {items: 3, _name: 'custom', _description: 'details'}
+            ]);
+
+            expect(mockJasmineFn.calls.allArgs().map(args => args[0])).toEqual(['totals 2 items - bulk discount', 'custom - details']);
+        });
+
+        it('should leave empty table cells to the template', () => {
+            const mockJasmineFn = jasmine.createSpy('jasmineFn');
+
+            createParameterizedRunner(mockJasmineFn)('case $a', () => {}).where([
+                ['a', '_name', '_description'],
+                [1, '', null],
+                [2, 'second', undefined],
+                [3, undefined, 'third']
+            ]);
+
+            expect(mockJasmineFn.calls.allArgs().map(args => args[0])).toEqual(['case 1', 'second', 'case 3 - third']);
+        });
+
+        it('should keep the reserved keys on the case passed to the test', () => {
+            const mockJasmineFn = jasmine.createSpy('jasmineFn');
+            const testFn = jasmine.createSpy('testFn');
+
+            createParameterizedRunner(mockJasmineFn)('case $a', testFn).where([{a: 1, _name: 'one'}]);
+            mockJasmineFn.calls.argsFor(0)[1]();
+
+            expect(testFn).toHaveBeenCalledWith({a: 1, _name: 'one'});
+        });
+
+        it('should not format the template for cases with _name', () => {
+            const mockJasmineFn = jasmine.createSpy('jasmineFn');
+
+            createParameterizedRunner(mockJasmineFn)('case $missing', () => {}).where([
+                {a: 1, _name: 'hand-written'}
+            ], { strict: true });
+
+            expect(mockJasmineFn.calls.argsFor(0)[0]).toBe('hand-written');
+        });
+
+        it('should override names from name functions', () => {
+            const mockJasmineFn = jasmine.createSpy('jasmineFn');
+
+            createParameterizedRunner(mockJasmineFn)((tc: any) => `case ${tc.a}`, () => {}).where([
+                {a: 1, _name: 'first'},
+                {a: 2, _description: 'second'}
+            ]);
+
+            expect(mockJasmineFn.calls.allArgs().map(args => args[0])).toEqual(['first', 'case 2 - second']);
+        });
+
+        it('should apply skip reasons and duplicate suffixes after the name', () => {
+            const mockJasmineFn = jasmine.createSpy('jasmineFn');
+            const variants = { focus: jasmine.createSpy('focus'), skip: jasmine.createSpy('skip'), supportsPending: true };
+
+            createParameterizedRunner(mockJasmineFn, variants)('case $a', () => {}).where([
+                {a: 1, _name: 'same'},
+                {a: 2, _name: 'same', _skip: 'flaky'}
+            ]);
+
+            expect(mockJasmineFn.calls.argsFor(0)[0]).toBe('same');
+            expect(variants.skip.calls.argsFor(0)[0]).toBe('same [case 1] (skipped: flaky)');
+        });
+
+        it('should reject non-string values before registering any case', () => {
+            const mockJasmineFn = jasmine.createSpy('jasmineFn');
+            const runner = createParameterizedRunner(mockJasmineFn)('case $a', () => {});
+
+            expect(() => runner.where([{a: 1}, {a: 2, _name: 42 as any}])).toThrowError(
+                /^Test case 1 for template "case \$a" has invalid '_name' - expected a string, received: number$/
+            );
+            expect(() => runner.where([{a: 1, _description: true as any}])).toThrowError(
+                /has invalid '_description' - expected a string, received: boolean/
+            );
+            expect(mockJasmineFn).not.toHaveBeenCalled();
+        });
+
+        it('should type _name and _description on typed rows', () => {
+            const mockJasmineFn = jasmine.createSpy('jasmineFn');
+            const runner = createParameterizedRunner(mockJasmineFn)('case $a', (tc: { a: number }) => {
+                expect(tc.a).toBeDefined();
+            });
+
+            runner.where([{a: 1, _name: 'one', _description: 'first'}]);
+            runner.where([
+                ['a', '_name'],
+                [2, 'two']
+            ]);
+
+            // @ts-expect-error - _name must be a string
+            expect(() => runner.where([{a: 3, _name: 3}])).toThrowError(/invalid '_name'/);
+
+            expect(mockJasmineFn.calls.allArgs().map(args => args[0])).toEqual(['one - first', 'two']);
+        });
+    });
+
+    // ===========================================
+    // OPTIONAL KEYS AND DEFAULTS
+    // ===========================================
+
+    describe('optional keys and defaults', () => {
+        it('should accept rows without declared optional keys', () => {
+            const mockJasmineFn = jasmine.createSpy('jasmineFn');
+            const testFn = jasmine.createSpy('testFn');
+
+            createParameterizedRunner(mockJasmineFn)('loads $id', testFn).where([
+                {id: 1},
+                {id: 2, mockResponse: {status: 500}}
+            ], { optional: ['mockResponse'] });
+
+            mockJasmineFn.calls.allArgs().forEach(args => args[1]());
+            expect(testFn.calls.allArgs()).toEqual([[{id: 1}], [{id: 2, mockResponse: {status: 500}}]]);
+        });
+
+        it('should still reject undeclared keys', () => {
+            const mockJasmineFn = jasmine.createSpy('jasmineFn');
+
+            expect(() => {
+                createParameterizedRunner(mockJasmineFn)('loads $id', () => {}).where([
+                    {id: 1},
+                    {id: 2, mockResponce: {status: 500}}
+                ], { optional: ['mockResponse'] });
+            }).toThrowError(/unexpected: 'mockResponce'[\s\S]*Did you mean optional key 'mockResponse' instead of 'mockResponce'/);
+            expect(mockJasmineFn).not.toHaveBeenCalled();
+        });
+
+        it('should fill absent keys from defaults before naming and running', () => {
+            const mockJasmineFn = jasmine.createSpy('jasmineFn');
+            const testFn = jasmine.createSpy('testFn');
+
+            createParameterizedRunner(mockJasmineFn)('loads $id with status $status', testFn).where([
+                {id: 1},
+                {id: 2, status: 500}
+            ], { defaults: { status: 200 } });
+
+            expect(mockJasmineFn.calls.allArgs().map(args => args[0])).toEqual([
+                'loads 1 with status 200',
+                'loads 2 with status 500'
+            ]);
+            mockJasmineFn.calls.allArgs().forEach(args => args[1]());
+            expect(testFn.calls.allArgs()).toEqual([[{id: 1, status: 200}], [{id: 2, status: 500}]]);
+        });
+
+        it('should keep keys a row sets explicitly, even to undefined', () => {
+            const mockJasmineFn = jasmine.createSpy('jasmineFn');
+            const testFn = jasmine.createSpy('testFn');
+
+            createParameterizedRunner(mockJasmineFn)('case $id', testFn).where([
+                {id: 1, warning: undefined}
+            ], { defaults: { warning: 'deprecated' } });
+
+            mockJasmineFn.calls.argsFor(0)[1]();
+            expect(testFn).toHaveBeenCalledWith({id: 1, warning: undefined});
+        });
+
+        it('should fill defaults in table format', () => {
+            const mockJasmineFn = jasmine.createSpy('jasmineFn');
+
+            createParameterizedRunner(mockJasmineFn)('$a in $locale', () => {}).where([
+                ['a'],
+                [1],
+                [2]
+            ], { defaults: { locale: 'en' } });
+
+            expect(mockJasmineFn.calls.allArgs().map(args => args[0])).toEqual(['1 in en', '2 in en']);
+        });
+
+        it('should not mutate the rows', () => {
+            const rows = [{id: 1}];
+
+            createParameterizedRunner(jasmine.createSpy('jasmineFn'))('case $id', () => {}).where(rows, { defaults: { status: 200 } });
+
+            expect(rows).toEqual([{id: 1}]);
+        });
+    });
+
+    // ===========================================
+    // AGGREGATE VALIDATION
+    // ===========================================
+
+    describe('aggregate validation', () => {
+        afterEach(() => {
+            resetParameterizedTestsConfig();
+        });
+
+        it('should stop at the first inconsistent row by default', () => {
+            const mockJasmineFn = jasmine.createSpy('jasmineFn');
+
+            expect(() => {
+                createParameterizedRunner(mockJasmineFn)('adds $a', () => {}).where([
+                    {a: 1, b: 2},
+                    {a: 3},
+                    {a: 4, c: 5}
+                ]);
+            }).toThrowError(/^Inconsistent test data in "adds \$a":\n  Test case 1 has missing: 'b'\n/);
+        });
+
+        it('should report every inconsistent row in one error', () => {
+            const mockJasmineFn = jasmine.createSpy('jasmineFn');
+
+            expect(() => {
+                createParameterizedRunner(mockJasmineFn)('adds $a', () => {}).where([
+                    {a: 1, total: 2},
+                    {a: 3},
+                    {a: 4, total: 5},
+                    {a: 6, totl: 7}
+                ], { validation: 'report' });
+            }).toThrowError(
+                'Invalid test data in "adds $a" (2 of 4 cases):\n' +
+                "  - case 1: missing: 'total' (💡 Add property 'total' to this test case)\n" +
+                "  - case 3: missing: 'total'; unexpected: 'totl' (💡 Did you mean 'total' instead of 'totl'?)"
+            );
+            expect(mockJasmineFn).not.toHaveBeenCalled();
+        });
+
+        it('should report every table row with the wrong length', () => {
+            const mockJasmineFn = jasmine.createSpy('jasmineFn');
+
+            expect(() => {
+                createParameterizedRunner(mockJasmineFn)('adds $a', () => {}).where([
+                    ['a', 'b'],
+                    [1],
+                    [2, 3],
+                    [4, 5, 6]
+                ], { validation: 'report' });
+            }).toThrowError(
+                'Invalid test data in "adds $a" (2 of 3 cases):\n' +
+                '  - case 0: has 1 values but expected 2 (matching headers count)\n' +
+                '  - case 2: has 3 values but expected 2 (matching headers count)'
+            );
+        });
+
+        it('should respect optional keys and the global configuration', () => {
+            configureParameterizedTests({ validation: 'report' });
+            const mockJasmineFn = jasmine.createSpy('jasmineFn');
+            const runner = createParameterizedRunner(mockJasmineFn)('adds $a', () => {});
+
+            expect(() => runner.where([{a: 1}, {a: 2, mock: 1}, {a: 3, extra: 1}], { optional: ['mock'] })).toThrowError(
+                /^Invalid test data in "adds \$a" \(1 of 3 cases\):\n  - case 2: unexpected: 'extra'/
+            );
+            expect(() => runner.where([{a: 1}, {a: 2, extra: 1}], { validation: 'fail-fast' })).toThrowError(
+                /^Inconsistent test data/
+            );
+
+            runner.where([{a: 1}, {a: 2}]);
+            expect(mockJasmineFn).toHaveBeenCalledTimes(2);
+        });
+    });
+
+    // ===========================================
+    // COLUMN TYPE CHECKS
+    // ===========================================
+
+    describe('column type checks', () => {
+        afterEach(() => {
+            resetParameterizedTestsConfig();
+        });
+
+        it('should not check column types by default', () => {
+            const mockJasmineFn = jasmine.createSpy('jasmineFn');
+
+            createParameterizedRunner(mockJasmineFn)('adds $a', () => {}).where([{a: 1}, {a: '2'}]);
+
+            expect(mockJasmineFn).toHaveBeenCalledTimes(2);
+        });
+
+        it('should reject drifting table columns before registering any case', () => {
+            const mockJasmineFn = jasmine.createSpy('jasmineFn');
+
+            expect(() => {
+                createParameterizedRunner(mockJasmineFn)('$a + $b = $expected', () => {}).where([
+                    ['a', 'b', 'expected'],
+                    [1, 2, 3],
+                    [2, 3, '5'],
+                    [3, 4, 7]
+                ], { checkColumnTypes: true });
+            }).toThrowError(/^Inconsistent column types in "\$a \+ \$b = \$expected":\n  Test case 1: 'expected' is a string \("5"\), but a number in 2 other cases\n  💡 Did you mean 5\?/);
+            expect(mockJasmineFn).not.toHaveBeenCalled();
+        });
+
+        it('should accept mixed columns and nullish values as configured', () => {
+            configureParameterizedTests({ checkColumnTypes: true, nullishMatchesAnyType: false });
+            const mockJasmineFn = jasmine.createSpy('jasmineFn');
+            const runner = createParameterizedRunner(mockJasmineFn)('parses $input', () => {});
+
+            runner.where([{input: '1', expected: 1}, {input: 'x', expected: new Error('NaN')}], { mixedColumns: ['expected'] });
+            expect(() => runner.where([{input: '1', expected: 1}, {input: 'x', expected: null}])).toThrowError(/'expected' is null/);
+            runner.where([{input: '1', expected: 1}, {input: 'x', expected: null}], { nullishMatchesAnyType: true });
+
+            expect(mockJasmineFn).toHaveBeenCalledTimes(4);
+        });
+
+        it('should list drifting cases with key problems in report mode', () => {
+            const mockJasmineFn = jasmine.createSpy('jasmineFn');
+
+            expect(() => {
+                createParameterizedRunner(mockJasmineFn)('adds $a', () => {}).where([
+                    {a: 1, total: 2},
+                    {a: '2', total: 3},
+                    {a: 3}
+                ], { checkColumnTypes: true, validation: 'report' });
+            }).toThrowError(
+                'Invalid test data in "adds $a" (2 of 3 cases):\n' +
+                `  - case 1: 'a' is a string ("2"), but a number in 2 other cases (💡 Did you mean 2?)\n` +
+                "  - case 2: missing: 'total' (💡 Add property 'total' to this test case)"
+            );
+        });
+    });
+
+    // ===========================================
+    // SCHEMA VALIDATION
+    // ===========================================
+
+    describe('schema validation', () => {
+        const schema = {
+            quantity: { type: 'integer', min: 1 },
+            status: { oneOf: ['open', 'paid'] }
+        } as const;
+
+        it('should register cases matching the schema', () => {
+            const mockJasmineFn = jasmine.createSpy('jasmineFn');
+
+            createParameterizedRunner(mockJasmineFn)('orders $quantity', () => {}).where([
+                ['quantity', 'status'],
+                [1, 'open'],
+                [2, 'paid']
+            ], { schema });
+
+            expect(mockJasmineFn).toHaveBeenCalledTimes(2);
+        });
+
+        it('should reject a violation before registering any case', () => {
+            const mockJasmineFn = jasmine.createSpy('jasmineFn');
+
+            expect(() => {
+                createParameterizedRunner(mockJasmineFn)('orders $quantity', () => {}).where([
+                    ['quantity', 'status'],
+                    [1, 'open'],
+                    [0, 'paid']
+                ], { schema });
+            }).toThrowError(/^Schema violation in "orders \$quantity":\n  Test case 1: column 'quantity' is 0: expected at least 1$/);
+            expect(mockJasmineFn).not.toHaveBeenCalled();
+        });
+
+        it('should check cases after the consistency check and with defaults filled in', () => {
+            const mockJasmineFn = jasmine.createSpy('jasmineFn');
+            const runner = createParameterizedRunner(mockJasmineFn)('orders $quantity', () => {});
+
+            expect(() => runner.where([{quantity: 1, status: 'open'}, {quantity: 2}], { schema })).toThrowError(/^Inconsistent test data/);
+            expect(() => runner.where([{quantity: 1}], { schema, defaults: { status: 'closed' } })).toThrowError(
+                /column 'status' is "closed": expected one of "open", "paid"/
+            );
+        });
+
+        it('should list violations with other problems in report mode', () => {
+            const mockJasmineFn = jasmine.createSpy('jasmineFn');
+
+            expect(() => {
+                createParameterizedRunner(mockJasmineFn)('orders $quantity', () => {}).where([
+                    {quantity: 1.5, status: 'open'},
+                    {quantity: 2, status: 'pad'},
+                    {quantity: 3}
+                ], { schema, validation: 'report' });
+            }).toThrowError(
+                'Invalid test data in "orders $quantity" (3 of 3 cases):\n' +
+                "  - case 0: column 'quantity' is 1.5: expected an integer\n" +
+                `  - case 1: column 'status' is "pad": expected one of "open", "paid" (💡 Did you mean "paid"?)\n` +
+                "  - case 2: missing: 'status' (💡 Add property 'status' to this test case)\n" +
+                "  - case 2: column 'status' is missing"
+            );
+        });
+    });
+
+    // ===========================================
+    // DUPLICATE ROWS
+    // ===========================================
+
+    describe('duplicate rows', () => {
+        afterEach(() => {
+            resetParameterizedTestsConfig();
+        });
+
+        it('should warn about repeated cases by default and still register them', () => {
+            const mockJasmineFn = jasmine.createSpy('jasmineFn');
+            const warn = spyOn(console, 'warn');
+
+            createParameterizedRunner(mockJasmineFn)('adds $a and $b', () => {}).where([
+                ['a', 'b'],
+                [1, 2],
+                [2, 3],
+                [1, 2]
+            ]);
+
+            expect(warn).toHaveBeenCalledOnceWith(
+                'Test cases for template "adds $a and $b" repeat earlier cases: case 2 has the same data as case 0 ' +
+                '- a copy-paste edit may have missed a value'
+            );
+            expect(mockJasmineFn).toHaveBeenCalledTimes(3);
+        });
+
+        it('should reject repeated cases before registering any with duplicateRows: error', () => {
+            const mockJasmineFn = jasmine.createSpy('jasmineFn');
+
+            expect(() => {
+                createParameterizedRunner(mockJasmineFn)('adds $a', () => {}).where([
+                    {a: 1, b: [1]},
+                    {a: 1, b: [1]},
+                    {a: 2, b: [1]},
+                    {a: 2, b: [1]}
+                ], { duplicateRows: 'error' });
+            }).toThrowError(
+                'Duplicate test cases for template "adds $a":\n' +
+                '  - case 1 has the same data as case 0\n' +
+                '  - case 3 has the same data as case 2\n\n' +
+                "Change the value a copy-paste edit missed, remove the repeated cases, or set duplicateRows: 'warn' or 'off'."
+            );
+            expect(mockJasmineFn).not.toHaveBeenCalled();
+        });
+
+        it('should ignore repeated cases with duplicateRows: off', () => {
+            configureParameterizedTests({ duplicateRows: 'error' });
+            const warn = spyOn(console, 'warn');
+            const mockJasmineFn = jasmine.createSpy('jasmineFn');
+
+            createParameterizedRunner(mockJasmineFn)('case $index', () => {}).where([{a: 1}, {a: 1}], { duplicateRows: 'off' });
+
+            expect(warn).not.toHaveBeenCalled();
+            expect(mockJasmineFn).toHaveBeenCalledTimes(2);
+        });
+
+        it('should compare cases with defaults filled in', () => {
+            const warn = spyOn(console, 'warn');
+
+            createParameterizedRunner(jasmine.createSpy('jasmineFn'))('case $index', () => {}).where([
+                {a: 1, locale: 'en'},
+                {a: 1}
+            ], { defaults: { locale: 'en' } });
+
+            expect(warn).toHaveBeenCalledTimes(1);
+        });
+
+        it('should list repeated cases in report mode', () => {
+            expect(() => {
+                createParameterizedRunner(jasmine.createSpy('jasmineFn'))('adds $a', () => {}).where([
+                    {a: 1},
+                    {a: 1},
+                    {a: 2, extra: true}
+                ], { duplicateRows: 'error', validation: 'report' });
+            }).toThrowError(
+                'Invalid test data in "adds $a" (2 of 3 cases):\n' +
+                '  - case 1: same data as case 0\n' +
+                "  - case 2: unexpected: 'extra' (💡 Remove property 'extra' from this test case)"
+            );
+        });
+
+        it('should not report repeated generated cases of property runners', () => {
+            const warn = spyOn(console, 'warn');
+
+            createPropertyRunner(jasmine.createSpy('jasmineFn'))('$flag', () => true).forAll({ flag: arb.boolean() }, { runs: 10 });
+
+            expect(warn).not.toHaveBeenCalled();
+        });
+    });
+
+    // ===========================================
+    // DONE CALLBACK
+    // ===========================================
+
+    describe('done callback', () => {
+        it('should register callback-style tests with a done parameter and forward Jasmine\'s done', () => {
+            const mockJasmineFn = jasmine.createSpy('jasmineFn');
+            const received: unknown[] = [];
+
+            createParameterizedRunner<TestFunction>(mockJasmineFn)('test $value', (testCase, done) => {
+                received.push(testCase, done);
+                done.fail('failed');
+            }).where([{value: 1}]);
+
+            const body = mockJasmineFn.calls.argsFor(0)[1];
+            const done = Object.assign(jasmine.createSpy('done'), { fail: jasmine.createSpy('fail') });
+            expect(body.length).toBe(1);
+
+            body.call({}, done);
+            expect(received[0]).toEqual({value: 1});
+            expect(done.fail).toHaveBeenCalledOnceWith('failed');
+
+            (received[1] as DoneCallback)();
+            expect(done).toHaveBeenCalledTimes(1);
+        });
+
+        it('should keep bodies without a done parameter synchronous for Jasmine', () => {
+            const mockJasmineFn = jasmine.createSpy('jasmineFn');
+
+            createParameterizedRunner<TestFunction>(mockJasmineFn)('test $value', (testCase) => {}).where([{value: 1}]);
+            createParameterizedRunner<TestFunction>(mockJasmineFn)('async $value', async () => {}).where([{value: 1}]);
+
+            expect(mockJasmineFn.calls.allArgs().map(args => args[1].length)).toEqual([0, 0]);
+        });
+
+        it('should fail callback-style tests that also return a promise through done.fail only', async () => {
+            const mockJasmineFn = jasmine.createSpy('jasmineFn');
+            let finishLater: Promise<void> = Promise.resolve();
+
+            createParameterizedRunner<TestFunction>(mockJasmineFn)('test $value', async (testCase, done) => {
+                if (testCase['value'] === 1) {
+                    done();
+                    return;
+                }
+                finishLater = Promise.resolve().then(() => done());
+                await finishLater;
+            }).where([{value: 1}, {value: 2}]);
+
+            for (const index of [0, 1]) {
+                const done = Object.assign(jasmine.createSpy('done'), { fail: jasmine.createSpy('fail') });
+
+                expect(mockJasmineFn.calls.argsFor(index)[1].call({}, done)).toBeUndefined();
+                await finishLater;
+
+                expect(done).not.toHaveBeenCalled();
+                expect(done.fail).toHaveBeenCalledOnceWith(new Error(
+                    `Test function for template "test $value" takes a done callback but returned a promise for test case ${index} - ` +
+                    'use either done or async/await, not both'
+                ));
+            }
+        });
+
+        it('should only accept done callbacks in tests', () => {
+            const runner = createParameterizedRunner<DescribeFunction>(jasmine.createSpy('jasmineFn'));
+
+            // @ts-expect-error - suites have no done callback
+            runner('suite $value', (testCase, done) => {}).where([{value: 1}]);
+            runner('suite $value', (testCase) => {}).where([{value: 2}]);
+        });
+    });
 });
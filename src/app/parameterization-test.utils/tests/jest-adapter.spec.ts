@@ -0,0 +1,129 @@
+/**
+ * Unit Tests for the Jest Adapter
+ *
+ * Jest is not installed in this workspace, so these tests drive the runners of
+ * createParameterizedTests(jestAdapter(...)) through a stand-in with the shape of Jest's
+ * `it`/`describe` (spies for the functions and their `only`/`skip`/`todo` modifiers).
+ * They verify which Jest function each case is registered with, the arguments it receives,
+ * and that the registered bodies run the callback with the case.
+ *
+ * These are not integration tests: Jest itself never runs them.
+ */
+
+import { createParameterizedTests, jestAdapter } from '../parameterization-test.core';
+
+describe('Jest adapter', () => {
+    const createJestApi = () => ({
+        it: Object.assign(jasmine.createSpy('it'), {
+            only: jasmine.createSpy('it.only'),
+            skip: jasmine.createSpy('it.skip'),
+            todo: jasmine.createSpy('it.todo')
+        }),
+        describe: Object.assign(jasmine.createSpy('describe'), {
+            only: jasmine.createSpy('describe.only'),
+            skip: jasmine.createSpy('describe.skip')
+        })
+    });
+
+    it('should register one it() per case and run the callback with the case', () => {
+        const api = createJestApi();
+        const testFn = jasmine.createSpy('testFn');
+        const { iit } = createParameterizedTests(jestAdapter(api));
+
+        iit('adds $a and $b', testFn).where([
+            ['a', 'b'],
+            [1, 2],
+            [3, 4]
+        ]);
+
+        expect(api.it.calls.allArgs().map(args => args[0])).toEqual(['adds 1 and 2', 'adds 3 and 4']);
+        api.it.calls.argsFor(1)[1]();
+        expect(testFn).toHaveBeenCalledWith({a: 3, b: 4});
+    });
+
+    it('should pass _timeout as the third argument of it()', () => {
+        const api = createJestApi();
+        const { iit } = createParameterizedTests(jestAdapter(api));
+
+        iit('case $value', () => {}).where([{value: 1}, {value: 2, _timeout: 50}], { timeout: 10 });
+
+        expect(api.it.calls.argsFor(0)[2]).toBe(10);
+        expect(api.it.calls.argsFor(1)[2]).toBe(50);
+    });
+
+    it('should map _only, _skip and _pending to it.only, it.skip and it.todo', () => {
+        const api = createJestApi();
+        const { iit } = createParameterizedTests(jestAdapter(api));
+
+        iit('case $value', () => {}).where([
+            {value: 1, _only: true},
+            {value: 2, _skip: 'flaky'},
+            {value: 3, _pending: 'JIRA-123'},
+            {value: 4, _pending: true}
+        ]);
+
+        expect(api.it).not.toHaveBeenCalled();
+        expect(api.it.only.calls.argsFor(0)[0]).toBe('case 1');
+        expect(api.it.skip.calls.argsFor(0)[0]).toBe('case 2 (skipped: flaky)');
+        expect(api.it.todo.calls.allArgs()).toEqual([['case 3 (pending: JIRA-123)'], ['case 4']]);
+    });
+
+    it('should register suites with describe(name, fn) and skip pending suites', () => {
+        const api = createJestApi();
+        const suiteFn = jasmine.createSpy('suiteFn');
+        const { idescribe } = createParameterizedTests(jestAdapter(api));
+
+        idescribe('suite $value', suiteFn).where([
+            {value: 1, _timeout: 50},
+            {value: 2, _pending: 'JIRA-123'}
+        ]);
+
+        expect(api.describe.calls.argsFor(0).length).toBe(2);
+        expect(api.describe.calls.argsFor(0)[0]).toBe('suite 1');
+        expect(api.describe.skip.calls.argsFor(0)[0]).toBe('suite 2 (pending: JIRA-123)');
+
+        api.describe.calls.argsFor(0)[1]();
+        expect(suiteFn).toHaveBeenCalledWith({value: 1, _timeout: 50});
+    });
+
+    it('should register the focused and excluded runners with only and skip', () => {
+        const api = createJestApi();
+        const { fiit, xiit, fidescribe, xidescribe } = createParameterizedTests(jestAdapter(api));
+
+        fiit('focused $value', () => {}).where([{value: 1}]);
+        xiit('excluded $value', () => {}).where([{value: 1, _only: true}]);
+        fidescribe('focused suite $value', () => {}).where([{value: 1}]);
+        xidescribe('excluded suite $value', () => {}).where([{value: 1}]);
+
+        expect(api.it.only.calls.argsFor(0)[0]).toBe('focused 1');
+        expect(api.it.skip.calls.argsFor(0)[0]).toBe('excluded 1');
+        expect(api.describe.only.calls.argsFor(0)[0]).toBe('focused suite 1');
+        expect(api.describe.skip.calls.argsFor(0)[0]).toBe('excluded suite 1');
+    });
+
+    it('should validate the data before registering anything', () => {
+        const api = createJestApi();
+        const { iit } = createParameterizedTests(jestAdapter(api));
+
+        expect(() => {
+            iit('case $a', () => {}).where([{a: 1}, {a: 2, extra: true}]);
+        }).toThrowError(/Inconsistent test data in "case \$a"/);
+        expect(api.it).not.toHaveBeenCalled();
+    });
+
+    it('should pass callback-style tests Jest\'s done, with done.fail() added', () => {
+        const api = createJestApi();
+        const { iit } = createParameterizedTests(jestAdapter(api));
+
+        iit('case $value', (testCase, done) => {
+            done.fail('not yet');
+        }).where([{value: 1}]);
+
+        const body = api.it.calls.argsFor(0)[1];
+        const done = jasmine.createSpy('done');
+        expect(body.length).toBe(1);
+
+        body(done);
+        expect(done).toHaveBeenCalledOnceWith(new Error('not yet'));
+    });
+});
@@ -0,0 +1,130 @@
+/**
+ * Unit Tests for the Mocha Adapter
+ *
+ * Mocha is not installed in this workspace, so these tests drive the runners of
+ * createParameterizedTests(mochaAdapter(...)) through a stand-in with the shape of Mocha's
+ * BDD `it`/`describe`: spies returning a test or suite object with a `timeout()` spy.
+ * They verify which Mocha function each case is registered with, how timeouts are applied,
+ * and that the registered bodies run the callback with the case and Mocha's context.
+ *
+ * These are not integration tests: Mocha itself never runs them.
+ */
+
+import { createParameterizedTests, mochaAdapter } from '../parameterization-test.core';
+
+describe('Mocha adapter', () => {
+    const createRunnable = () => ({ timeout: jasmine.createSpy('timeout') });
+
+    const createRegister = (name: string) => jasmine.createSpy(name).and.callFake(createRunnable);
+
+    const createMochaApi = () => ({
+        it: Object.assign(createRegister('it'), {
+            only: createRegister('it.only'),
+            skip: createRegister('it.skip')
+        }),
+        describe: Object.assign(createRegister('describe'), {
+            only: createRegister('describe.only'),
+            skip: createRegister('describe.skip')
+        })
+    });
+
+    it('should register one it() per case and run the callback with the case and Mocha context', () => {
+        const api = createMochaApi();
+        const context = { timeout: () => {} };
+        let receivedThis: unknown;
+        const { iit } = createParameterizedTests(mochaAdapter(api));
+
+        iit('adds $a and $b', function(this: unknown, testCase) {
+            receivedThis = this;
+            expect(testCase).toEqual({a: 1, b: 2});
+        }).where([
+            ['a', 'b'],
+            [1, 2]
+        ]);
+
+        expect(api.it.calls.argsFor(0)[0]).toBe('adds 1 and 2');
+        api.it.calls.argsFor(0)[1].call(context);
+        expect(receivedThis).toBe(context);
+    });
+
+    it('should set _timeout with timeout() on the returned test', () => {
+        const api = createMochaApi();
+        const { iit } = createParameterizedTests(mochaAdapter(api));
+
+        iit('case $value', () => {}).where([{value: 1}, {value: 2, _timeout: 50}]);
+
+        expect(api.it.calls.argsFor(0).length).toBe(2);
+        expect(api.it.calls.all()[0].returnValue.timeout).not.toHaveBeenCalled();
+        expect(api.it.calls.all()[1].returnValue.timeout).toHaveBeenCalledWith(50);
+    });
+
+    it('should set the timeout option on every returned suite', () => {
+        const api = createMochaApi();
+        const { idescribe } = createParameterizedTests(mochaAdapter(api));
+
+        idescribe('suite $value', () => {}).where([{value: 1}, {value: 2}], { timeout: 100 });
+
+        expect(api.describe.calls.all().map(call => call.returnValue.timeout.calls.argsFor(0))).toEqual([[100], [100]]);
+    });
+
+    it('should map _only and _skip to it.only and it.skip, and _pending to it() without a body', () => {
+        const api = createMochaApi();
+        const { iit } = createParameterizedTests(mochaAdapter(api));
+
+        iit('case $value', () => {}).where([
+            {value: 1, _only: true},
+            {value: 2, _skip: 'flaky'},
+            {value: 3, _pending: 'JIRA-123'}
+        ]);
+
+        expect(api.it.only.calls.argsFor(0)[0]).toBe('case 1');
+        expect(api.it.skip.calls.argsFor(0)[0]).toBe('case 2 (skipped: flaky)');
+        expect(api.it.calls.allArgs()).toEqual([['case 3 (pending: JIRA-123)']]);
+    });
+
+    it('should skip pending suites with the reason in their name', () => {
+        const api = createMochaApi();
+        const { idescribe } = createParameterizedTests(mochaAdapter(api));
+
+        idescribe('suite $value', () => {}).where([{value: 1, _pending: 'JIRA-123'}]);
+
+        expect(api.describe).not.toHaveBeenCalled();
+        expect(api.describe.skip.calls.argsFor(0)[0]).toBe('suite 1 (pending: JIRA-123)');
+    });
+
+    it('should register the focused and excluded runners with only and skip', () => {
+        const api = createMochaApi();
+        const { fiit, xiit, fidescribe, xidescribe } = createParameterizedTests(mochaAdapter(api));
+
+        fiit('focused $value', () => {}).where([{value: 1}]);
+        xiit('excluded $value', () => {}).where([{value: 1, _pending: true}]);
+        fidescribe('focused suite $value', () => {}).where([{value: 1}]);
+        xidescribe('excluded suite $value', () => {}).where([{value: 1}]);
+
+        expect(api.it.only.calls.argsFor(0)[0]).toBe('focused 1');
+        expect(api.it.skip.calls.argsFor(0)[0]).toBe('excluded 1');
+        expect(api.it).not.toHaveBeenCalled();
+        expect(api.describe.only.calls.argsFor(0)[0]).toBe('focused suite 1');
+        expect(api.describe.skip.calls.argsFor(0)[0]).toBe('excluded suite 1');
+    });
+
+    it('should pass callback-style tests Mocha\'s done, with done.fail() added', () => {
+        const api = createMochaApi();
+        const context = {};
+        let receivedThis: unknown;
+        const { iit } = createParameterizedTests(mochaAdapter(api));
+
+        iit('case $value', function(this: unknown, testCase, done) {
+            receivedThis = this;
+            done();
+        }).where([{value: 1}]);
+
+        const body = api.it.calls.argsFor(0)[1];
+        const done = jasmine.createSpy('done');
+        expect(body.length).toBe(1);
+
+        body.call(context, done);
+        expect(receivedThis).toBe(context);
+        expect(done).toHaveBeenCalledOnceWith();
+    });
+});
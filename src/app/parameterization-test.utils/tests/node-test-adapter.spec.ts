@@ -0,0 +1,115 @@
+/**
+ * Unit Tests for the node:test Adapter
+ *
+ * Karma runs in a browser, where `node:test` is not available, so these tests drive the runners
+ * of createParameterizedTests(nodeTestAdapter(...)) through a stand-in with the shape of the
+ * `test`/`describe` functions imported from `node:test` (spies taking name, options and body).
+ * They verify the options each case is registered with and that the registered bodies run
+ * the callback with the case.
+ *
+ * These are not integration tests: node:test itself never runs them.
+ */
+
+import { createParameterizedTests, nodeTestAdapter } from '../parameterization-test.core';
+
+describe('node:test adapter', () => {
+    const createNodeTestApi = () => ({
+        test: jasmine.createSpy('test'),
+        describe: jasmine.createSpy('describe')
+    });
+
+    it('should register one test() per case with the timeout option and run the callback with the case', () => {
+        const api = createNodeTestApi();
+        const testFn = jasmine.createSpy('testFn');
+        const { iit } = createParameterizedTests(nodeTestAdapter(api));
+
+        iit('adds $a and $b', testFn).where([
+            ['a', 'b', '_timeout'],
+            [1, 2, undefined],
+            [3, 4, 50]
+        ]);
+
+        expect(api.test.calls.argsFor(0).slice(0, 2)).toEqual(['adds 1 and 2', { timeout: undefined }]);
+        expect(api.test.calls.argsFor(1).slice(0, 2)).toEqual(['adds 3 and 4', { timeout: 50 }]);
+
+        // node:test passes its test context as the argument; the callback still gets the case
+        api.test.calls.argsFor(1)[2]({ name: 'context' });
+        expect(testFn).toHaveBeenCalledOnceWith({a: 3, b: 4, _timeout: 50});
+    });
+
+    it('should map _only, _skip and _pending to the only, skip and todo options', () => {
+        const api = createNodeTestApi();
+        const { iit } = createParameterizedTests(nodeTestAdapter(api));
+
+        iit('case $value', () => {}).where([
+            {value: 1, _only: true},
+            {value: 2, _skip: 'flaky'},
+            {value: 3, _pending: 'JIRA-123'},
+            {value: 4, _pending: true}
+        ]);
+
+        expect(api.test.calls.argsFor(0).slice(0, 2)).toEqual(['case 1', { timeout: undefined, only: true }]);
+        expect(api.test.calls.argsFor(1)).toEqual(['case 2', { timeout: undefined, skip: 'flaky' }]);
+        expect(api.test.calls.argsFor(2)).toEqual(['case 3', { timeout: undefined, todo: 'JIRA-123' }]);
+        expect(api.test.calls.argsFor(3)).toEqual(['case 4', { timeout: undefined, todo: true }]);
+    });
+
+    it('should register suites with describe() and mark pending suites todo', () => {
+        const api = createNodeTestApi();
+        const suiteFn = jasmine.createSpy('suiteFn');
+        const { idescribe } = createParameterizedTests(nodeTestAdapter(api));
+
+        idescribe('suite $value', suiteFn).where([
+            {value: 1},
+            {value: 2, _pending: 'JIRA-123'}
+        ], { timeout: 100 });
+
+        expect(api.describe.calls.argsFor(0).slice(0, 2)).toEqual(['suite 1', { timeout: 100 }]);
+        expect(api.describe.calls.argsFor(1)).toEqual(['suite 2', { timeout: 100, todo: 'JIRA-123' }]);
+
+        api.describe.calls.argsFor(0)[2]();
+        expect(suiteFn).toHaveBeenCalledOnceWith({value: 1});
+    });
+
+    it('should register the focused and excluded runners with the only and skip options', () => {
+        const api = createNodeTestApi();
+        const { fiit, xiit, fidescribe, xidescribe } = createParameterizedTests(nodeTestAdapter(api));
+
+        fiit('focused $value', () => {}).where([{value: 1}]);
+        xiit('excluded $value', () => {}).where([{value: 1, _only: true}]);
+        fidescribe('focused suite $value', () => {}).where([{value: 1}]);
+        xidescribe('excluded suite $value', () => {}).where([{value: 1, _pending: true}]);
+
+        expect(api.test.calls.argsFor(0)[1]).toEqual({ timeout: undefined, only: true });
+        expect(api.test.calls.argsFor(1)[1]).toEqual({ timeout: undefined, skip: true });
+        expect(api.describe.calls.argsFor(0)[1]).toEqual({ timeout: undefined, only: true });
+        expect(api.describe.calls.argsFor(1)[1]).toEqual({ timeout: undefined, skip: true });
+    });
+
+    it('should pass the reason of excluded _pending cases as the skip option', () => {
+        const api = createNodeTestApi();
+        const { xiit, xidescribe } = createParameterizedTests(nodeTestAdapter(api));
+
+        xiit('excluded $value', () => {}).where([{value: 1, _pending: 'JIRA-123'}]);
+        xidescribe('excluded suite $value', () => {}).where([{value: 1, _pending: 'JIRA-123'}]);
+
+        expect(api.test.calls.argsFor(0)).toEqual(['excluded 1', { timeout: undefined, skip: 'JIRA-123' }]);
+        expect(api.describe.calls.argsFor(0)).toEqual(['excluded suite 1', { timeout: undefined, skip: 'JIRA-123' }]);
+    });
+
+    it('should pass callback-style tests the done node:test gives after the test context', () => {
+        const api = createNodeTestApi();
+        const { iit } = createParameterizedTests(nodeTestAdapter(api));
+
+        iit('case $value', (testCase, done) => {
+            done.fail(new Error('broken'));
+        }).where([{value: 1}]);
+
+        const body = api.test.calls.argsFor(0)[2];
+        const done = jasmine.createSpy('done');
+        expect(body.length).toBe(2);
+
+        body({ name: 'context' }, done);
+        expect(done).toHaveBeenCalledOnceWith(new Error('broken'));
+    });
+});
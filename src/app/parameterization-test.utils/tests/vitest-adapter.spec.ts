@@ -0,0 +1,116 @@
+/**
+ * Unit Tests for the Vitest Adapter
+ *
+ * Vitest is not installed in this workspace, so these tests drive the runners of
+ * createParameterizedTests(vitestAdapter(...)) through a stand-in with the shape of the
+ * `test`/`describe` functions imported from `vitest` (spies for the functions and their
+ * `only`/`skip`/`todo` modifiers). They verify which Vitest function each case is registered
+ * with, the arguments it receives, and that the registered bodies run the callback with the case.
+ *
+ * These are not integration tests: Vitest itself never runs them.
+ */
+
+import { arb, createParameterizedTests, vitestAdapter } from '../parameterization-test.core';
+
+describe('Vitest adapter', () => {
+    const createRegister = (name: string) => Object.assign(jasmine.createSpy(name), {
+        only: jasmine.createSpy(`${name}.only`),
+        skip: jasmine.createSpy(`${name}.skip`),
+        todo: jasmine.createSpy(`${name}.todo`)
+    });
+
+    const createVitestApi = () => ({ test: createRegister('test'), describe: createRegister('describe') });
+
+    it('should register one test() per case and run the callback with the case', async () => {
+        const api = createVitestApi();
+        const { iit } = createParameterizedTests(vitestAdapter(api));
+
+        iit('adds $a and $b', async (testCase) => {
+            expect(testCase['a'] + testCase['b']).toBe(testCase['expected']);
+        }).where([
+            { a: 1, b: 2, expected: 3 },
+            { a: 2, b: 2, expected: 4 }
+        ]);
+
+        expect(api.test.calls.allArgs().map(args => args[0])).toEqual(['adds 1 and 2', 'adds 2 and 2']);
+        await api.test.calls.argsFor(0)[1]();
+    });
+
+    it('should pass _timeout as the third argument of test() and describe()', () => {
+        const api = createVitestApi();
+        const { iit, idescribe } = createParameterizedTests(vitestAdapter(api));
+
+        iit('case $value', () => {}).where([{value: 1, _timeout: 50}]);
+        idescribe('suite $value', () => {}).where([{value: 1}], { timeout: 100 });
+
+        expect(api.test.calls.argsFor(0)[2]).toBe(50);
+        expect(api.describe.calls.argsFor(0)[2]).toBe(100);
+    });
+
+    it('should map _only, _skip and _pending to test.only, test.skip and test.todo', () => {
+        const api = createVitestApi();
+        const { iit } = createParameterizedTests(vitestAdapter(api));
+
+        iit('case $value', () => {}).where([
+            {value: 1, _only: true},
+            {value: 2, _skip: true},
+            {value: 3, _pending: 'JIRA-123'}
+        ]);
+
+        expect(api.test).not.toHaveBeenCalled();
+        expect(api.test.only.calls.argsFor(0)[0]).toBe('case 1');
+        expect(api.test.skip.calls.argsFor(0)[0]).toBe('case 2');
+        expect(api.test.todo.calls.allArgs()).toEqual([['case 3 (pending: JIRA-123)']]);
+    });
+
+    it('should register pending suites with describe.todo', () => {
+        const api = createVitestApi();
+        const suiteFn = jasmine.createSpy('suiteFn');
+        const { idescribe } = createParameterizedTests(vitestAdapter(api));
+
+        idescribe('suite $value', suiteFn).where([
+            {value: 1},
+            {value: 2, _pending: true}
+        ]);
+
+        expect(api.describe.calls.argsFor(0)[0]).toBe('suite 1');
+        expect(api.describe.todo.calls.allArgs()).toEqual([['suite 2']]);
+
+        api.describe.calls.argsFor(0)[1]();
+        expect(suiteFn).toHaveBeenCalledOnceWith({value: 1});
+    });
+
+    it('should register the focused and excluded runners with only and skip', () => {
+        const api = createVitestApi();
+        const { fiit, xiit, fidescribe, xidescribe } = createParameterizedTests(vitestAdapter(api));
+
+        fiit('focused $value', () => {}).where([{value: 1}]);
+        xiit('excluded $value', () => {}).where([{value: 1}]);
+        fidescribe('focused suite $value', () => {}).where([{value: 1}]);
+        xidescribe('excluded suite $value', () => {}).where([{value: 1, _pending: 'JIRA-123'}]);
+
+        expect(api.test.only.calls.argsFor(0)[0]).toBe('focused 1');
+        expect(api.test.skip.calls.argsFor(0)[0]).toBe('excluded 1');
+        expect(api.describe.only.calls.argsFor(0)[0]).toBe('focused suite 1');
+        expect(api.describe.skip.calls.argsFor(0)[0]).toBe('excluded suite 1 (pending: JIRA-123)');
+        expect(api.describe.todo).not.toHaveBeenCalled();
+    });
+
+    it('should register property tests with test()', () => {
+        const api = createVitestApi();
+        const { iprop } = createParameterizedTests(vitestAdapter(api));
+
+        iprop('$n is an integer', (testCase) => Number.isInteger(testCase['n'])).forAll({ n: arb.int() }, { runs: 5, seed: 42 });
+
+        expect(api.test).toHaveBeenCalledTimes(5);
+    });
+
+    it('should reject callback-style tests, which Vitest does not support', () => {
+        const api = createVitestApi();
+        const { iit } = createParameterizedTests(vitestAdapter(api));
+
+        expect(() => {
+            iit('case $value', (testCase, done) => done()).where([{value: 1}]);
+        }).toThrowError('Test "case 1" takes a done callback, which Vitest does not support - return a promise (async/await) instead');
+    });
+});